@@ -0,0 +1,5 @@
+// 테스트는 AWS 없이 인메모리 저장소와 프로세스 내 브로드캐스트 버스로 실행
+process.env.STORAGE_BACKEND = 'memory';
+process.env.BROADCAST_BACKEND = 'memory';
+process.env.SESSION_CACHE = 'false';
+process.env.TOKEN_SECRET = 'test-token-secret';
@@ -0,0 +1,8 @@
+import { NextFunction, Request, RequestHandler, Response } from 'express';
+
+// async 라우트 핸들러 래퍼 - 던진 에러를 next(err)로 넘겨 공통 에러 핸들러가 500으로 응답 (프로세스 종료 방지)
+export function asyncHandler(handler: (req: Request, res: Response, next: NextFunction) => Promise<void>): RequestHandler {
+  return (req, res, next) => {
+    handler(req, res, next).catch(next);
+  };
+}
@@ -0,0 +1,38 @@
+import { describe, expect, it, jest } from '@jest/globals';
+import { Request, Response } from 'express';
+import { requireHost } from './auth';
+import tokenService from '../services/tokenService';
+
+function call(authorization?: string) {
+  const req = { headers: { authorization } } as unknown as Request;
+  const res = {
+    locals: {} as Record<string, unknown>,
+    status: jest.fn(() => res),
+    json: jest.fn(() => res)
+  };
+  const next = jest.fn();
+  requireHost(req, res as unknown as Response, next);
+  return { res, next };
+}
+
+describe('requireHost', () => {
+  it('accepts a bearer host token and exposes the host id', () => {
+    const { token } = tokenService.issueHostToken('host-1');
+    const { res, next } = call(`Bearer ${token}`);
+
+    expect(next).toHaveBeenCalled();
+    expect(res.locals.hostId).toBe('host-1');
+  });
+
+  it('rejects missing, malformed and resume tokens with 401', () => {
+    const resumeToken = tokenService.issueResumeToken('s1', 'p1');
+    const { token } = tokenService.issueHostToken('host-1');
+
+    for (const authorization of [undefined, token, `Basic ${token}`, `Bearer ${resumeToken}`, 'Bearer nope']) {
+      const { res, next } = call(authorization);
+      expect(next).not.toHaveBeenCalled();
+      expect(res.status).toHaveBeenCalledWith(401);
+      expect(res.json).toHaveBeenCalledWith({ message: 'Valid host token required', code: 'UNAUTHORIZED' });
+    }
+  });
+});
@@ -0,0 +1,61 @@
+import { Router, Request, Response, NextFunction } from 'express';
+import { timingSafeEqual } from 'crypto';
+import tokenService from '../services/tokenService';
+
+const router = Router();
+
+const HOST_API_KEY = process.env.HOST_API_KEY;
+
+function isValidApiKey(apiKey: unknown): boolean {
+  if (!HOST_API_KEY || typeof apiKey !== 'string') {
+    return false;
+  }
+
+  const expected = Buffer.from(HOST_API_KEY);
+  const actual = Buffer.from(apiKey);
+  return expected.length === actual.length && timingSafeEqual(expected, actual);
+}
+
+// Authorization: Bearer <hostToken> 검증 미들웨어 - 통과하면 res.locals.hostId 설정
+export function requireHost(req: Request, res: Response, next: NextFunction): void {
+  const header = req.headers.authorization || '';
+  const [scheme, token] = header.split(' ');
+
+  const payload = scheme === 'Bearer' && token ? tokenService.verifyHostToken(token) : null;
+  if (!payload) {
+    res.status(401).json({ message: 'Valid host token required', code: 'UNAUTHORIZED' });
+    return;
+  }
+
+  res.locals.hostId = payload.hostId;
+  next();
+}
+
+// 호스트 토큰 발급 - 서버 API 키를 가진 관리 도구/백오피스에서 호출
+router.post('/host-token', (req: Request, res: Response) => {
+  if (!HOST_API_KEY) {
+    res.status(503).json({ message: 'Host token issuing is not configured', code: 'HOST_AUTH_NOT_CONFIGURED' });
+    return;
+  }
+
+  if (!isValidApiKey(req.headers['x-api-key'])) {
+    res.status(401).json({ message: 'Invalid API key', code: 'UNAUTHORIZED' });
+    return;
+  }
+
+  const { hostId } = req.body || {};
+  if (typeof hostId !== 'string' || hostId.trim().length === 0) {
+    res.status(400).json({
+      message: 'hostId is required',
+      code: 'VALIDATION_ERROR',
+      details: [{ field: 'hostId', message: 'hostId is required' }]
+    });
+    return;
+  }
+
+  console.log(`🔑 API: Issuing host token for ${hostId}`);
+  const { token, expiresAt } = tokenService.issueHostToken(hostId.trim());
+  res.status(201).json({ hostId: hostId.trim(), hostToken: token, expiresAt });
+});
+
+export default router;
@@ -0,0 +1,327 @@
+import { Router, Request, Response } from 'express';
+import { v4 as uuidv4 } from 'uuid';
+import storage from '../services/storage';
+import { isDemoQuiz } from '../demoData';
+import { Quiz, Question, ValidationIssue } from '../types';
+import { validateQuiz } from '../validation/quizValidator';
+import { requireHost } from './auth';
+import { asyncHandler } from './asyncHandler';
+import { parseExportFormat, sendResultsExport } from './results';
+import { EXPORT_FORMATS } from '../services/resultExport';
+import { IMPORT_FORMATS, ImportFormat, ImportIssue, importQuiz } from '../services/quizImport';
+
+const router = Router();
+
+// 퀴즈 단위 결과 내보내기 시 포함할 최대 세션 수
+const MAX_EXPORT_RESULTS = 500;
+
+// 모든 퀴즈 API는 호스트 토큰 필요 - 제작자(creatorId)는 토큰의 hostId로 결정
+router.use(requireHost);
+
+// 에러 응답 헬퍼 - WebSocket error 페이로드와 같은 형태로 응답
+function sendError(res: Response, status: number, message: string, code: string, details?: any): void {
+  res.status(status).json({ message, code, details });
+}
+
+function isNonEmptyString(value: any): value is string {
+  return typeof value === 'string' && value.trim().length > 0;
+}
+
+function logQuizWarnings(warnings: ValidationIssue[]): void {
+  if (warnings.length > 0) {
+    console.warn(`⚠️ API: Quiz saved with ${warnings.length} warnings:`, warnings.map(w => `${w.field}: ${w.message}`).join('; '));
+  }
+}
+
+function toQuestion(question: any): Question {
+  const base = {
+    id: question.id || uuidv4(),
+    text: question.text.trim(),
+    choices: Array.isArray(question.choices) ? question.choices.map((choice: string) => choice.trim()) : [],
+    timeLimit: question.timeLimit,
+    points: question.points
+  };
+
+  switch (question.type ?? 'single_choice') {
+    case 'true_false':
+      return {
+        ...base,
+        type: 'true_false',
+        choices: base.choices.length === 2 ? base.choices : ['참', '거짓'],
+        correctAnswer: question.correctAnswer
+      };
+    case 'multi_select':
+      return { ...base, type: 'multi_select', correctAnswers: [...question.correctAnswers].sort((a: number, b: number) => a - b) };
+    case 'ordering':
+      return { ...base, type: 'ordering', correctOrder: [...question.correctOrder] };
+    case 'numeric':
+      return {
+        ...base,
+        type: 'numeric',
+        choices: [],
+        correctRange: { min: question.correctRange.min, max: question.correctRange.max },
+        ...(question.unit ? { unit: question.unit.trim() } : {})
+      };
+    default:
+      return { ...base, correctAnswer: question.correctAnswer };
+  }
+}
+
+function toQuestions(questions: any[]): Question[] {
+  return questions.map(toQuestion);
+}
+
+// 퀴즈 목록 조회 (제작자별)
+router.get('/', asyncHandler(async (req: Request, res: Response) => {
+  const hostId: string = res.locals.hostId;
+  const creatorId = req.query.creatorId ?? hostId;
+
+  if (!isNonEmptyString(creatorId)) {
+    sendError(res, 400, 'creatorId query parameter must be a string', 'VALIDATION_ERROR', [
+      { field: 'creatorId', message: 'creatorId must be a non-empty string' }
+    ]);
+    return;
+  }
+
+  if (creatorId !== hostId) {
+    sendError(res, 403, 'Cannot list quizzes of another creator', 'FORBIDDEN');
+    return;
+  }
+
+  console.log(`📚 API: Listing quizzes for creator ${creatorId}`);
+  const quizzes = await storage.getQuizzesByCreator(creatorId);
+  res.json(quizzes);
+}));
+
+// 퀴즈 단건 조회
+router.get('/:quizId', asyncHandler(async (req: Request, res: Response) => {
+  const quiz = await storage.getQuiz(req.params.quizId);
+
+  if (!quiz) {
+    sendError(res, 404, `Quiz ${req.params.quizId} not found`, 'QUIZ_NOT_FOUND');
+    return;
+  }
+
+  // 정답이 포함되어 있으므로 제작자 본인만 조회 가능 (데모 퀴즈 제외)
+  if (quiz.creatorId !== res.locals.hostId && !isDemoQuiz(quiz.id)) {
+    sendError(res, 403, 'Quiz belongs to another creator', 'FORBIDDEN');
+    return;
+  }
+
+  res.json(quiz);
+}));
+
+// 퀴즈의 모든 세션 결과 내보내기 (?format=csv|json)
+router.get('/:quizId/results/export', asyncHandler(async (req: Request, res: Response) => {
+  const hostId: string = res.locals.hostId;
+  const format = parseExportFormat(req.query.format);
+  if (!format) {
+    sendError(res, 400, 'Invalid export format', 'VALIDATION_ERROR', [
+      { field: 'format', message: `must be one of: ${EXPORT_FORMATS.join(', ')}` }
+    ]);
+    return;
+  }
+
+  const quiz = await storage.getQuiz(req.params.quizId);
+  if (!quiz) {
+    sendError(res, 404, `Quiz ${req.params.quizId} not found`, 'QUIZ_NOT_FOUND');
+    return;
+  }
+
+  if (quiz.creatorId !== hostId && !isDemoQuiz(quiz.id)) {
+    sendError(res, 403, 'Quiz belongs to another creator', 'FORBIDDEN');
+    return;
+  }
+
+  // 데모 퀴즈는 여러 호스트가 진행하므로 본인이 진행한 세션만 포함
+  const results = (await storage.getGameResultsByQuiz(quiz.id, MAX_EXPORT_RESULTS))
+    .filter(result => result.hostId === hostId);
+
+  console.log(`📤 API: Exporting ${results.length} results for quiz ${quiz.id} as ${format}`);
+  sendResultsExport(res, results, format, `amahoot-quiz-${quiz.id}`);
+}));
+
+// 퀴즈 검증만 수행 (저장하지 않음) - 편집 화면에서 오류/경고 표시용
+router.post('/validate', (req: Request, res: Response) => {
+  res.json(validateQuiz(req.body));
+});
+
+// 퀴즈 생성
+router.post('/', asyncHandler(async (req: Request, res: Response) => {
+  const { errors, warnings } = validateQuiz(req.body);
+  if (errors.length > 0) {
+    sendError(res, 400, 'Invalid quiz', 'VALIDATION_ERROR', errors);
+    return;
+  }
+  logQuizWarnings(warnings);
+
+  const now = new Date().toISOString();
+  const quiz: Quiz = {
+    id: uuidv4(),
+    title: req.body.title.trim(),
+    description: req.body.description || '',
+    creatorId: res.locals.hostId,
+    questions: toQuestions(req.body.questions),
+    createdAt: now,
+    updatedAt: now
+  };
+
+  console.log(`📝 API: Creating quiz "${quiz.title}" (${quiz.questions.length} questions) for creator ${quiz.creatorId}`);
+  const saved = await storage.saveQuiz(quiz);
+  if (!saved) {
+    sendError(res, 500, 'Failed to save quiz', 'QUIZ_SAVE_ERROR');
+    return;
+  }
+
+  res.status(201).json(quiz);
+}));
+
+// 퀴즈 가져오기 - { format: 'csv' | 'text', content, title?, description?, dryRun? }
+router.post('/import', asyncHandler(async (req: Request, res: Response) => {
+  const { format, content, title, description, dryRun } = req.body || {};
+
+  const requestErrors: ValidationIssue[] = [];
+  if (!IMPORT_FORMATS.includes(format)) {
+    requestErrors.push({ field: 'format', message: `format must be one of: ${IMPORT_FORMATS.join(', ')}` });
+  }
+  if (!isNonEmptyString(content)) {
+    requestErrors.push({ field: 'content', message: 'content is required' });
+  }
+  if (title !== undefined && typeof title !== 'string') {
+    requestErrors.push({ field: 'title', message: 'title must be a string' });
+  }
+  if (requestErrors.length > 0) {
+    sendError(res, 400, 'Invalid import request', 'VALIDATION_ERROR', requestErrors);
+    return;
+  }
+
+  const imported = importQuiz(format as ImportFormat, content);
+
+  // 변환된 문제도 일반 생성과 같은 규칙으로 검증 - 문제 위치는 원본 줄 번호로 변환
+  const payload = {
+    title: isNonEmptyString(title) ? title : imported.title,
+    description,
+    questions: imported.questions
+  };
+  const validationIssues: ImportIssue[] = validateQuiz(payload).errors.map(error => {
+    const match = /^questions\[(\d+)\]\.?(.*)$/.exec(error.field);
+    return match
+      ? { line: imported.questionLines[Number(match[1])], field: match[2] || undefined, message: error.message }
+      : { line: 0, field: error.field, message: error.message };
+  });
+
+  // 문제가 하나도 변환되지 않은 경우 questions 오류는 변환 오류와 중복이므로 제외
+  const issues = [
+    ...imported.issues,
+    ...validationIssues.filter(issue => !(imported.issues.length > 0 && issue.field === 'questions'))
+  ].sort((a, b) => a.line - b.line);
+
+  if (issues.length > 0) {
+    console.warn(`⚠️ API: Quiz import failed with ${issues.length} issues`);
+    sendError(res, 400, 'Quiz import failed', 'IMPORT_ERROR', issues);
+    return;
+  }
+
+  const now = new Date().toISOString();
+  const quiz: Quiz = {
+    id: uuidv4(),
+    title: payload.title!.trim(),
+    description: description || '',
+    creatorId: res.locals.hostId,
+    questions: toQuestions(payload.questions),
+    createdAt: now,
+    updatedAt: now
+  };
+
+  // dryRun이면 저장하지 않고 변환 결과만 반환
+  if (dryRun === true) {
+    res.json(quiz);
+    return;
+  }
+
+  console.log(`📥 API: Importing quiz "${quiz.title}" from ${format} (${quiz.questions.length} questions) for creator ${quiz.creatorId}`);
+  const saved = await storage.saveQuiz(quiz);
+  if (!saved) {
+    sendError(res, 500, 'Failed to save quiz', 'QUIZ_SAVE_ERROR');
+    return;
+  }
+
+  res.status(201).json(quiz);
+}));
+
+// 퀴즈 수정 (전체 교체)
+router.put('/:quizId', asyncHandler(async (req: Request, res: Response) => {
+  const { quizId } = req.params;
+
+  if (isDemoQuiz(quizId)) {
+    sendError(res, 403, 'Demo quiz cannot be modified', 'QUIZ_READ_ONLY');
+    return;
+  }
+
+  const { errors, warnings } = validateQuiz(req.body);
+  if (errors.length > 0) {
+    sendError(res, 400, 'Invalid quiz', 'VALIDATION_ERROR', errors);
+    return;
+  }
+  logQuizWarnings(warnings);
+
+  const existingQuiz = await storage.getQuiz(quizId);
+  if (!existingQuiz) {
+    sendError(res, 404, `Quiz ${quizId} not found`, 'QUIZ_NOT_FOUND');
+    return;
+  }
+
+  if (existingQuiz.creatorId !== res.locals.hostId) {
+    sendError(res, 403, 'Quiz belongs to another creator', 'FORBIDDEN');
+    return;
+  }
+
+  const quiz: Quiz = {
+    ...existingQuiz,
+    title: req.body.title.trim(),
+    description: req.body.description || '',
+    questions: toQuestions(req.body.questions),
+    updatedAt: new Date().toISOString()
+  };
+
+  console.log(`✏️ API: Updating quiz ${quizId}`);
+  const saved = await storage.saveQuiz(quiz);
+  if (!saved) {
+    sendError(res, 500, 'Failed to save quiz', 'QUIZ_SAVE_ERROR');
+    return;
+  }
+
+  res.json(quiz);
+}));
+
+// 퀴즈 삭제
+router.delete('/:quizId', asyncHandler(async (req: Request, res: Response) => {
+  const { quizId } = req.params;
+
+  if (isDemoQuiz(quizId)) {
+    sendError(res, 403, 'Demo quiz cannot be deleted', 'QUIZ_READ_ONLY');
+    return;
+  }
+
+  const existingQuiz = await storage.getQuiz(quizId);
+  if (!existingQuiz) {
+    sendError(res, 404, `Quiz ${quizId} not found`, 'QUIZ_NOT_FOUND');
+    return;
+  }
+
+  if (existingQuiz.creatorId !== res.locals.hostId) {
+    sendError(res, 403, 'Quiz belongs to another creator', 'FORBIDDEN');
+    return;
+  }
+
+  console.log(`🗑️ API: Deleting quiz ${quizId}`);
+  const deleted = await storage.deleteQuiz(quizId);
+  if (!deleted) {
+    sendError(res, 500, 'Failed to delete quiz', 'QUIZ_DELETE_ERROR');
+    return;
+  }
+
+  res.status(204).end();
+}));
+
+export default router;
@@ -0,0 +1,114 @@
+import { Router, Request, Response } from 'express';
+import gameService, { RecapRequester } from '../services/gameService';
+import tokenService from '../services/tokenService';
+import storage from '../services/storage';
+import { GameError } from '../services/errors';
+import { EXPORT_FORMATS, ExportFormat, exportResults } from '../services/resultExport';
+import { GameResult } from '../types';
+import { requireHost } from './auth';
+import { asyncHandler } from './asyncHandler';
+
+const router = Router();
+
+// GameError 코드별 HTTP 상태
+const STATUS_BY_CODE: Record<string, number> = {
+  FORBIDDEN: 403,
+  SESSION_NOT_FOUND: 404,
+  PLAYER_NOT_FOUND: 404,
+  GAME_IN_PROGRESS: 409
+};
+
+// Authorization: Bearer <hostToken | resumeToken> - 호스트 또는 플레이어 본인
+function getRequester(req: Request): RecapRequester | null {
+  const header = req.headers.authorization || '';
+  const [scheme, token] = header.split(' ');
+  if (scheme !== 'Bearer' || !token) {
+    return null;
+  }
+
+  const hostPayload = tokenService.verifyHostToken(token);
+  if (hostPayload) {
+    return { kind: 'host', hostId: hostPayload.hostId };
+  }
+
+  const resumePayload = tokenService.verifyResumeToken(token);
+  if (resumePayload) {
+    return { kind: 'player', sessionId: resumePayload.sessionId, playerId: resumePayload.playerId };
+  }
+
+  return null;
+}
+
+// 플레이어 리캡 조회
+router.get('/:sessionId/players/:playerId/recap', asyncHandler(async (req: Request, res: Response) => {
+  const { sessionId, playerId } = req.params;
+
+  const requester = getRequester(req);
+  if (!requester) {
+    res.status(401).json({ message: 'Valid host token or resume token required', code: 'UNAUTHORIZED' });
+    return;
+  }
+
+  try {
+    console.log(`🧾 API: Getting recap for player ${playerId} in session ${sessionId}`);
+    const recap = await gameService.getPlayerRecap(sessionId, playerId, requester);
+    if (!recap) {
+      res.status(500).json({ message: 'Failed to get player recap', code: 'GET_PLAYER_RECAP_ERROR' });
+      return;
+    }
+    res.json(recap);
+  } catch (error) {
+    if (error instanceof GameError) {
+      res.status(STATUS_BY_CODE[error.code] ?? 400).json({ message: error.message, code: error.code, details: error.details });
+      return;
+    }
+    console.error('❌ API: Error getting player recap:', error);
+    res.status(500).json({ message: 'Failed to get player recap', code: 'GET_PLAYER_RECAP_ERROR' });
+  }
+}));
+
+// ?format=csv|json (기본 csv) - 잘못된 값이면 null
+export function parseExportFormat(value: unknown): ExportFormat | null {
+  if (value === undefined) {
+    return 'csv';
+  }
+  return EXPORT_FORMATS.find(format => format === value) ?? null;
+}
+
+// 내보내기 응답 - 첨부 파일로 다운로드
+export function sendResultsExport(res: Response, results: GameResult[], format: ExportFormat, filename: string): void {
+  const { body, contentType } = exportResults(results, format);
+  res.setHeader('Content-Type', contentType);
+  res.setHeader('Content-Disposition', `attachment; filename="${filename}.${format}"`);
+  res.send(body);
+}
+
+// 세션 결과 내보내기 - 해당 세션의 호스트만
+router.get('/:sessionId/export', requireHost, asyncHandler(async (req: Request, res: Response) => {
+  const { sessionId } = req.params;
+  const format = parseExportFormat(req.query.format);
+  if (!format) {
+    res.status(400).json({
+      message: `format must be one of: ${EXPORT_FORMATS.join(', ')}`,
+      code: 'VALIDATION_ERROR',
+      details: [{ field: 'format', message: `must be one of: ${EXPORT_FORMATS.join(', ')}` }]
+    });
+    return;
+  }
+
+  const result = await storage.getGameResult(sessionId);
+  if (!result) {
+    res.status(404).json({ message: `Game result for session ${sessionId} not found`, code: 'GAME_RESULT_NOT_FOUND' });
+    return;
+  }
+
+  if (result.hostId !== res.locals.hostId) {
+    res.status(403).json({ message: 'Only the session host can export these results', code: 'FORBIDDEN' });
+    return;
+  }
+
+  console.log(`📤 API: Exporting results for session ${sessionId} as ${format}`);
+  sendResultsExport(res, [result], format, `amahoot-session-${sessionId}`);
+}));
+
+export default router;
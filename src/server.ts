@@ -2,84 +2,318 @@ import { createServer } from 'http';
 import { WebSocketServer, WebSocket } from 'ws';
 import express from 'express';
 import cors from 'cors';
-import gameService from './services/gameService';
-import dynamoService from './services/dynamodb';
+import gameService, { RecapRequester } from './services/gameService';
+import storage from './services/storage';
+import tokenService from './services/tokenService';
+import questionTimer from './services/questionTimer';
+import { GameError } from './services/errors';
+import { buildRevealStats, describeCorrectAnswer, getCorrectAnswer, getQuestionType } from './services/questionTypes';
+import { toPublicGameResult } from './services/recap';
+import { buildSpectatorSnapshot, getOpenQuestion, presentForPlayer, presentForSpectator } from './services/presenters';
+import { getChoiceShuffleSeed } from './services/shuffle';
+import sessionRelay, { RelayTarget } from './services/sessionRelay';
+import { findBrokenStreaks } from './services/streaks';
+import { getAskedQuestionIds, getCurrentQuestion, isQuestionSkipped } from './services/questionFlow';
+import { validateClientMessage } from './validation/messageSchemas';
+import {
+  ActiveQuestion,
+  AnswerRevealedContent,
+  ClientMessage,
+  ClientMessageType,
+  PlayerJoinedSuccessContent,
+  QuestionStartedContent,
+  ServerMessage,
+  ServerMessageContentMap,
+  ServerMessageType
+} from './types';
+import authRoutes from './routes/auth';
+import quizRoutes from './routes/quizzes';
+import resultRoutes from './routes/results';
 
 const app = express();
 const PORT = process.env.PORT || 5000;
+const HEARTBEAT_INTERVAL_MS = parseInt(process.env.HEARTBEAT_INTERVAL_MS || '30000', 10);
+const KICKED_CLOSE_CODE = 4001; // 호스트가 추방한 연결
+const SPECTATOR_MESSAGE_TYPES: ClientMessageType[] = ['get_session_results', 'get_public_game_results', 'get_game_result', 'ping'];
 
 app.use(cors());
 app.use(express.json());
 
+// REST API
+app.use('/api/auth', authRoutes);
+app.use('/api/quizzes', quizRoutes);
+app.use('/api/results', resultRoutes);
+
+// REST 핸들러에서 처리하지 못한 에러 - 프로세스를 죽이지 않고 500으로 응답
+app.use((error: unknown, req: express.Request, res: express.Response, next: express.NextFunction) => {
+  console.error(`❌ API: Unhandled error on ${req.method} ${req.originalUrl}:`, error);
+  if (res.headersSent) {
+    next(error);
+    return;
+  }
+  res.status(500).json({ message: 'Internal server error', code: 'INTERNAL_ERROR' });
+});
+
 const server = createServer(app);
 const wss = new WebSocketServer({ server });
 
-interface QuizWebSocketMessage {
-  type: string;
-  content?: any;
-  metadata?: any;
-  timestamp: number;
-  sessionId?: string;
-  playerId?: string;
-}
-
 interface ExtendedWebSocket extends WebSocket {
   sessionId?: string;
   playerId?: string;
   isHost?: boolean;
+  isSpectator?: boolean; // 큰 화면/방송용 - 답변 불가, 표시용 페이로드만 받음
+  choiceShuffleSeed?: string; // 보기 섞기 세션의 플레이어 - 문제/정답 공개를 플레이어별 보기 순서로 보냄
   isAlive?: boolean;
 }
 
 const connections = new Map<string, ExtendedWebSocket>();
 
 // 메시지 전송 헬퍼
-function sendMessage(ws: ExtendedWebSocket, type: string, content?: any, metadata?: any): void {
+function sendMessage<T extends ServerMessageType>(ws: ExtendedWebSocket, type: T, content: ServerMessageContentMap[T], metadata?: any): void {
   if (ws.readyState === WebSocket.OPEN) {
-    const message: QuizWebSocketMessage = {
+    const message = {
       type,
       content,
       metadata,
       timestamp: Date.now()
-    };
+    } as ServerMessage<T>;
     ws.send(JSON.stringify(message));
   }
 }
 
-// 세션의 모든 클라이언트에게 메시지 브로드캐스트
-function broadcastToSession(sessionId: string, type: string, content?: any, excludeWs?: ExtendedWebSocket): void {
-  connections.forEach((ws, connectionId) => {
-    if (ws.sessionId === sessionId && ws !== excludeWs) {
-      sendMessage(ws, type, content);
+// 관전자 소켓 전송 - 역할별로 변환된 페이로드를 보냄 (관전자에게 보내지 않는 유형이면 무시)
+function sendToSpectator<T extends ServerMessageType>(ws: ExtendedWebSocket, type: T, content: ServerMessageContentMap[T]): void {
+  const presented = presentForSpectator(type, content);
+  if (presented !== null && ws.readyState === WebSocket.OPEN) {
+    ws.send(JSON.stringify({ type, content: presented, timestamp: Date.now() }));
+  }
+}
+
+// 이 인스턴스에 붙은 소켓에만 전달 - 다른 인스턴스가 세션 채널로 발행한 이벤트도 여기로 들어옴
+function deliverToLocalSockets<T extends ServerMessageType>(sessionId: string, target: RelayTarget, type: T, content: ServerMessageContentMap[T], excludeWs?: ExtendedWebSocket): void {
+  connections.forEach((ws, connectionKey) => {
+    if (ws.sessionId !== sessionId || ws === excludeWs) {
+      return;
+    }
+
+    switch (target.kind) {
+      case 'session':
+        if (ws.isSpectator) {
+          sendToSpectator(ws, type, content);
+        } else if (ws.choiceShuffleSeed && ws.playerId && !ws.isHost) {
+          sendMessage(ws, type, presentForPlayer(type, content, ws.choiceShuffleSeed, ws.playerId));
+        } else {
+          sendMessage(ws, type, content);
+        }
+        break;
+      case 'host':
+        if (ws.isHost) {
+          sendMessage(ws, type, content);
+        }
+        break;
+      case 'spectators':
+        if (ws.isSpectator) {
+          sendToSpectator(ws, type, content);
+        }
+        break;
+      case 'player':
+        if (!ws.isHost && !ws.isSpectator && ws.playerId === target.playerId) {
+          sendMessage(ws, type, content);
+          // 추방된 플레이어 소켓은 종료 - close 핸들러에서 오프라인 처리되지 않도록 바인딩 해제
+          if (type === 'kicked') {
+            connections.delete(connectionKey);
+            ws.playerId = undefined;
+            ws.close(KICKED_CLOSE_CODE, 'Removed by host');
+          }
+        }
+        break;
     }
   });
 }
 
+// 로컬 소켓에 전달하고 세션 채널에 발행 (다른 인스턴스에 붙은 소켓까지 전달)
+function relayToSession<T extends ServerMessageType>(sessionId: string, target: RelayTarget, type: T, content: ServerMessageContentMap[T], excludeWs?: ExtendedWebSocket): void {
+  deliverToLocalSockets(sessionId, target, type, content, excludeWs);
+  sessionRelay.publish(sessionId, target, type, content);
+}
+
+sessionRelay.setDeliveryHandler(event => deliverToLocalSockets(event.sessionId, event.target, event.type, event.content));
+
+// 세션 소켓 등록 - 이 인스턴스에 처음 붙는 세션이면 세션 채널 구독
+function bindConnection(connectionKey: string, ws: ExtendedWebSocket): void {
+  connections.set(connectionKey, ws);
+  if (ws.sessionId) {
+    sessionRelay.join(ws.sessionId);
+  }
+}
+
+// 이 인스턴스에 남은 세션 소켓이 없으면 세션 채널 구독 해제
+function releaseSessionIfIdle(sessionId: string): void {
+  for (const ws of connections.values()) {
+    if (ws.sessionId === sessionId) {
+      return;
+    }
+  }
+  sessionRelay.leave(sessionId);
+}
+
+// 세션의 모든 클라이언트에게 메시지 브로드캐스트 (관전자는 표시용 페이로드, 보기 섞기 세션의 플레이어는 자기 보기 순서)
+function broadcastToSession<T extends ServerMessageType>(sessionId: string, type: T, content: ServerMessageContentMap[T], excludeWs?: ExtendedWebSocket): void {
+  relayToSession(sessionId, { kind: 'session' }, type, content, excludeWs);
+}
+
+// 관전자에게만 메시지 전송 (호스트 전용 로비/진행 이벤트를 큰 화면에도 표시)
+function sendToSpectators<T extends ServerMessageType>(sessionId: string, type: T, content: ServerMessageContentMap[T]): void {
+  relayToSession(sessionId, { kind: 'spectators' }, type, content);
+}
+
 // 호스트에게만 메시지 전송
-function sendToHost(sessionId: string, type: string, content?: any): void {
-  connections.forEach((ws, connectionId) => {
-    if (ws.sessionId === sessionId && ws.isHost) {
-      sendMessage(ws, type, content);
+function sendToHost<T extends ServerMessageType>(sessionId: string, type: T, content: ServerMessageContentMap[T]): void {
+  relayToSession(sessionId, { kind: 'host' }, type, content);
+}
+
+// 특정 플레이어에게만 전송 (다른 인스턴스에 붙어 있어도 전달) - kicked면 소켓도 종료
+function sendToPlayer<T extends ServerMessageType>(sessionId: string, playerId: string, type: T, content: ServerMessageContentMap[T]): void {
+  relayToSession(sessionId, { kind: 'player', playerId }, type, content);
+}
+
+// 로비 잠금/해제 후 세션 전체에 상태 알림
+async function setLobbyLocked(ws: ExtendedWebSocket, locked: boolean): Promise<void> {
+  const host = requireHostSocket(ws, `Only host can ${locked ? 'lock' : 'unlock'} the lobby`);
+  if (!host) {
+    return;
+  }
+
+  try {
+    const status = await gameService.setLobbyLocked(host.sessionId, host.hostId, locked);
+    if (!status) {
+      throw new Error('Failed to update lobby lock');
+    }
+
+    broadcastToSession(host.sessionId, 'lobby_status', status);
+    console.log(`🔒 SERVER: Lobby of session ${host.sessionId} ${locked ? 'locked' : 'unlocked'}`);
+  } catch (error) {
+    console.error('❌ SERVER: Lobby lock error:', error);
+    if (error instanceof GameError) {
+      sendMessage(ws, 'error', { message: error.message, code: error.code, details: error.details });
+      return;
+    }
+    sendMessage(ws, 'error', { message: 'Failed to update lobby lock', code: 'LOBBY_LOCK_ERROR' });
+  }
+}
+
+// 호스트 소켓 확인 - 세션에 바인딩된 호스트만 제어 메시지 사용 가능
+function requireHostSocket(ws: ExtendedWebSocket, deniedMessage: string): { sessionId: string; hostId: string } | null {
+  if (!ws.isHost || !ws.sessionId || !ws.playerId) {
+    sendMessage(ws, 'error', { message: deniedMessage, code: 'FORBIDDEN' });
+    return null;
+  }
+  return { sessionId: ws.sessionId, hostId: ws.playerId };
+}
+
+// 플레이어 소켓 확인 - player_join/resume_session으로 바인딩된 소켓만 허용
+function requirePlayerSocket(ws: ExtendedWebSocket, deniedMessage: string): { sessionId: string; playerId: string } | null {
+  if (ws.isHost || !ws.sessionId || !ws.playerId) {
+    sendMessage(ws, 'error', { message: deniedMessage, code: 'FORBIDDEN' });
+    return null;
+  }
+  return { sessionId: ws.sessionId, playerId: ws.playerId };
+}
+
+// 리캡 요청자 확인 - resume 토큰이 있으면 토큰 기준, 없으면 소켓에 바인딩된 호스트/플레이어
+function getRecapRequester(ws: ExtendedWebSocket, resumeToken?: string): RecapRequester | null {
+  if (resumeToken) {
+    const payload = tokenService.verifyResumeToken(resumeToken);
+    return payload ? { kind: 'player', sessionId: payload.sessionId, playerId: payload.playerId } : null;
+  }
+  if (ws.isHost && ws.playerId) {
+    return { kind: 'host', hostId: ws.playerId };
+  }
+  if (ws.sessionId && ws.playerId) {
+    return { kind: 'player', sessionId: ws.sessionId, playerId: ws.playerId };
+  }
+  return null;
+}
+
+// 플레이어 연결 종료 시 오프라인으로 표시하고 호스트에게 알림
+async function markPlayerOffline(sessionId: string, playerId: string): Promise<void> {
+  if (connections.has(`${sessionId}-${playerId}`)) {
+    console.log(`🔁 SERVER: Player ${playerId} already re-bound to another connection, keeping online`);
+    return;
+  }
+
+  const player = await gameService.setPlayerOnline(sessionId, playerId, false);
+  if (player) {
+    const content = { playerId: player.id, playerName: player.name, reason: 'disconnected' as const };
+    sendToHost(sessionId, 'player_left', content);
+    sendToSpectators(sessionId, 'player_left', content);
+  }
+}
+
+function toQuestionStarted(activeQuestion: ActiveQuestion): QuestionStartedContent {
+  return {
+    question: activeQuestion.question,
+    questionIndex: activeQuestion.questionIndex,
+    timeLimit: activeQuestion.question.timeLimit,
+    startedAt: activeQuestion.startedAt,
+    deadline: activeQuestion.deadline,
+    reopened: activeQuestion.reopened
+  };
+}
+
+// repeat_question / goto_question 공통 - 문제를 열고 모든 참가자에게 전송
+async function openQuestionForSession(ws: ExtendedWebSocket, sessionId: string, open: () => Promise<ActiveQuestion | null>): Promise<void> {
+  try {
+    const activeQuestion = await open();
+    if (!activeQuestion) {
+      throw new Error('Failed to open question');
     }
+
+    broadcastToSession(sessionId, 'question_started', toQuestionStarted(activeQuestion));
+    scheduleQuestionClose(sessionId, activeQuestion.question.id, activeQuestion.questionIndex, activeQuestion.deadline);
+    console.log(`🔀 SERVER: Question ${activeQuestion.questionIndex} opened in session ${sessionId}${activeQuestion.reopened ? ' (reopened)' : ''}`);
+  } catch (error) {
+    console.error('❌ SERVER: Open question error:', error);
+    if (error instanceof GameError) {
+      sendMessage(ws, 'error', { message: error.message, code: error.code, details: error.details });
+      return;
+    }
+    sendMessage(ws, 'error', { message: 'Failed to open question', code: 'QUESTION_NAVIGATION_ERROR' });
+  }
+}
+
+// 문제 마감 타이머 등록 - 시간이 다 되면 모든 참가자에게 question_closed 전송
+function scheduleQuestionClose(sessionId: string, questionId: string, questionIndex: number, deadline: string): void {
+  questionTimer.start(sessionId, questionId, new Date(deadline).getTime(), (closedQuestionId) => {
+    broadcastToSession(sessionId, 'question_closed', {
+      questionId: closedQuestionId,
+      questionIndex
+    });
   });
 }
 
+type MessageHandler<T extends ClientMessageType> = (ws: ExtendedWebSocket, message: ClientMessage<T>) => Promise<void>;
+
 // WebSocket 메시지 핸들러들
-const messageHandlers: { [key: string]: (ws: ExtendedWebSocket, message: QuizWebSocketMessage) => Promise<void> } = {
+const messageHandlers: { [K in ClientMessageType]: MessageHandler<K> } = {
   // 호스트 관련
-  async host_join(ws: ExtendedWebSocket, message: QuizWebSocketMessage): Promise<void> {
-    const { hostId, quizId } = message.content;
+  async host_join(ws: ExtendedWebSocket, message: ClientMessage<'host_join'>): Promise<void> {
+    const { hostToken, quizId, settings } = message.content;
+
+    // 호스트 신원은 서버가 발급한 토큰으로만 확인
+    const tokenPayload = tokenService.verifyHostToken(hostToken);
+    if (!tokenPayload) {
+      console.warn(`⚠️ HOST_JOIN: Invalid or expired host token for quizId=${quizId}`);
+      sendMessage(ws, 'error', { message: 'Invalid or expired host token', code: 'UNAUTHORIZED' });
+      return;
+    }
+
+    const { hostId } = tokenPayload;
     console.log(`🎯 HOST_JOIN: Starting session creation for hostId=${hostId}, quizId=${quizId}`);
-    console.log(`🎯 HOST_JOIN: Message content:`, JSON.stringify(message.content, null, 2));
     
     try {
-      // 입력 검증
-      if (!hostId || !quizId) {
-        console.error(`❌ HOST_JOIN: Missing required parameters - hostId: ${hostId}, quizId: ${quizId}`);
-        throw new Error('Missing hostId or quizId');
-      }
-      
       console.log(`📞 HOST_JOIN: Calling gameService.createSession...`);
-      const session = await gameService.createSession(hostId, quizId);
+      const session = await gameService.createSession(hostId, quizId, settings);
       console.log(`📞 HOST_JOIN: gameService.createSession returned:`, session ? 'SUCCESS' : 'NULL');
       
       if (!session) {
@@ -101,7 +335,7 @@ const messageHandlers: { [key: string]: (ws: ExtendedWebSocket, message: QuizWeb
       ws.isHost = true;
       
       const connectionKey = `${session.id}-${hostId}`;
-      connections.set(connectionKey, ws);
+      bindConnection(connectionKey, ws);
       console.log(`🔗 HOST_JOIN: Connection stored with key: ${connectionKey}`);
       
       console.log(`📤 HOST_JOIN: Sending session_created message to client...`);
@@ -115,18 +349,13 @@ const messageHandlers: { [key: string]: (ws: ExtendedWebSocket, message: QuizWeb
       console.error(`❌ HOST_JOIN: Error message:`, error instanceof Error ? error.message : 'Unknown error');
       
       // 에러 타입에 따른 더 자세한 정보 제공
-      let errorMessage = 'Failed to create session';
-      let errorCode = 'SESSION_CREATE_ERROR';
-      
-      if (error instanceof Error) {
-        if (error.message.includes('Quiz') && error.message.includes('not found')) {
-          errorMessage = `Quiz ${quizId} not found`;
-          errorCode = 'QUIZ_NOT_FOUND';
-        } else if (error.message.includes('Missing')) {
-          errorMessage = 'Missing required parameters';
-          errorCode = 'MISSING_PARAMETERS';
-        }
+      if (error instanceof GameError) {
+        sendMessage(ws, 'error', { message: error.message, code: error.code, details: error.details });
+        return;
       }
+
+      const errorMessage = 'Failed to create session';
+      const errorCode = 'SESSION_CREATE_ERROR';
       
       sendMessage(ws, 'error', { 
         message: errorMessage, 
@@ -137,15 +366,15 @@ const messageHandlers: { [key: string]: (ws: ExtendedWebSocket, message: QuizWeb
   },
 
   // 플레이어 관련
-  async player_join(ws: ExtendedWebSocket, message: QuizWebSocketMessage): Promise<void> {
-    const { playerName } = message.content;
+  async player_join(ws: ExtendedWebSocket, message: ClientMessage<'player_join'>): Promise<void> {
+    const { playerName, teamId, deviceId } = message.content;
     const joinCode = message.sessionId!;
     
     console.log(`👤 SERVER: Player join attempt - Name: ${playerName}, Join Code: ${joinCode}`);
     
     try {
       console.log(`🔍 SERVER: Calling gameService.joinSession...`);
-      const result = await gameService.joinSession(joinCode, playerName);
+      const result = await gameService.joinSession(joinCode, playerName, { teamId, deviceId });
       console.log(`🔍 SERVER: gameService.joinSession result:`, result ? 'SUCCESS' : 'NULL');
       
       if (!result) {
@@ -153,7 +382,7 @@ const messageHandlers: { [key: string]: (ws: ExtendedWebSocket, message: QuizWeb
         throw new Error('Failed to join session');
       }
       
-      const { session, player } = result;
+      const { session, player, nameChanged } = result;
       console.log(`✅ SERVER: Player join successful:`, {
         playerId: player.id,
         playerName: player.name,
@@ -164,35 +393,38 @@ const messageHandlers: { [key: string]: (ws: ExtendedWebSocket, message: QuizWeb
       ws.sessionId = session.id;
       ws.playerId = player.id;
       ws.isHost = false;
+      ws.choiceShuffleSeed = getChoiceShuffleSeed(session);
       
       const connectionKey = `${session.id}-${player.id}`;
-      connections.set(connectionKey, ws);
+      bindConnection(connectionKey, ws);
       console.log(`🔗 SERVER: Player connection stored with key: ${connectionKey}`);
       
       console.log(`📤 SERVER: Sending player_joined_success to player...`);
-      // 플레이어에게 성공 응답
-      const responseData: any = { session, player };
+      // 플레이어에게 성공 응답 (재접속용 resume 토큰 포함)
+      const resumeToken = tokenService.issueResumeToken(session.id, player.id);
+      const responseData: PlayerJoinedSuccessContent = { session, player, resumeToken };
       
-      // 이름이 변경된 경우 알림 추가
-      if (player.name !== playerName) {
-        responseData.nameChanged = {
-          original: playerName,
-          final: player.name,
-          reason: "이름 중복으로 인한 자동 변경"
-        };
+      // 이름이 변경된 경우 알림 추가 (중복, 정규화, 서버 배정)
+      if (nameChanged) {
+        responseData.nameChanged = nameChanged;
       }
       
       sendMessage(ws, 'player_joined_success', responseData);
       
       console.log(`📤 SERVER: Notifying host about new player...`);
-      // 호스트에게 새 플레이어 알림
+      // 호스트와 관전 화면에 새 플레이어 알림
       sendToHost(session.id, 'player_joined', player);
+      sendToSpectators(session.id, 'player_joined', player);
       
       console.log(`🎯 SERVER: Player ${playerName} successfully joined session ${session.id}`);
       
     } catch (error) {
       console.error('❌ SERVER: Player join error:', error);
       console.error('❌ SERVER: Error stack:', error instanceof Error ? error.stack : 'No stack trace');
+      if (error instanceof GameError) {
+        sendMessage(ws, 'error', { message: error.message, code: error.code, details: error.details });
+        return;
+      }
       sendMessage(ws, 'error', { 
         message: 'Failed to join session', 
         code: 'SESSION_JOIN_ERROR',
@@ -201,36 +433,132 @@ const messageHandlers: { [key: string]: (ws: ExtendedWebSocket, message: QuizWeb
     }
   },
 
+  // 관전자(큰 화면/방송 오버레이) 입장 - 참가 코드로 세션에 붙어 표시용 이벤트만 받음
+  async spectator_join(ws: ExtendedWebSocket, message: ClientMessage<'spectator_join'>): Promise<void> {
+    const joinCode = message.sessionId!;
+    console.log(`📺 SERVER: Spectator join attempt - Join Code: ${joinCode}`);
+
+    try {
+      const session = await gameService.spectateSession(joinCode);
+
+      ws.sessionId = session.id;
+      ws.playerId = undefined;
+      ws.isHost = false;
+      ws.isSpectator = true;
+
+      const connectionKey = `${session.id}-spectator-${Math.random().toString(36).substring(2, 10)}`;
+      bindConnection(connectionKey, ws);
+      console.log(`🔗 SERVER: Spectator connection stored with key: ${connectionKey}`);
+
+      sendMessage(ws, 'spectator_joined', buildSpectatorSnapshot(session, gameService.getLobbyStatus(session)));
+    } catch (error) {
+      console.error('❌ SERVER: Spectator join error:', error);
+      if (error instanceof GameError) {
+        sendMessage(ws, 'error', { message: error.message, code: error.code, details: error.details });
+        return;
+      }
+      sendMessage(ws, 'error', { message: 'Failed to join as spectator', code: 'SPECTATOR_JOIN_ERROR' });
+    }
+  },
+
+  // 재접속 (resume 토큰으로 기존 플레이어에 소켓 재연결)
+  async resume_session(ws: ExtendedWebSocket, message: ClientMessage<'resume_session'>): Promise<void> {
+    const { resumeToken } = message.content;
+
+    console.log(`🔁 SERVER: Resume session attempt`);
+
+    const tokenPayload = tokenService.verifyResumeToken(resumeToken);
+    if (!tokenPayload) {
+      console.warn(`⚠️ SERVER: Invalid or expired resume token`);
+      sendMessage(ws, 'error', {
+        message: 'Invalid or expired resume token',
+        code: 'INVALID_RESUME_TOKEN'
+      });
+      return;
+    }
+
+    const { sessionId, playerId } = tokenPayload;
+
+    try {
+      const result = await gameService.resumeSession(sessionId, playerId);
+
+      if (!result) {
+        console.error(`❌ SERVER: Failed to resume session ${sessionId} for player ${playerId}`);
+        throw new Error('Failed to resume session');
+      }
+
+      const { session, player } = result;
+
+      ws.sessionId = session.id;
+      ws.playerId = player.id;
+      ws.isHost = false;
+      ws.choiceShuffleSeed = getChoiceShuffleSeed(session);
+
+      // 이전 소켓이 아직 남아 있으면 정리하고 새 소켓으로 교체
+      const connectionKey = `${session.id}-${player.id}`;
+      const previousWs = connections.get(connectionKey);
+      bindConnection(connectionKey, ws);
+      if (previousWs && previousWs !== ws) {
+        console.log(`🧹 SERVER: Closing stale connection for ${connectionKey}`);
+        previousWs.close(4000, 'Session resumed on another connection');
+      }
+      console.log(`🔗 SERVER: Player connection re-bound with key: ${connectionKey}`);
+
+      // 문제 도중 재접속하면 question_started와 같은 보기 순서로 현재 문제를 다시 보냄
+      const openQuestion = getOpenQuestion(session);
+      const currentQuestion = openQuestion && ws.choiceShuffleSeed
+        ? presentForPlayer('question_started', openQuestion, ws.choiceShuffleSeed, player.id)
+        : openQuestion;
+      sendMessage(ws, 'session_resumed', { session, player, currentQuestion });
+
+      // 호스트와 관전 화면에 플레이어 복귀 알림
+      sendToHost(session.id, 'player_online', player);
+      sendToSpectators(session.id, 'player_online', player);
+
+      console.log(`🎯 SERVER: Player ${player.name} resumed session ${session.id}`);
+
+    } catch (error) {
+      console.error('❌ SERVER: Resume session error:', error);
+      if (error instanceof GameError) {
+        sendMessage(ws, 'error', { message: error.message, code: error.code, details: error.details });
+        return;
+      }
+      sendMessage(ws, 'error', {
+        message: 'Failed to resume session',
+        code: 'SESSION_RESUME_ERROR',
+        details: error instanceof Error ? error.message : 'Unknown error'
+      });
+    }
+  },
+
   // 게임 시작
-  async start_game(ws: ExtendedWebSocket, message: QuizWebSocketMessage): Promise<void> {
-    if (!ws.isHost) {
-      sendMessage(ws, 'error', { message: 'Only host can start game', code: 'UNAUTHORIZED' });
+  async start_game(ws: ExtendedWebSocket, message: ClientMessage<'start_game'>): Promise<void> {
+    const host = requireHostSocket(ws, 'Only host can start game');
+    if (!host) {
       return;
     }
+    const { sessionId, hostId } = host;
 
     try {
-      const success = await gameService.startGame(message.sessionId!, message.playerId!);
+      const success = await gameService.startGame(sessionId, hostId);
       
       if (!success) {
         throw new Error('Failed to start game');
       }
       
       // Get first question
-      const question = await gameService.nextQuestion(message.sessionId!, message.playerId!);
-      if (!question) {
+      const activeQuestion = await gameService.nextQuestion(sessionId, hostId);
+      if (!activeQuestion) {
         throw new Error('No questions available');
       }
       
-      const gameData = {
-        question,
-        questionIndex: 1,
-        timeLimit: question.timeLimit
-      };
+      const gameData = toQuestionStarted(activeQuestion);
       
-      console.log(`🎮 Game started in session ${message.sessionId}`);
+      console.log(`🎮 Game started in session ${sessionId}`);
       
       // 모든 참가자에게 게임 시작 알림
-      broadcastToSession(message.sessionId!, 'game_started', gameData);
+      broadcastToSession(sessionId, 'game_started', gameData);
+      scheduleQuestionClose(sessionId, activeQuestion.question.id, activeQuestion.questionIndex, activeQuestion.deadline);
       
     } catch (error) {
       console.error('Start game error:', error);
@@ -242,42 +570,46 @@ const messageHandlers: { [key: string]: (ws: ExtendedWebSocket, message: QuizWeb
   },
 
   // 다음 문제
-  async next_question(ws: ExtendedWebSocket, message: QuizWebSocketMessage): Promise<void> {
-    if (!ws.isHost) {
-      sendMessage(ws, 'error', { message: 'Only host can proceed to next question', code: 'UNAUTHORIZED' });
+  async next_question(ws: ExtendedWebSocket, message: ClientMessage<'next_question'>): Promise<void> {
+    const host = requireHostSocket(ws, 'Only host can proceed to next question');
+    if (!host) {
       return;
     }
+    const { sessionId, hostId } = host;
 
     try {
-      const question = await gameService.nextQuestion(message.sessionId!, message.playerId!);
+      const activeQuestion = await gameService.nextQuestion(sessionId, hostId);
       
-      if (!question) {
+      if (!activeQuestion) {
         // Game finished - wait for finish game to complete before sending final leaderboard
-        console.log(`🏁 SERVER: Game finished for session ${message.sessionId}, getting final leaderboard...`);
+        console.log(`🏁 SERVER: Game finished for session ${sessionId}, getting final leaderboard...`);
+        questionTimer.clear(sessionId);
         
         // finishGame is already called in nextQuestion method, so just get the leaderboard
-        const leaderboard = await gameService.getLeaderboard(message.sessionId!);
+        const leaderboard = await gameService.getLeaderboard(sessionId);
+        const teamLeaderboard = await gameService.getTeamLeaderboard(sessionId);
         
         console.log(`📊 SERVER: Final leaderboard retrieved with ${leaderboard.length} entries`);
         console.log(`🎯 SERVER: Broadcasting game_ended event to all participants`);
         
-        broadcastToSession(message.sessionId!, 'game_ended', leaderboard);
+        broadcastToSession(sessionId, 'game_ended', { leaderboard, teamLeaderboard });
         return;
       }
       
-      const gameData = {
-        question,
-        questionIndex: question.id,
-        timeLimit: question.timeLimit
-      };
+      const gameData = toQuestionStarted(activeQuestion);
       
-      console.log(`❓ Next question in session ${message.sessionId}`);
+      console.log(`❓ Next question in session ${sessionId}`);
       
       // 모든 참가자에게 새 문제 전송
-      broadcastToSession(message.sessionId!, 'question_started', gameData);
+      broadcastToSession(sessionId, 'question_started', gameData);
+      scheduleQuestionClose(sessionId, activeQuestion.question.id, activeQuestion.questionIndex, activeQuestion.deadline);
       
     } catch (error) {
       console.error('Next question error:', error);
+      if (error instanceof GameError) {
+        sendMessage(ws, 'error', { message: error.message, code: error.code, details: error.details });
+        return;
+      }
       sendMessage(ws, 'error', { 
         message: 'Failed to load next question', 
         code: 'NEXT_QUESTION_ERROR' 
@@ -285,40 +617,100 @@ const messageHandlers: { [key: string]: (ws: ExtendedWebSocket, message: QuizWeb
     }
   },
 
+  // 현재 문제를 점수 없이 닫기
+  async skip_question(ws: ExtendedWebSocket, message: ClientMessage<'skip_question'>): Promise<void> {
+    const host = requireHostSocket(ws, 'Only host can skip questions');
+    if (!host) {
+      return;
+    }
+    const { sessionId, hostId } = host;
+
+    try {
+      const skipped = await gameService.skipQuestion(sessionId, hostId);
+      if (!skipped) {
+        throw new Error('Failed to skip question');
+      }
+
+      questionTimer.clear(sessionId);
+      const leaderboard = await gameService.getLeaderboard(sessionId);
+      broadcastToSession(sessionId, 'question_skipped', { ...skipped, leaderboard });
+      console.log(`⏭️ SERVER: Question ${skipped.questionIndex} skipped in session ${sessionId}`);
+    } catch (error) {
+      console.error('❌ SERVER: Skip question error:', error);
+      if (error instanceof GameError) {
+        sendMessage(ws, 'error', { message: error.message, code: error.code, details: error.details });
+        return;
+      }
+      sendMessage(ws, 'error', { message: 'Failed to skip question', code: 'SKIP_QUESTION_ERROR' });
+    }
+  },
+
+  // 현재 문제 다시 열기 (답변 초기화)
+  async repeat_question(ws: ExtendedWebSocket, message: ClientMessage<'repeat_question'>): Promise<void> {
+    const host = requireHostSocket(ws, 'Only host can repeat questions');
+    if (!host) {
+      return;
+    }
+    await openQuestionForSession(ws, host.sessionId, () => gameService.repeatQuestion(host.sessionId, host.hostId));
+  },
+
+  // 지정한 문제로 이동
+  async goto_question(ws: ExtendedWebSocket, message: ClientMessage<'goto_question'>): Promise<void> {
+    const host = requireHostSocket(ws, 'Only host can change questions');
+    if (!host) {
+      return;
+    }
+    const { questionIndex } = message.content;
+    await openQuestionForSession(ws, host.sessionId, () => gameService.gotoQuestion(host.sessionId, host.hostId, questionIndex));
+  },
+
   // 답안 제출
-  async submit_answer(ws: ExtendedWebSocket, message: QuizWebSocketMessage): Promise<void> {
-    const { questionId, selectedChoice, timeToAnswer } = message.content;
+  async submit_answer(ws: ExtendedWebSocket, message: ClientMessage<'submit_answer'>): Promise<void> {
+    // 세션/플레이어 ID는 클라이언트 값이 아니라 소켓에 바인딩된 값을 사용
+    const player = requirePlayerSocket(ws, 'Only joined players can submit answers');
+    if (!player) {
+      return;
+    }
+    const { sessionId, playerId } = player;
+
+    // 응답 시간은 서버에서 계산하므로 클라이언트가 보낸 timeToAnswer는 사용하지 않음
+    const { questionId } = message.content;
     
-    console.log(`📝 SERVER: Player ${message.playerId} submitting answer for question ${questionId}, choice: ${selectedChoice}`);
+    console.log(`📝 SERVER: Player ${playerId} submitting answer for question ${questionId}`);
     
     try {
-      const result = await gameService.submitAnswer(
-        message.sessionId!,
-        message.playerId!,
-        questionId,
-        selectedChoice,
-        timeToAnswer
-      );
+      const result = await gameService.submitAnswer(sessionId, playerId, message.content);
       
       if (!result) {
-        console.error(`❌ SERVER: Answer submission failed for player ${message.playerId}`);
+        console.error(`❌ SERVER: Answer submission failed for player ${playerId}`);
         throw new Error('Failed to submit answer');
       }
       
-      console.log(`✅ SERVER: Answer submitted successfully by ${message.playerId}:`, result);
+      console.log(`✅ SERVER: Answer submitted successfully by ${playerId}:`, result);
       
       // 플레이어에게 제출 결과 전송
       sendMessage(ws, 'answer_submitted', result);
+
+      // 재전송된 제출이면 처음 결과만 다시 보내고 답변 알림은 생략
+      if (result.duplicate) {
+        return;
+      }
       
-      // 호스트에게 플레이어가 답변했음을 알림
-      sendToHost(message.sessionId!, 'player_answered', {
-        playerId: message.playerId,
-        playerName: 'Player', // 실제로는 플레이어 이름을 가져와야 함
+      // 호스트에게 플레이어가 답변했음을 알림 (큰 화면에는 답변 수 표시용)
+      const answeredContent = {
+        playerId: playerId,
+        playerName: result.playerName,
         hasAnswered: true
-      });
+      };
+      sendToHost(sessionId, 'player_answered', answeredContent);
+      sendToSpectators(sessionId, 'player_answered', answeredContent);
       
     } catch (error) {
       console.error('❌ SERVER: Submit answer error:', error);
+      if (error instanceof GameError) {
+        sendMessage(ws, 'error', { message: error.message, code: error.code, details: error.details });
+        return;
+      }
       sendMessage(ws, 'error', { 
         message: 'Failed to submit answer', 
         code: 'SUBMIT_ANSWER_ERROR',
@@ -327,66 +719,207 @@ const messageHandlers: { [key: string]: (ws: ExtendedWebSocket, message: QuizWeb
     }
   },
 
+  // 플레이어 추방 (ban이면 재참가 차단)
+  async kick_player(ws: ExtendedWebSocket, message: ClientMessage<'kick_player'>): Promise<void> {
+    const host = requireHostSocket(ws, 'Only host can kick players');
+    if (!host) {
+      return;
+    }
+    const { sessionId, hostId } = host;
+    const { playerId, ban = false, reason } = message.content;
+
+    try {
+      const player = await gameService.kickPlayer(sessionId, hostId, playerId, ban);
+      if (!player) {
+        throw new Error('Failed to kick player');
+      }
+
+      // 추방된 플레이어 소켓에 알리고 종료 (어느 인스턴스에 붙어 있든)
+      sendToPlayer(sessionId, playerId, 'kicked', { reason: reason || 'Removed by host', banned: ban });
+
+      broadcastToSession(sessionId, 'player_left', {
+        playerId: player.id,
+        playerName: player.name,
+        reason: 'kicked'
+      });
+
+      console.log(`👢 SERVER: Player ${player.name} ${ban ? 'banned' : 'kicked'} from session ${sessionId}`);
+    } catch (error) {
+      console.error('❌ SERVER: Kick player error:', error);
+      if (error instanceof GameError) {
+        sendMessage(ws, 'error', { message: error.message, code: error.code, details: error.details });
+        return;
+      }
+      sendMessage(ws, 'error', { message: 'Failed to kick player', code: 'KICK_PLAYER_ERROR' });
+    }
+  },
+
+  // 일시정지 - 문제 타이머를 멈추고 답변을 막음
+  async pause_game(ws: ExtendedWebSocket, message: ClientMessage<'pause_game'>): Promise<void> {
+    const host = requireHostSocket(ws, 'Only host can pause the game');
+    if (!host) {
+      return;
+    }
+    const { sessionId, hostId } = host;
+
+    try {
+      const paused = await gameService.pauseGame(sessionId, hostId);
+      if (!paused) {
+        throw new Error('Failed to pause game');
+      }
+
+      questionTimer.clear(sessionId);
+      broadcastToSession(sessionId, 'game_paused', paused);
+      console.log(`⏸️ SERVER: Session ${sessionId} paused (${paused.remainingMs}ms remaining)`);
+    } catch (error) {
+      console.error('❌ SERVER: Pause game error:', error);
+      if (error instanceof GameError) {
+        sendMessage(ws, 'error', { message: error.message, code: error.code, details: error.details });
+        return;
+      }
+      sendMessage(ws, 'error', { message: 'Failed to pause game', code: 'PAUSE_GAME_ERROR' });
+    }
+  },
+
+  // 재개 - 남은 시간으로 문제 타이머 재시작
+  async resume_game(ws: ExtendedWebSocket, message: ClientMessage<'resume_game'>): Promise<void> {
+    const host = requireHostSocket(ws, 'Only host can resume the game');
+    if (!host) {
+      return;
+    }
+    const { sessionId, hostId } = host;
+
+    try {
+      const resumed = await gameService.resumeGame(sessionId, hostId);
+      if (!resumed) {
+        throw new Error('Failed to resume game');
+      }
+
+      if (resumed.questionId && resumed.deadline) {
+        scheduleQuestionClose(sessionId, resumed.questionId, resumed.questionIndex, resumed.deadline);
+      }
+      broadcastToSession(sessionId, 'game_resumed', resumed);
+      console.log(`▶️ SERVER: Session ${sessionId} resumed (${resumed.remainingMs}ms remaining)`);
+    } catch (error) {
+      console.error('❌ SERVER: Resume game error:', error);
+      if (error instanceof GameError) {
+        sendMessage(ws, 'error', { message: error.message, code: error.code, details: error.details });
+        return;
+      }
+      sendMessage(ws, 'error', { message: 'Failed to resume game', code: 'RESUME_GAME_ERROR' });
+    }
+  },
+
+  // 현재 문제 시간 연장
+  async extend_time(ws: ExtendedWebSocket, message: ClientMessage<'extend_time'>): Promise<void> {
+    const host = requireHostSocket(ws, 'Only host can extend the time');
+    if (!host) {
+      return;
+    }
+    const { sessionId, hostId } = host;
+
+    try {
+      const extended = await gameService.extendTime(sessionId, hostId, message.content.seconds);
+      if (!extended) {
+        throw new Error('Failed to extend time');
+      }
+
+      // 일시정지 중이면 재개할 때 타이머가 다시 잡힘
+      if (extended.questionId && extended.deadline) {
+        scheduleQuestionClose(sessionId, extended.questionId, extended.questionIndex, extended.deadline);
+      }
+      broadcastToSession(sessionId, 'time_extended', extended);
+      console.log(`⏩ SERVER: Question time extended by ${extended.addedSeconds}s in session ${sessionId}`);
+    } catch (error) {
+      console.error('❌ SERVER: Extend time error:', error);
+      if (error instanceof GameError) {
+        sendMessage(ws, 'error', { message: error.message, code: error.code, details: error.details });
+        return;
+      }
+      sendMessage(ws, 'error', { message: 'Failed to extend time', code: 'EXTEND_TIME_ERROR' });
+    }
+  },
+
+  // 로비 잠금 - 늦은 참가 차단
+  async lock_lobby(ws: ExtendedWebSocket): Promise<void> {
+    await setLobbyLocked(ws, true);
+  },
+
+  async unlock_lobby(ws: ExtendedWebSocket): Promise<void> {
+    await setLobbyLocked(ws, false);
+  },
+
   // 정답 공개
-  async reveal_answer(ws: ExtendedWebSocket, message: QuizWebSocketMessage): Promise<void> {
-    if (!ws.isHost) {
-      sendMessage(ws, 'error', { message: 'Only host can reveal answers', code: 'UNAUTHORIZED' });
+  async reveal_answer(ws: ExtendedWebSocket, message: ClientMessage<'reveal_answer'>): Promise<void> {
+    const host = requireHostSocket(ws, 'Only host can reveal answers');
+    if (!host) {
       return;
     }
+    const { sessionId, hostId } = host;
 
     try {
-      console.log(`💡 SERVER: Revealing answer for session ${message.sessionId}`);
+      console.log(`💡 SERVER: Revealing answer for session ${sessionId}`);
       
       // 현재 세션 정보 가져오기
-      const session = await gameService.getSession(message.sessionId!);
+      const session = await gameService.getSession(sessionId);
       if (!session) {
         throw new Error('Session not found');
       }
+
+      // 일시정지 중에는 문제가 다시 열릴 수 있으므로 정답 공개 불가
+      if (session.status === 'paused') {
+        sendMessage(ws, 'error', { message: 'Resume the game before revealing the answer', code: 'GAME_PAUSED' });
+        return;
+      }
       
-      // 현재 문제 정보 가져오기 (이전 문제의 인덱스)
-      const currentQuestionIndex = Math.max(0, (session.currentQuestionIndex || 1) - 1);
-      const currentQuestion = session.quiz?.questions[currentQuestionIndex];
+      // 현재 화면에 나온 문제
+      const currentQuestion = getCurrentQuestion(session)?.question;
       
       if (!currentQuestion) {
         throw new Error('Current question not found');
       }
+
+      if (isQuestionSkipped(session, currentQuestion.id)) {
+        sendMessage(ws, 'error', { message: 'Skipped questions have no answer to reveal', code: 'QUESTION_SKIPPED' });
+        return;
+      }
       
       console.log(`💡 SERVER: Revealing answer for question: ${currentQuestion.id} - "${currentQuestion.text}"`);
-      console.log(`💡 SERVER: Correct answer: ${currentQuestion.correctAnswer} (${currentQuestion.choices[currentQuestion.correctAnswer]})`);
+      console.log(`💡 SERVER: Correct answer: ${describeCorrectAnswer(currentQuestion)}`);
       
       // 모든 플레이어의 답변 통계 계산
-      const players = await gameService.getSessionPlayers(message.sessionId!);
-      const questionAnswers = players.map((player: any) => 
-        player.answers.find((answer: any) => answer.questionId === currentQuestion.id)
-      ).filter((answer: any) => answer !== undefined);
-      
-      const correctAnswers = questionAnswers.filter((answer: any) => answer!.isCorrect);
-      const answerStats = currentQuestion.choices.map((choice: string, index: number) => ({
-        choiceIndex: index,
-        choiceText: choice,
-        count: questionAnswers.filter((answer: any) => answer!.selectedChoice === index).length,
-        isCorrect: index === currentQuestion.correctAnswer
-      }));
-      
-      console.log(`📊 SERVER: Answer statistics:`, answerStats);
+      const players = await gameService.getSessionPlayers(sessionId);
+      const questionAnswers = players
+        .map(player => player.answers.find(answer => answer.questionId === currentQuestion.id))
+        .filter((answer): answer is NonNullable<typeof answer> => answer !== undefined);
+      
+      const correctAnswers = questionAnswers.filter(answer => answer.isCorrect);
+      const revealStats = buildRevealStats(currentQuestion, questionAnswers);
+      
+      console.log(`📊 SERVER: Answer statistics:`, revealStats);
       console.log(`✅ SERVER: ${correctAnswers.length}/${questionAnswers.length} players answered correctly`);
       
-      const leaderboard = await gameService.getLeaderboard(message.sessionId!);
+      const leaderboard = await gameService.getLeaderboard(sessionId);
+      const teamLeaderboard = await gameService.getTeamLeaderboard(sessionId);
+      const brokenStreaks = findBrokenStreaks(players, getAskedQuestionIds(session));
       
-      const result = {
+      const result: AnswerRevealedContent = {
         question: currentQuestion,
-        correctAnswer: currentQuestion.correctAnswer,
-        correctAnswerText: currentQuestion.choices[currentQuestion.correctAnswer],
-        answerStats,
+        questionType: getQuestionType(currentQuestion),
+        correctAnswer: getCorrectAnswer(currentQuestion),
+        correctAnswerText: describeCorrectAnswer(currentQuestion),
+        ...revealStats,
         correctCount: correctAnswers.length,
         totalAnswers: questionAnswers.length,
-        leaderboard
+        brokenStreaks,
+        leaderboard,
+        teamLeaderboard
       };
       
-      console.log(`💡 SERVER: Answer revealed in session ${message.sessionId}`);
+      console.log(`💡 SERVER: Answer revealed in session ${sessionId}`);
       
       // 모든 참가자에게 정답과 통계 전송
-      broadcastToSession(message.sessionId!, 'answer_revealed', result);
+      broadcastToSession(sessionId, 'answer_revealed', result);
       
     } catch (error) {
       console.error('❌ SERVER: Reveal answer error:', error);
@@ -399,13 +932,14 @@ const messageHandlers: { [key: string]: (ws: ExtendedWebSocket, message: QuizWeb
   },
 
   // 세션 결과 조회
-  async get_session_results(ws: ExtendedWebSocket, message: QuizWebSocketMessage): Promise<void> {
+  async get_session_results(ws: ExtendedWebSocket, message: ClientMessage<'get_session_results'>): Promise<void> {
     const { sessionId } = message.content;
     
     console.log(`📊 SERVER: Getting session results for ${sessionId}`);
     
     try {
-      const results = await gameService.getSessionResults(sessionId);
+      // 인증 없이도 순위는 볼 수 있고, 답변 내역은 호스트와 플레이어 본인에게만
+      const results = await gameService.getSessionResults(sessionId, getRecapRequester(ws));
       
       if (!results) {
         console.error(`❌ SERVER: No session results found for ${sessionId}`);
@@ -429,71 +963,113 @@ const messageHandlers: { [key: string]: (ws: ExtendedWebSocket, message: QuizWeb
   },
 
   // Ping-Pong
-  async ping(ws: ExtendedWebSocket, message: QuizWebSocketMessage): Promise<void> {
-    sendMessage(ws, 'pong');
+  async ping(ws: ExtendedWebSocket, message: ClientMessage<'ping'>): Promise<void> {
+    sendMessage(ws, 'pong', undefined);
   },
 
   // 공개 게임 결과 목록 조회
-  async get_public_game_results(ws: ExtendedWebSocket, message: QuizWebSocketMessage): Promise<void> {
+  async get_public_game_results(ws: ExtendedWebSocket, message: ClientMessage<'get_public_game_results'>): Promise<void> {
     const { quizTitle, limit } = message.content;
     
     console.log(`🌐 SERVER: Getting public game results`);
     
     try {
-      const gameResults = await dynamoService.getPublicGameResults(quizTitle, limit || 20);
-      sendMessage(ws, 'public_game_results', gameResults);
+      const gameResults = await storage.getPublicGameResults(quizTitle, limit || 20);
+      sendMessage(ws, 'public_game_results', gameResults.map(toPublicGameResult));
     } catch (error) {
       console.error('Error getting public game results:', error);
-      sendMessage(ws, 'error', { message: 'Failed to get public game results' });
+      sendMessage(ws, 'error', { message: 'Failed to get public game results', code: 'GET_PUBLIC_GAME_RESULTS_ERROR' });
     }
   },
 
   // 특정 게임 결과 조회
-  async get_game_result(ws: ExtendedWebSocket, message: QuizWebSocketMessage): Promise<void> {
+  async get_game_result(ws: ExtendedWebSocket, message: ClientMessage<'get_game_result'>): Promise<void> {
     const { sessionId } = message.content;
     
     console.log(`🎯 SERVER: Getting game result for session ${sessionId}`);
     
     try {
-      const gameResult = await dynamoService.getGameResult(sessionId);
+      const gameResult = await storage.getGameResult(sessionId);
       if (gameResult) {
-        sendMessage(ws, 'game_result', gameResult);
+        sendMessage(ws, 'game_result', toPublicGameResult(gameResult));
       } else {
-        sendMessage(ws, 'error', { message: 'Game result not found' });
+        sendMessage(ws, 'error', { message: 'Game result not found', code: 'GAME_RESULT_NOT_FOUND' });
       }
     } catch (error) {
       console.error('Error getting game result:', error);
-      sendMessage(ws, 'error', { message: 'Failed to get game result' });
+      sendMessage(ws, 'error', { message: 'Failed to get game result', code: 'GET_GAME_RESULT_ERROR' });
+    }
+  },
+
+  // 플레이어 리캡 조회 - 플레이어는 본인 것, 호스트는 세션 참가자 누구나
+  async get_player_recap(ws: ExtendedWebSocket, message: ClientMessage<'get_player_recap'>): Promise<void> {
+    const { resumeToken } = message.content;
+    const requester = getRecapRequester(ws, resumeToken);
+    if (!requester) {
+      sendMessage(ws, 'error', { message: 'Join a session or provide a valid resume token to view a recap', code: 'UNAUTHORIZED' });
+      return;
+    }
+
+    // 생략된 sessionId/playerId는 요청자 기준으로 채움
+    const sessionId = message.content.sessionId ?? (requester.kind === 'player' ? requester.sessionId : ws.sessionId);
+    const playerId = message.content.playerId ?? (requester.kind === 'player' ? requester.playerId : undefined);
+    if (!sessionId || !playerId) {
+      sendMessage(ws, 'error', {
+        message: 'sessionId and playerId are required',
+        code: 'VALIDATION_ERROR',
+        details: [{ field: 'content.playerId', message: 'is required' }]
+      });
+      return;
+    }
+
+    console.log(`🧾 SERVER: Getting player recap for ${playerId} in session ${sessionId}`);
+
+    try {
+      const recap = await gameService.getPlayerRecap(sessionId, playerId, requester);
+      if (!recap) {
+        throw new Error('Failed to build recap');
+      }
+      sendMessage(ws, 'player_recap', recap);
+    } catch (error) {
+      console.error('❌ SERVER: Get player recap error:', error);
+      if (error instanceof GameError) {
+        sendMessage(ws, 'error', { message: error.message, code: error.code, details: error.details });
+        return;
+      }
+      sendMessage(ws, 'error', { message: 'Failed to get player recap', code: 'GET_PLAYER_RECAP_ERROR' });
     }
   },
 
   // 게임 수동 종료
-  async finish_game(ws: ExtendedWebSocket, message: QuizWebSocketMessage): Promise<void> {
-    if (!ws.isHost) {
-      sendMessage(ws, 'error', { message: 'Only host can finish the game', code: 'UNAUTHORIZED' });
+  async finish_game(ws: ExtendedWebSocket, message: ClientMessage<'finish_game'>): Promise<void> {
+    const host = requireHostSocket(ws, 'Only host can finish the game');
+    if (!host) {
       return;
     }
+    const { sessionId, hostId } = host;
 
     try {
-      console.log(`🏁 SERVER: Manual game finish requested for session ${message.sessionId} by host ${message.playerId}`);
+      console.log(`🏁 SERVER: Manual game finish requested for session ${sessionId} by host ${hostId}`);
       
       // 게임 종료 처리
-      const success = await gameService.finishGame(message.sessionId!);
+      questionTimer.clear(sessionId);
+      const success = await gameService.finishGame(sessionId);
       
       if (success) {
-        console.log(`✅ SERVER: Game finished successfully for session ${message.sessionId}`);
+        console.log(`✅ SERVER: Game finished successfully for session ${sessionId}`);
         
         // 최종 리더보드 가져오기
-        const leaderboard = await gameService.getLeaderboard(message.sessionId!);
+        const leaderboard = await gameService.getLeaderboard(sessionId);
+        const teamLeaderboard = await gameService.getTeamLeaderboard(sessionId);
         
         console.log(`📊 SERVER: Broadcasting game_ended event with ${leaderboard.length} players`);
         
         // 모든 참가자에게 게임 종료 알림
-        broadcastToSession(message.sessionId!, 'game_ended', leaderboard);
+        broadcastToSession(sessionId, 'game_ended', { leaderboard, teamLeaderboard });
         
-        console.log(`🎯 SERVER: Manual game finish completed for session ${message.sessionId}`);
+        console.log(`🎯 SERVER: Manual game finish completed for session ${sessionId}`);
       } else {
-        console.error(`❌ SERVER: Failed to finish game for session ${message.sessionId}`);
+        console.error(`❌ SERVER: Failed to finish game for session ${sessionId}`);
         sendMessage(ws, 'error', { message: 'Failed to finish game', code: 'FINISH_GAME_ERROR' });
       }
     } catch (error) {
@@ -513,36 +1089,67 @@ wss.on('connection', (ws: WebSocket) => {
   
   // 메시지 수신 처리
   extendedWs.on('message', async (data: Buffer) => {
+    console.log(`📨 SERVER: Received message from ${connectionId}:`, data.toString());
+
+    let rawMessage: unknown;
     try {
-      console.log(`📨 SERVER: Received message from ${connectionId}:`, data.toString());
-      const message: QuizWebSocketMessage = JSON.parse(data.toString());
-      console.log(`📨 SERVER: Parsed message type: ${message.type}`, {
-        type: message.type,
-        hasContent: !!message.content,
-        contentKeys: message.content ? Object.keys(message.content) : 'none',
-        sessionId: message.sessionId,
-        playerId: message.playerId
-      });
-      
-      // 메시지 타입에 따라 적절한 핸들러 호출
-      if (messageHandlers[message.type]) {
-        console.log(`🎯 SERVER: Calling handler for message type: ${message.type}`);
-        await messageHandlers[message.type](extendedWs, message);
-      } else {
-        console.warn(`⚠️ SERVER: Unknown message type: ${message.type}`);
-        sendMessage(extendedWs, 'error', { 
-          message: `Unknown message type: ${message.type}`, 
-          code: 'UNKNOWN_MESSAGE_TYPE' 
-        });
-      }
+      rawMessage = JSON.parse(data.toString());
     } catch (error) {
-      console.error(`❌ SERVER: Error processing message from ${connectionId}:`, error);
-      console.error(`❌ SERVER: Raw message data:`, data.toString());
+      console.error(`❌ SERVER: Failed to parse message from ${connectionId}:`, error);
       sendMessage(extendedWs, 'error', { 
         message: 'Invalid message format', 
         code: 'INVALID_MESSAGE_FORMAT',
         details: error instanceof Error ? error.message : 'Unknown error'
       });
+      return;
+    }
+
+    // 스키마 검증 - 통과한 메시지만 핸들러로 전달
+    const validation = validateClientMessage(rawMessage);
+    if (!validation.ok) {
+      console.warn(`⚠️ SERVER: Rejected message from ${connectionId} (${validation.code}):`, validation.errors);
+      const errorMessage = validation.code === 'UNKNOWN_MESSAGE_TYPE'
+        ? `Unknown message type: ${validation.type}`
+        : validation.code === 'VALIDATION_ERROR'
+          ? `Invalid ${validation.type} message`
+          : 'Invalid message format';
+      sendMessage(extendedWs, 'error', {
+        message: errorMessage,
+        code: validation.code,
+        details: validation.errors
+      });
+      return;
+    }
+
+    const message = validation.message;
+    console.log(`📨 SERVER: Parsed message type: ${message.type}`, {
+      type: message.type,
+      contentKeys: Object.keys(message.content),
+      sessionId: message.sessionId,
+      playerId: message.playerId
+    });
+
+    // 관전자 소켓은 조회 메시지만 사용 가능 (답변/참가/진행 제어 불가)
+    if (extendedWs.isSpectator && !SPECTATOR_MESSAGE_TYPES.includes(message.type)) {
+      sendMessage(extendedWs, 'error', {
+        message: `Spectators cannot send ${message.type}`,
+        code: 'FORBIDDEN'
+      });
+      return;
+    }
+
+    try {
+      // 메시지 타입에 따라 적절한 핸들러 호출
+      console.log(`🎯 SERVER: Calling handler for message type: ${message.type}`);
+      const handler = messageHandlers[message.type] as MessageHandler<ClientMessageType>;
+      await handler(extendedWs, message);
+    } catch (error) {
+      console.error(`❌ SERVER: Error processing ${message.type} message from ${connectionId}:`, error);
+      sendMessage(extendedWs, 'error', { 
+        message: 'Internal server error', 
+        code: 'INTERNAL_ERROR',
+        details: error instanceof Error ? error.message : 'Unknown error'
+      });
     }
   });
   
@@ -560,7 +1167,13 @@ wss.on('connection', (ws: WebSocket) => {
     
     // DynamoDB에서 소켓 정보 정리
     if (extendedWs.sessionId) {
-      dynamoService.removeSocket(extendedWs.sessionId, connectionId);
+      storage.removeSocket(extendedWs.sessionId, connectionId);
+      releaseSessionIfIdle(extendedWs.sessionId);
+    }
+
+    // 플레이어가 다른 소켓으로 이미 재접속한 경우가 아니면 오프라인 처리
+    if (extendedWs.sessionId && extendedWs.playerId && !extendedWs.isHost) {
+      markPlayerOffline(extendedWs.sessionId, extendedWs.playerId);
     }
   });
   
@@ -575,6 +1188,40 @@ wss.on('connection', (ws: WebSocket) => {
   });
 });
 
+// Heartbeat sweep - 이전 ping에 응답하지 않은 소켓은 끊고 나머지에 다시 ping
+const heartbeatInterval = setInterval(() => {
+  wss.clients.forEach((ws: WebSocket) => {
+    const extendedWs = ws as ExtendedWebSocket;
+
+    if (extendedWs.isAlive === false) {
+      console.log(`💀 SERVER: Terminating unresponsive connection (session: ${extendedWs.sessionId}, player: ${extendedWs.playerId})`);
+      extendedWs.terminate();
+      return;
+    }
+
+    extendedWs.isAlive = false;
+    extendedWs.ping();
+  });
+}, HEARTBEAT_INTERVAL_MS);
+
+wss.on('close', () => {
+  clearInterval(heartbeatInterval);
+});
+
+// 종료 시 세션 캐시의 미기록 변경을 저장소에 기록
+async function shutdown(signal: string): Promise<void> {
+  console.log(`🛑 SERVER: Received ${signal}, flushing pending writes...`);
+  try {
+    await storage.flush?.();
+  } catch (error) {
+    console.error('❌ SERVER: Failed to flush storage on shutdown:', error);
+  }
+  process.exit(0);
+}
+
+process.once('SIGTERM', () => shutdown('SIGTERM'));
+process.once('SIGINT', () => shutdown('SIGINT'));
+
 server.listen(PORT, () => {
   console.log(`🚀 SERVER: Server is running on port ${PORT}`);
 });
\ No newline at end of file
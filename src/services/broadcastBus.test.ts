@@ -0,0 +1,112 @@
+import { afterAll, beforeAll, describe, expect, it, jest } from '@jest/globals';
+import Redis from 'ioredis';
+import { InProcessBroadcastBus, RedisBroadcastBus } from './broadcastBus';
+
+// Redis 서버 없이 연결 객체만 흉내 - 만들어진 연결을 순서대로 보관 (발행용, 구독용)
+jest.mock('ioredis', () => {
+  const { EventEmitter } = require('events');
+  class MockRedis extends EventEmitter {
+    static instances: MockRedis[] = [];
+    subscribe = jest.fn(async () => 1);
+    unsubscribe = jest.fn(async () => 1);
+    publish = jest.fn(async () => 1);
+    quit = jest.fn(async () => 'OK');
+
+    constructor() {
+      super();
+      MockRedis.instances.push(this);
+    }
+  }
+  return { __esModule: true, default: MockRedis };
+});
+
+const mockInstances = (Redis as any).instances as any[];
+
+describe('InProcessBroadcastBus', () => {
+  it('delivers published payloads to the channel subscriber only', async () => {
+    const bus = new InProcessBroadcastBus();
+    const first = jest.fn();
+    const other = jest.fn();
+    await bus.subscribe('a', first);
+    await bus.subscribe('b', other);
+
+    await bus.publish('a', 'hello');
+    expect(first).toHaveBeenCalledWith('hello');
+    expect(other).not.toHaveBeenCalled();
+  });
+
+  it('replaces the handler on resubscribe and stops after unsubscribe', async () => {
+    const bus = new InProcessBroadcastBus();
+    const first = jest.fn();
+    const second = jest.fn();
+    await bus.subscribe('a', first);
+    await bus.subscribe('a', second);
+
+    await bus.publish('a', 'one');
+    await bus.unsubscribe('a');
+    await bus.publish('a', 'two');
+
+    expect(first).not.toHaveBeenCalled();
+    expect(second).toHaveBeenCalledTimes(1);
+  });
+});
+
+describe('RedisBroadcastBus', () => {
+  beforeAll(() => {
+    jest.spyOn(console, 'log').mockImplementation(() => {});
+  });
+
+  afterAll(() => {
+    jest.restoreAllMocks();
+  });
+
+  function createBus() {
+    const bus = new RedisBroadcastBus('redis://127.0.0.1:6379');
+    const [publisher, subscriber] = mockInstances.slice(-2);
+    return { bus, publisher, subscriber };
+  }
+
+  it('publishes on the publisher connection and routes messages by channel', async () => {
+    const { bus, publisher, subscriber } = createBus();
+    const handler = jest.fn();
+    await bus.subscribe('a', handler);
+    await bus.subscribe('a', handler);
+    expect(subscriber.subscribe).toHaveBeenCalledTimes(1);
+
+    await bus.publish('a', 'payload');
+    expect(publisher.publish).toHaveBeenCalledWith('a', 'payload');
+
+    subscriber.emit('message', 'a', 'from-redis');
+    subscriber.emit('message', 'b', 'ignored');
+    expect(handler).toHaveBeenCalledTimes(1);
+    expect(handler).toHaveBeenCalledWith('from-redis');
+  });
+
+  it('drops the handler when subscribing fails so the channel can be subscribed again', async () => {
+    const { bus, subscriber } = createBus();
+    subscriber.subscribe.mockRejectedValueOnce(new Error('connection lost'));
+
+    await expect(bus.subscribe('a', jest.fn())).rejects.toThrow('connection lost');
+    subscriber.emit('message', 'a', 'lost');
+
+    const handler = jest.fn();
+    await bus.subscribe('a', handler);
+    expect(subscriber.subscribe).toHaveBeenCalledTimes(2);
+    subscriber.emit('message', 'a', 'delivered');
+    expect(handler).toHaveBeenCalledWith('delivered');
+  });
+
+  it('unsubscribes only channels it subscribed and closes both connections', async () => {
+    const { bus, publisher, subscriber } = createBus();
+    await bus.unsubscribe('never');
+    expect(subscriber.unsubscribe).not.toHaveBeenCalled();
+
+    await bus.subscribe('a', jest.fn());
+    await bus.unsubscribe('a');
+    expect(subscriber.unsubscribe).toHaveBeenCalledWith('a');
+
+    await bus.close();
+    expect(publisher.quit).toHaveBeenCalled();
+    expect(subscriber.quit).toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,122 @@
+import { EventEmitter } from 'events';
+import Redis from 'ioredis';
+
+// 인스턴스 간 브로드캐스트 버스 - 서버를 여러 대 띄워도 세션 이벤트가 모든 인스턴스의 소켓에 전달되도록
+// BROADCAST_BACKEND로 선택 (memory: 한 프로세스 안에서만, redis: REDIS_URL의 pub/sub 채널)
+export interface BroadcastBus {
+  readonly name: string;
+  publish(channel: string, payload: string): Promise<void>;
+  subscribe(channel: string, handler: (payload: string) => void): Promise<void>;
+  unsubscribe(channel: string): Promise<void>;
+  close(): Promise<void>;
+}
+
+// 같은 프로세스 안에서만 전달 - 단일 인스턴스 배포용 (기본값)
+export class InProcessBroadcastBus implements BroadcastBus {
+  readonly name = 'memory';
+  private emitter = new EventEmitter();
+  private handlers = new Map<string, (payload: string) => void>();
+
+  constructor() {
+    this.emitter.setMaxListeners(0);
+  }
+
+  async publish(channel: string, payload: string): Promise<void> {
+    this.emitter.emit(channel, payload);
+  }
+
+  async subscribe(channel: string, handler: (payload: string) => void): Promise<void> {
+    await this.unsubscribe(channel);
+    this.handlers.set(channel, handler);
+    this.emitter.on(channel, handler);
+  }
+
+  async unsubscribe(channel: string): Promise<void> {
+    const handler = this.handlers.get(channel);
+    if (handler) {
+      this.emitter.off(channel, handler);
+      this.handlers.delete(channel);
+    }
+  }
+
+  async close(): Promise<void> {
+    this.emitter.removeAllListeners();
+    this.handlers.clear();
+  }
+}
+
+// Redis pub/sub - 구독 모드 연결은 다른 명령을 못 쓰므로 발행용/구독용 연결을 따로 둠
+// 재연결과 재연결 후 구독 복구는 ioredis가 처리
+export class RedisBroadcastBus implements BroadcastBus {
+  readonly name = 'redis';
+  private handlers = new Map<string, (payload: string) => void>();
+  private publisher: Redis;
+  private subscriber: Redis;
+
+  constructor(url: string) {
+    this.publisher = this.connect(url, 'publisher');
+    this.subscriber = this.connect(url, 'subscriber');
+    this.subscriber.on('message', (channel: string, payload: string) => {
+      this.handlers.get(channel)?.(payload);
+    });
+  }
+
+  private connect(url: string, label: string): Redis {
+    const client = new Redis(url);
+    client.on('ready', () => console.log(`🔌 REDIS(${label}): Connected`));
+    client.on('error', error => console.error(`❌ REDIS(${label}): Connection error:`, error.message));
+    return client;
+  }
+
+  async publish(channel: string, payload: string): Promise<void> {
+    await this.publisher.publish(channel, payload);
+  }
+
+  async subscribe(channel: string, handler: (payload: string) => void): Promise<void> {
+    const isNew = !this.handlers.has(channel);
+    this.handlers.set(channel, handler);
+    if (!isNew) {
+      return;
+    }
+    try {
+      await this.subscriber.subscribe(channel);
+    } catch (error) {
+      // 구독하지 못한 채널의 핸들러는 남기지 않음 - 호출자가 다시 구독할 수 있도록
+      if (this.handlers.get(channel) === handler) {
+        this.handlers.delete(channel);
+      }
+      throw error;
+    }
+  }
+
+  async unsubscribe(channel: string): Promise<void> {
+    if (this.handlers.delete(channel)) {
+      await this.subscriber.unsubscribe(channel);
+    }
+  }
+
+  async close(): Promise<void> {
+    this.handlers.clear();
+    await Promise.all([this.publisher.quit(), this.subscriber.quit()]);
+  }
+}
+
+function createBroadcastBus(): BroadcastBus {
+  const backend = (process.env.BROADCAST_BACKEND || 'memory').toLowerCase();
+
+  switch (backend) {
+    case 'redis': {
+      const url = process.env.REDIS_URL || 'redis://127.0.0.1:6379';
+      console.log(`📡 BROADCAST_BUS: Using Redis pub/sub at ${url.replace(/\/\/([^:@/]*):[^@]*@/, '//$1:***@')}`);
+      return new RedisBroadcastBus(url);
+    }
+    case 'memory':
+      console.log('📡 BROADCAST_BUS: Using in-process broadcast bus (single instance)');
+      return new InProcessBroadcastBus();
+    default:
+      console.warn(`⚠️ BROADCAST_BUS: Unknown BROADCAST_BACKEND "${backend}", falling back to in-process bus`);
+      return new InProcessBroadcastBus();
+  }
+}
+
+export default createBroadcastBus();
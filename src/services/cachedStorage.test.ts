@@ -0,0 +1,146 @@
+import { afterAll, beforeAll, beforeEach, describe, expect, it, jest } from '@jest/globals';
+import { CachedStorage } from './cachedStorage';
+import MemoryStorageService from './memoryStorage';
+import { GameSession, Player } from '../types';
+
+function sessionFor(id: string): GameSession {
+  return {
+    id,
+    quizId: 'quiz-1',
+    hostId: 'host-1',
+    joinCode: id.toUpperCase(),
+    status: 'waiting',
+    currentQuestionIndex: 0,
+    players: [],
+    createdAt: new Date().toISOString()
+  };
+}
+
+function playerFor(sessionId: string, id: string): Player {
+  return { id, name: id, sessionId, score: 0, answers: [], isOnline: true, joinedAt: new Date().toISOString() };
+}
+
+describe('CachedStorage', () => {
+  let backing: MemoryStorageService;
+  let cache: CachedStorage;
+
+  beforeAll(() => {
+    jest.spyOn(console, 'log').mockImplementation(() => {});
+    jest.spyOn(console, 'error').mockImplementation(() => {});
+  });
+
+  afterAll(() => {
+    jest.restoreAllMocks();
+  });
+
+  // 주기 기록은 테스트 중에 돌지 않도록 길게 두고 flush()로만 기록
+  beforeEach(() => {
+    backing = new MemoryStorageService();
+    cache = new CachedStorage(backing, { flushIntervalMs: 60 * 60 * 1000, idleTtlMs: 60 * 60 * 1000 });
+  });
+
+  async function createSession(id: string, playerIds: string[] = []): Promise<void> {
+    await cache.saveSession(sessionFor(id));
+    for (const playerId of playerIds) {
+      await cache.savePlayer(id, playerFor(id, playerId));
+    }
+  }
+
+  it('keeps changes in memory until flush writes them to the backing store', async () => {
+    await createSession('s1', ['p1']);
+
+    expect(await cache.updateSession('s1', { status: 'active' })).toBe(true);
+    expect(await cache.updatePlayer('s1', 'p1', { score: 300 })).toBe(true);
+    expect((await cache.getSession('s1'))!.status).toBe('active');
+    expect((await backing.getSession('s1'))!.status).toBe('waiting');
+    expect((await backing.getSessionPlayers('s1'))[0].score).toBe(0);
+
+    await cache.flush();
+    expect((await backing.getSession('s1'))!.status).toBe('active');
+    expect((await backing.getSessionPlayers('s1'))[0].score).toBe(300);
+  });
+
+  it('writes a finished game immediately and evicts it on the next flush', async () => {
+    await createSession('s1');
+    await cache.updateSession('s1', { status: 'active' });
+
+    expect(await cache.updateSession('s1', { status: 'finished' })).toBe(true);
+    expect((await backing.getSession('s1'))!.status).toBe('finished');
+
+    await cache.flush();
+    // 캐시에서 빠진 뒤에는 저장소에서 바로 읽음
+    await backing.updateSession('s1', { joinCode: 'CHANGED' });
+    expect((await cache.getSession('s1'))!.joinCode).toBe('CHANGED');
+  });
+
+  it('reports a finished game whose write failed', async () => {
+    await createSession('s1');
+    jest.spyOn(backing, 'updateSession').mockResolvedValueOnce(false);
+
+    expect(await cache.updateSession('s1', { status: 'finished' })).toBe(false);
+    await cache.flush();
+    expect((await backing.getSession('s1'))!.status).toBe('finished');
+  });
+
+  it('keeps failed writes pending and retries them on the next flush', async () => {
+    await createSession('s1', ['p1']);
+    await cache.updatePlayer('s1', 'p1', { score: 100 });
+
+    jest.spyOn(backing, 'updatePlayer').mockResolvedValueOnce(false);
+    await cache.flush();
+    expect((await backing.getSessionPlayers('s1'))[0].score).toBe(0);
+
+    // 실패한 변경 위에 새 변경이 쌓여도 최신 값이 기록됨
+    await cache.updatePlayer('s1', 'p1', { isOnline: false });
+    await cache.flush();
+    expect((await backing.getSessionPlayers('s1'))[0]).toMatchObject({ score: 100, isOnline: false });
+  });
+
+  it('reloads an idle session from the backing store after evicting it', async () => {
+    cache = new CachedStorage(backing, { flushIntervalMs: 60 * 60 * 1000, idleTtlMs: -1 });
+    await createSession('s1', ['p1']);
+    await cache.updatePlayer('s1', 'p1', { score: 50 });
+
+    await cache.flush();
+    expect((await backing.getSessionPlayers('s1'))[0].score).toBe(50);
+
+    // 유휴로 빠진 세션도 이 인스턴스가 만든 세션이므로 다시 읽어 캐시
+    await backing.updatePlayer('s1', 'p1', { score: 70 });
+    expect((await cache.getSessionPlayers('s1'))[0].score).toBe(70);
+    await cache.updatePlayer('s1', 'p1', { score: 80 });
+    expect((await backing.getSessionPlayers('s1'))[0].score).toBe(70);
+  });
+
+  it('does not bring back a removed player with pending changes', async () => {
+    await createSession('s1', ['p1', 'p2']);
+    await cache.updatePlayer('s1', 'p1', { score: 100 });
+    await cache.updatePlayer('s1', 'p2', { score: 200 });
+    await cache.removePlayer('s1', 'p1');
+
+    // p2는 기록 중에 나감 - 저장소 쓰기가 실패해도 다시 쌓지 않고 버림
+    const write = backing.updatePlayer.bind(backing);
+    jest.spyOn(backing, 'updatePlayer').mockImplementation(async (sessionId, playerId, updates) => {
+      if (playerId === 'p2') {
+        await cache.removePlayer(sessionId, playerId);
+      }
+      return write(sessionId, playerId, updates);
+    });
+
+    await cache.flush();
+    expect(await backing.getSessionPlayers('s1')).toEqual([]);
+    expect(await cache.getSessionPlayers('s1')).toEqual([]);
+
+    // 남은 변경이 없으므로 다음 기록에서도 다시 쓰지 않음
+    await cache.flush();
+    expect(backing.updatePlayer).toHaveBeenCalledTimes(1);
+  });
+
+  it('passes sessions created on another instance straight through to the backing store', async () => {
+    await backing.saveSession(sessionFor('remote'));
+    await backing.savePlayer('remote', playerFor('remote', 'p1'));
+
+    expect(await cache.updatePlayer('remote', 'p1', { score: 10 })).toBe(true);
+    expect((await backing.getSessionPlayers('remote'))[0].score).toBe(10);
+    expect(await cache.updatePlayer('remote', 'missing', { score: 10 })).toBe(false);
+  });
+});
@@ -0,0 +1,399 @@
+import { Quiz, GameSession, Player, SessionData, GameResult } from '../types';
+import type { GameStorage } from './storage';
+import { KeyedMutex } from './keyedMutex';
+
+// 진행 중 세션 캐시 - 세션과 플레이어를 이 인스턴스 메모리에 두고 변경은 모아서 나중에 저장소에 기록 (write-behind)
+// 이 인스턴스가 만든 세션만 캐시 - 다른 인스턴스(또는 재시작 전)가 만든 세션은 캐시 없이 저장소에서 바로 읽고 씀
+// 여러 인스턴스면 세션 단위로 만든 인스턴스에 붙도록 라우팅해야 캐시 효과가 있음 (다른 인스턴스의 쓰기는 캐시에 반영되지 않음)
+
+// 외부 호출자가 캐시된 객체를 직접 변경하지 못하도록 항상 복사본을 주고받음
+function clone<T>(value: T): T {
+  return structuredClone(value);
+}
+
+interface CachedSession {
+  session: GameSession;
+  players: Map<string, Player>;
+  pendingSession?: Partial<GameSession>; // 아직 저장소에 기록하지 않은 세션 변경
+  pendingPlayers: Map<string, Partial<Player>>; // 플레이어별 미기록 변경
+  lastAccessAt: number;
+}
+
+export interface CachedStorageOptions {
+  flushIntervalMs: number;
+  idleTtlMs: number; // 이 시간 동안 접근이 없으면 기록 후 캐시에서 제거
+}
+
+export class CachedStorage implements GameStorage {
+  private sessions = new Map<string, CachedSession>();
+  private ownedSessions = new Set<string>(); // 이 인스턴스가 만든 세션 - 캐시에서 빠져도(유휴) 다시 읽어 캐시
+  private loading = new Map<string, Promise<CachedSession | null>>();
+  private flushing: Promise<boolean> | null = null;
+  // 같은 세션의 기록이 순서가 뒤바뀌어 저장소에 적용되지 않도록 세션별로 직렬 기록
+  private writeLocks = new KeyedMutex();
+  private flushTimer: NodeJS.Timeout;
+
+  constructor(private backing: GameStorage, private options: CachedStorageOptions) {
+    this.flushTimer = setInterval(() => {
+      this.runFlushPass().catch(error => console.error('❌ SESSION_CACHE: Flush failed:', error));
+    }, options.flushIntervalMs);
+    this.flushTimer.unref();
+  }
+
+  // 캐시에 없으면 저장소에서 세션과 플레이어를 읽어 채움 - 이 인스턴스가 만들지 않은 세션과 종료된 세션은 캐시하지 않음
+  private async getEntry(sessionId: string): Promise<CachedSession | null> {
+    const cached = this.sessions.get(sessionId);
+    if (cached) {
+      cached.lastAccessAt = Date.now();
+      return cached;
+    }
+    if (!this.ownedSessions.has(sessionId)) {
+      return null;
+    }
+
+    // 같은 세션을 동시에 여러 번 읽지 않도록 진행 중인 로드를 공유
+    let pending = this.loading.get(sessionId);
+    if (!pending) {
+      pending = this.loadEntry(sessionId).finally(() => this.loading.delete(sessionId));
+      this.loading.set(sessionId, pending);
+    }
+    return pending;
+  }
+
+  private async loadEntry(sessionId: string): Promise<CachedSession | null> {
+    const session = await this.backing.getSession(sessionId);
+    if (!session || session.status === 'finished') {
+      this.ownedSessions.delete(sessionId);
+      return null;
+    }
+
+    const players = await this.backing.getSessionPlayers(sessionId);
+    const entry: CachedSession = {
+      session,
+      players: new Map(players.map(player => [player.id, player])),
+      pendingPlayers: new Map(),
+      lastAccessAt: Date.now()
+    };
+    this.sessions.set(sessionId, entry);
+    console.log(`🔥 SESSION_CACHE: Loaded session ${sessionId} with ${players.length} players from storage`);
+    return entry;
+  }
+
+  // 남은 변경이 없을 때까지 저장소에 기록 (종료 전에 호출) - 기록 중에 들어온 변경도 다음 회차에 기록
+  // 기록에 실패한 변경이 있으면 멈추고 다음 주기 기록에 맡김
+  async flush(): Promise<void> {
+    for (;;) {
+      const written = await this.runFlushPass();
+      if (!written) {
+        console.error('❌ SESSION_CACHE: Some changes could not be written, leaving them for the next flush');
+        return;
+      }
+      if (!this.hasPending()) {
+        return;
+      }
+    }
+  }
+
+  private hasPending(): boolean {
+    return Array.from(this.sessions.values()).some(entry => entry.pendingSession || entry.pendingPlayers.size > 0);
+  }
+
+  // 모인 변경을 한 번 기록 - 이미 기록 중이면 그 기록을 기다림, 모두 기록했으면 true
+  private runFlushPass(): Promise<boolean> {
+    if (!this.flushing) {
+      this.flushing = this.flushPending().finally(() => {
+        this.flushing = null;
+      });
+    }
+    return this.flushing;
+  }
+
+  private async flushPending(): Promise<boolean> {
+    const now = Date.now();
+    let written = true;
+
+    for (const [sessionId, entry] of Array.from(this.sessions.entries())) {
+      written = await this.flushSession(sessionId, entry) && written;
+
+      const isClean = !entry.pendingSession && entry.pendingPlayers.size === 0;
+      const isIdle = now - entry.lastAccessAt > this.options.idleTtlMs;
+      if (isClean && (entry.session.status === 'finished' || isIdle)) {
+        this.sessions.delete(sessionId);
+        if (entry.session.status === 'finished') {
+          this.ownedSessions.delete(sessionId);
+        }
+        console.log(`🧹 SESSION_CACHE: Evicted session ${sessionId} (${entry.session.status === 'finished' ? 'finished' : 'idle'})`);
+      }
+    }
+
+    return written;
+  }
+
+  private flushSession(sessionId: string, entry: CachedSession): Promise<boolean> {
+    return this.writeLocks.runExclusive(sessionId, () => this.writePending(sessionId, entry));
+  }
+
+  // 세션과 플레이어의 미기록 변경을 기록 - 실패한 변경은 다시 쌓아 두고 false
+  // 기록 중에 나간 플레이어는 저장소의 updatePlayer가 (조건부 쓰기로) 다시 만들지 않으므로 실패해도 버림
+  private async writePending(sessionId: string, entry: CachedSession): Promise<boolean> {
+    let written = true;
+
+    const sessionUpdates = entry.pendingSession;
+    if (sessionUpdates) {
+      entry.pendingSession = undefined;
+      const saved = await this.backing.updateSession(sessionId, sessionUpdates);
+      if (!saved) {
+        // 기록 중에 들어온 변경이 더 최신이므로 그 위에 덮어쓰지 않음
+        entry.pendingSession = Object.assign({}, sessionUpdates, entry.pendingSession);
+        console.error(`❌ SESSION_CACHE: Failed to write session ${sessionId}, will retry`);
+        written = false;
+      }
+    }
+
+    for (const [playerId, playerUpdates] of Array.from(entry.pendingPlayers.entries())) {
+      entry.pendingPlayers.delete(playerId);
+      const saved = await this.backing.updatePlayer(sessionId, playerId, playerUpdates);
+      if (!saved && entry.players.has(playerId)) {
+        entry.pendingPlayers.set(playerId, { ...playerUpdates, ...entry.pendingPlayers.get(playerId) });
+        console.error(`❌ SESSION_CACHE: Failed to write player ${playerId} in session ${sessionId}, will retry`);
+        written = false;
+      }
+    }
+
+    return written;
+  }
+
+  // Quiz operations
+  saveQuiz(quiz: Quiz): Promise<boolean> {
+    return this.backing.saveQuiz(quiz);
+  }
+
+  getQuiz(quizId: string): Promise<Quiz | null> {
+    return this.backing.getQuiz(quizId);
+  }
+
+  getQuizzesByCreator(creatorId: string): Promise<Quiz[]> {
+    return this.backing.getQuizzesByCreator(creatorId);
+  }
+
+  deleteQuiz(quizId: string): Promise<boolean> {
+    return this.backing.deleteQuiz(quizId);
+  }
+
+  // Session operations
+  // 생성/삭제는 바로 기록 (드물고, 다른 인스턴스가 참가 코드로 찾을 수 있어야 함)
+  async saveSession(session: GameSession): Promise<boolean> {
+    const saved = await this.backing.saveSession(session);
+    if (saved) {
+      this.ownedSessions.add(session.id);
+      this.sessions.set(session.id, {
+        session: clone(session),
+        players: new Map(),
+        pendingPlayers: new Map(),
+        lastAccessAt: Date.now()
+      });
+    }
+    return saved;
+  }
+
+  async getSession(sessionId: string): Promise<GameSession | null> {
+    const entry = await this.getEntry(sessionId);
+    if (entry) {
+      return clone(entry.session);
+    }
+    return this.backing.getSession(sessionId);
+  }
+
+  // 캐시된 세션은 캐시에 반영되면 true - 저장소 기록은 나중에 하고, 실패하면 로그를 남기고 다음 주기에 다시 시도
+  // 게임 종료만 바로 기록하고 세션 기록 결과를 반환
+  async updateSession(sessionId: string, updates: Partial<GameSession>): Promise<boolean> {
+    const entry = await this.getEntry(sessionId);
+    if (!entry) {
+      return this.backing.updateSession(sessionId, updates);
+    }
+
+    const copied = clone(updates);
+    Object.assign(entry.session, copied);
+    entry.pendingSession = { ...entry.pendingSession, ...copied };
+
+    // 게임 종료는 바로 기록 (결과 조회/다른 인스턴스가 곧 읽음)
+    if (updates.status === 'finished') {
+      await this.flushSession(sessionId, entry);
+      return !entry.pendingSession;
+    }
+    return true;
+  }
+
+  async deleteSession(sessionId: string): Promise<boolean> {
+    this.sessions.delete(sessionId);
+    this.ownedSessions.delete(sessionId);
+    return this.backing.deleteSession(sessionId);
+  }
+
+  async getSessionData(sessionId: string): Promise<SessionData | null> {
+    const entry = await this.getEntry(sessionId);
+    if (!entry) {
+      return this.backing.getSessionData(sessionId);
+    }
+
+    const session = clone(entry.session);
+    session.players = Array.from(entry.players.values()).map(clone);
+    return {
+      session,
+      hostSocketId: (await this.backing.getHostSocket(sessionId)) || undefined,
+      playerSocketIds: await this.backing.getAllPlayerSockets(sessionId)
+    };
+  }
+
+  // Player operations
+  async savePlayer(sessionId: string, player: Player): Promise<boolean> {
+    const saved = await this.backing.savePlayer(sessionId, player);
+    const entry = this.sessions.get(sessionId);
+    if (saved && entry) {
+      entry.players.set(player.id, clone(player));
+      entry.pendingPlayers.delete(player.id);
+    }
+    return saved;
+  }
+
+  async getSessionPlayers(sessionId: string): Promise<Player[]> {
+    const entry = await this.getEntry(sessionId);
+    if (!entry) {
+      return this.backing.getSessionPlayers(sessionId);
+    }
+    return Array.from(entry.players.values()).map(clone);
+  }
+
+  // updateSession과 같이 캐시에 반영되면 true - 저장소 기록은 나중에
+  async updatePlayer(sessionId: string, playerId: string, updates: Partial<Player>): Promise<boolean> {
+    const entry = await this.getEntry(sessionId);
+    if (!entry) {
+      return this.backing.updatePlayer(sessionId, playerId, updates);
+    }
+
+    const player = entry.players.get(playerId);
+    if (!player) {
+      console.error(`❌ SESSION_CACHE: Player ${playerId} not found in session ${sessionId} for update`);
+      return false;
+    }
+
+    const copied = clone(updates);
+    Object.assign(player, copied);
+    entry.pendingPlayers.set(playerId, { ...entry.pendingPlayers.get(playerId), ...copied });
+    return true;
+  }
+
+  // 캐시된 세션은 이 인스턴스만 쓰므로 캐시의 버전으로 확인하고 updatePlayer와 같이 나중에 기록
+  async updatePlayerAnswers(sessionId: string, playerId: string, expectedVersion: number, updates: Pick<Player, 'answers' | 'score'>): Promise<boolean | null> {
+    const entry = await this.getEntry(sessionId);
+    if (!entry) {
+      return this.backing.updatePlayerAnswers(sessionId, playerId, expectedVersion, updates);
+    }
+
+    const player = entry.players.get(playerId);
+    if (!player || (player.answersVersion ?? 0) !== expectedVersion) {
+      return false;
+    }
+
+    const copied = { ...clone(updates), answersVersion: expectedVersion + 1 };
+    Object.assign(player, copied);
+    entry.pendingPlayers.set(playerId, { ...entry.pendingPlayers.get(playerId), ...copied });
+    return true;
+  }
+
+  async removePlayer(sessionId: string, playerId: string): Promise<boolean> {
+    const entry = this.sessions.get(sessionId);
+    if (entry) {
+      entry.players.delete(playerId);
+      entry.pendingPlayers.delete(playerId);
+    }
+    return this.backing.removePlayer(sessionId, playerId);
+  }
+
+  // 정원은 저장소의 조건부 쓰기로 확인 (여러 인스턴스에서 참가해도 초과하지 않도록) - 성공하면 캐시에도 반영
+  async reservePlayerSlot(sessionId: string, maxPlayers: number): Promise<boolean> {
+    const reserved = await this.backing.reservePlayerSlot(sessionId, maxPlayers);
+    const entry = this.sessions.get(sessionId);
+    if (reserved && entry) {
+      entry.session.playerCount = (entry.session.playerCount ?? 0) + 1;
+    }
+    return reserved;
+  }
+
+  async releasePlayerSlot(sessionId: string): Promise<boolean> {
+    const released = await this.backing.releasePlayerSlot(sessionId);
+    const entry = this.sessions.get(sessionId);
+    if (released && entry) {
+      entry.session.playerCount = Math.max((entry.session.playerCount ?? 0) - 1, 0);
+    }
+    return released;
+  }
+
+  // 답변 중복/정답 순위는 인스턴스 간에 공유되어야 하므로 항상 저장소에서 판정
+  claimAnswer(sessionId: string, attemptId: string, playerId: string): Promise<boolean | null> {
+    return this.backing.claimAnswer(sessionId, attemptId, playerId);
+  }
+
+  releaseAnswer(sessionId: string, attemptId: string, playerId: string): Promise<boolean> {
+    return this.backing.releaseAnswer(sessionId, attemptId, playerId);
+  }
+
+  incrementCorrectCount(sessionId: string, attemptId: string): Promise<number | null> {
+    return this.backing.incrementCorrectCount(sessionId, attemptId);
+  }
+
+  // Join code operations
+  setJoinCode(joinCode: string, sessionId: string): Promise<boolean> {
+    return this.backing.setJoinCode(joinCode, sessionId);
+  }
+
+  getSessionByJoinCode(joinCode: string): Promise<string | null> {
+    return this.backing.getSessionByJoinCode(joinCode);
+  }
+
+  // Socket management
+  setHostSocket(sessionId: string, socketId: string): Promise<boolean> {
+    return this.backing.setHostSocket(sessionId, socketId);
+  }
+
+  getHostSocket(sessionId: string): Promise<string | null> {
+    return this.backing.getHostSocket(sessionId);
+  }
+
+  setPlayerSocket(sessionId: string, playerId: string, socketId: string): Promise<boolean> {
+    return this.backing.setPlayerSocket(sessionId, playerId, socketId);
+  }
+
+  getPlayerSocket(sessionId: string, playerId: string): Promise<string | null> {
+    return this.backing.getPlayerSocket(sessionId, playerId);
+  }
+
+  getAllPlayerSockets(sessionId: string): Promise<{ [playerId: string]: string }> {
+    return this.backing.getAllPlayerSockets(sessionId);
+  }
+
+  removeSocket(sessionId: string, socketId: string): Promise<boolean> {
+    return this.backing.removeSocket(sessionId, socketId);
+  }
+
+  // Game Results operations
+  saveGameResult(gameResult: GameResult): Promise<boolean> {
+    return this.backing.saveGameResult(gameResult);
+  }
+
+  getGameResult(sessionId: string): Promise<GameResult | null> {
+    return this.backing.getGameResult(sessionId);
+  }
+
+  getRecentGameResults(limit?: number): Promise<GameResult[]> {
+    return this.backing.getRecentGameResults(limit);
+  }
+
+  getPublicGameResults(quizTitle?: string, limit?: number): Promise<GameResult[]> {
+    return this.backing.getPublicGameResults(quizTitle, limit);
+  }
+
+  getGameResultsByQuiz(quizId: string, limit?: number): Promise<GameResult[]> {
+    return this.backing.getGameResultsByQuiz(quizId, limit);
+  }
+}
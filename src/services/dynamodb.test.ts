@@ -0,0 +1,111 @@
+import { afterAll, beforeAll, describe, expect, it, jest } from '@jest/globals';
+import { BatchWriteCommand, PutCommand, QueryCommand, ScanCommand } from '@aws-sdk/lib-dynamodb';
+import { DynamoDBService } from './dynamodb';
+import { GameResult } from '../types';
+
+// 게임 결과에 쓰는 명령만 처리하는 테이블 - pk/sk 키로 항목 보관
+class FakeTable {
+  items = new Map<string, Record<string, any>>();
+
+  async send(command: unknown): Promise<any> {
+    if (command instanceof PutCommand) {
+      this.put(command.input.Item!);
+      return {};
+    }
+    if (command instanceof BatchWriteCommand) {
+      Object.values(command.input.RequestItems!).flat().forEach(request => this.put(request.PutRequest!.Item!));
+      return { UnprocessedItems: {} };
+    }
+    if (command instanceof QueryCommand) {
+      const values = command.input.ExpressionAttributeValues!;
+      const items = this.all().filter(item => item.pk === values[':pk'] && (values[':sk'] === undefined || item.sk.startsWith(values[':sk'])));
+      return { Items: items };
+    }
+    if (command instanceof ScanCommand) {
+      const values = command.input.ExpressionAttributeValues!;
+      const items = this.all().filter(item => item.pk.startsWith(values[':pk_prefix']) && item.sk === values[':sk'] && item.quizId === values[':quizId']);
+      return { Items: items };
+    }
+    throw new Error('Unsupported command');
+  }
+
+  private put(item: Record<string, any>): void {
+    this.items.set(`${item.pk}|${item.sk}`, structuredClone(item));
+  }
+
+  private all(): Record<string, any>[] {
+    return Array.from(this.items.values()).map(item => structuredClone(item));
+  }
+}
+
+function resultFor(sessionId: string, completedAt: string): GameResult {
+  return {
+    sessionId,
+    quizId: 'quiz-1',
+    quizTitle: '상식 퀴즈',
+    hostId: 'host-1',
+    completedAt,
+    totalParticipants: 2,
+    totalQuestions: 1,
+    averageScore: 50,
+    leaderboard: [
+      { rank: 1, playerId: 'p1', playerName: '민수', score: 100 },
+      { rank: 2, playerId: 'p2', playerName: '지영', score: 0 }
+    ],
+    questionStats: [
+      { questionId: 'q1', questionText: '1 + 1 = ?', correctAnswer: 1, correctCount: 1, totalAnswers: 2 }
+    ],
+    players: [
+      { playerId: 'p1', playerName: '민수', score: 100, answers: [{ questionId: 'q1', timeToAnswer: 1000, isCorrect: true, points: 100, submittedAt: completedAt }] },
+      { playerId: 'p2', playerName: '지영', score: 0, answers: [{ questionId: 'q1', timeToAnswer: 2000, isCorrect: false, points: 0, submittedAt: completedAt }] }
+    ]
+  };
+}
+
+describe('DynamoDBService game results', () => {
+  const table = new FakeTable();
+  const service = new DynamoDBService();
+
+  beforeAll(() => {
+    (service as any).client = table;
+    jest.spyOn(console, 'log').mockImplementation(() => {});
+  });
+
+  afterAll(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('stores players as separate items next to the summary', async () => {
+    expect(await service.saveGameResult(resultFor('s1', '2026-01-01T00:00:00.000Z'))).toBe(true);
+
+    const summary = table.items.get('GAME_RESULT#s1|METADATA');
+    expect(summary).toBeDefined();
+    expect(summary!.players).toBeUndefined();
+    expect(table.items.get('GAME_RESULT#s1|PLAYER#p1')?.answers).toHaveLength(1);
+  });
+
+  it('merges player items when reading a single result', async () => {
+    const result = await service.getGameResult('s1');
+    expect(result?.players?.map(player => player.playerId).sort()).toEqual(['p1', 'p2']);
+    expect((result as any).pk).toBeUndefined();
+  });
+
+  it('merges player items into results listed by quiz', async () => {
+    await service.saveGameResult(resultFor('s2', '2026-01-02T00:00:00.000Z'));
+
+    const results = await service.getGameResultsByQuiz('quiz-1');
+    expect(results.map(result => result.sessionId)).toEqual(['s2', 's1']);
+    results.forEach(result => {
+      expect(result.players?.map(player => player.playerName).sort()).toEqual(['민수', '지영']);
+      expect(result.players?.[0]).not.toHaveProperty('pk');
+    });
+  });
+
+  it('keeps players stored on the summary item by older versions', async () => {
+    const legacy = resultFor('s0', '2025-12-31T00:00:00.000Z');
+    table.items.set('GAME_RESULT#s0|METADATA', { pk: 'GAME_RESULT#s0', sk: 'METADATA', ...legacy });
+
+    const results = await service.getGameResultsByQuiz('quiz-1');
+    expect(results.find(result => result.sessionId === 's0')?.players).toHaveLength(2);
+  });
+});
@@ -1,36 +1,10 @@
-import { DynamoDBClient } from '@aws-sdk/client-dynamodb';
-import { DynamoDBDocumentClient, GetCommand, PutCommand, UpdateCommand, DeleteCommand, QueryCommand, BatchWriteCommand, ScanCommand } from '@aws-sdk/lib-dynamodb';
-import { Quiz, GameSession, Player, PlayerAnswer, SessionData } from '../types';
+import { DynamoDBClient, ConditionalCheckFailedException } from '@aws-sdk/client-dynamodb';
+import { DynamoDBDocumentClient, GetCommand, PutCommand, UpdateCommand, DeleteCommand, QueryCommand, BatchWriteCommand, BatchWriteCommandOutput, ScanCommand } from '@aws-sdk/lib-dynamodb';
+import { Quiz, GameSession, Player, PlayerAnswer, SessionData, GameResult, GameResultPlayer } from '../types';
 import { demoQuiz, isDemoQuiz } from '../demoData';
+import type { GameStorage } from './storage';
 
-// GameResult interface - 별도로 정의
-interface GameResult {
-  sessionId: string;
-  quizId: string;
-  quizTitle: string;
-  hostId: string;
-  completedAt: string;
-  totalParticipants: number;
-  totalQuestions: number;
-  averageScore: number;
-  leaderboard: Array<{
-    rank: number;
-    playerId: string;
-    playerName: string;
-    score: number;
-  }>;
-  questionStats: Array<{
-    questionId: string;
-    questionText: string;
-    correctAnswer: number;
-    correctCount: number;
-    totalAnswers: number;
-  }>;
-  isPublic?: boolean;
-  duration?: number;
-}
-
-class DynamoDBService {
+export class DynamoDBService implements GameStorage {
   private client: DynamoDBDocumentClient;
   private tableName: string;
 
@@ -40,7 +14,10 @@ class DynamoDBService {
       region: process.env.AWS_REGION || 'ap-northeast-2',
     });
     
-    this.client = DynamoDBDocumentClient.from(dynamoClient);
+    // 선택 필드(teamId 등)가 undefined인 객체도 저장할 수 있도록 undefined 값은 제거
+    this.client = DynamoDBDocumentClient.from(dynamoClient, {
+      marshallOptions: { removeUndefinedValues: true }
+    });
     this.tableName = process.env.DYNAMODB_TABLE || 'amahoot-game-data';
   }
 
@@ -115,6 +92,62 @@ class DynamoDBService {
     }
   }
 
+  async getQuizzesByCreator(creatorId: string): Promise<Quiz[]> {
+    try {
+      console.log(`🔍 DYNAMODB: Getting quizzes for creator ${creatorId}`);
+
+      const quizzes: Quiz[] = [];
+      let exclusiveStartKey: Record<string, any> | undefined;
+
+      // Scan은 페이지 단위로 필터링되므로 마지막 페이지까지 순회
+      do {
+        const result = await this.client.send(new ScanCommand({
+          TableName: this.tableName,
+          FilterExpression: 'begins_with(pk, :pk_prefix) AND sk = :sk AND creatorId = :creatorId',
+          ExpressionAttributeValues: {
+            ':pk_prefix': 'QUIZ#',
+            ':sk': 'METADATA',
+            ':creatorId': creatorId
+          },
+          ExclusiveStartKey: exclusiveStartKey
+        }));
+
+        (result.Items || []).forEach(item => {
+          const { pk, sk, ttl, ...quiz } = item;
+          quizzes.push(quiz as Quiz);
+        });
+        exclusiveStartKey = result.LastEvaluatedKey;
+      } while (exclusiveStartKey);
+
+      // 최근 수정순으로 정렬
+      quizzes.sort((a, b) => new Date(b.updatedAt).getTime() - new Date(a.updatedAt).getTime());
+
+      console.log(`✅ DYNAMODB: Retrieved ${quizzes.length} quizzes for creator ${creatorId}`);
+      return quizzes;
+    } catch (error) {
+      console.error(`❌ DYNAMODB: Error getting quizzes for creator ${creatorId}:`, error);
+      return [];
+    }
+  }
+
+  async deleteQuiz(quizId: string): Promise<boolean> {
+    try {
+      const command = new DeleteCommand({
+        TableName: this.tableName,
+        Key: {
+          pk: `QUIZ#${quizId}`,
+          sk: 'METADATA'
+        }
+      });
+
+      await this.client.send(command);
+      return true;
+    } catch (error) {
+      console.error('Error deleting quiz:', error);
+      return false;
+    }
+  }
+
   // Session operations
   async saveSession(session: GameSession): Promise<boolean> {
     try {
@@ -182,24 +215,35 @@ class DynamoDBService {
   async updateSession(sessionId: string, updates: Partial<GameSession>): Promise<boolean> {
     try {
       const updateExpression = [];
+      const removeExpression = [];
       const expressionAttributeNames: any = {};
       const expressionAttributeValues: any = {};
       
+      // undefined 값은 속성 삭제 (예: 재개 시 pausedAt 제거)
       for (const [key, value] of Object.entries(updates)) {
-        updateExpression.push(`#${key} = :${key}`);
         expressionAttributeNames[`#${key}`] = key;
+        if (value === undefined) {
+          removeExpression.push(`#${key}`);
+          continue;
+        }
+        updateExpression.push(`#${key} = :${key}`);
         expressionAttributeValues[`:${key}`] = value;
       }
       
+      const clauses = [
+        updateExpression.length > 0 ? `SET ${updateExpression.join(', ')}` : '',
+        removeExpression.length > 0 ? `REMOVE ${removeExpression.join(', ')}` : ''
+      ].filter(Boolean);
+      
       const command = new UpdateCommand({
         TableName: this.tableName,
         Key: { 
           pk: `SESSION#${sessionId}`,
           sk: 'METADATA'
         },
-        UpdateExpression: `SET ${updateExpression.join(', ')}`,
+        UpdateExpression: clauses.join(' '),
         ExpressionAttributeNames: expressionAttributeNames,
-        ExpressionAttributeValues: expressionAttributeValues
+        ExpressionAttributeValues: updateExpression.length > 0 ? expressionAttributeValues : undefined
       });
       
       await this.client.send(command);
@@ -274,6 +318,8 @@ class DynamoDBService {
           sk: `PLAYER#${playerId}`
         },
         UpdateExpression: `SET ${updateExpression.join(', ')}`,
+        // 이미 나간(삭제된) 플레이어를 일부 속성만 가진 항목으로 다시 만들지 않도록
+        ConditionExpression: 'attribute_exists(pk)',
         ExpressionAttributeNames: expressionAttributeNames,
         ExpressionAttributeValues: expressionAttributeValues
       });
@@ -281,11 +327,52 @@ class DynamoDBService {
       await this.client.send(command);
       return true;
     } catch (error) {
+      if (error instanceof ConditionalCheckFailedException) {
+        console.warn(`⚠️ DYNAMODB: Player ${playerId} in session ${sessionId} was already removed, skipping update`);
+        return false;
+      }
       console.error('Error updating player:', error);
       return false;
     }
   }
 
+  // 버전이 없으면(한 번도 답변을 기록하지 않은 플레이어) 0으로 취급
+  async updatePlayerAnswers(sessionId: string, playerId: string, expectedVersion: number, updates: Pick<Player, 'answers' | 'score'>): Promise<boolean | null> {
+    try {
+      const expressionAttributeValues: any = {
+        ':answers': updates.answers,
+        ':score': updates.score,
+        ':next': expectedVersion + 1
+      };
+      if (expectedVersion > 0) {
+        expressionAttributeValues[':expected'] = expectedVersion;
+      }
+
+      const command = new UpdateCommand({
+        TableName: this.tableName,
+        Key: {
+          pk: `SESSION#${sessionId}`,
+          sk: `PLAYER#${playerId}`
+        },
+        UpdateExpression: 'SET #answers = :answers, #score = :score, #version = :next',
+        ConditionExpression: expectedVersion > 0
+          ? '#version = :expected'
+          : 'attribute_exists(pk) AND attribute_not_exists(#version)',
+        ExpressionAttributeNames: { '#answers': 'answers', '#score': 'score', '#version': 'answersVersion' },
+        ExpressionAttributeValues: expressionAttributeValues
+      });
+
+      await this.client.send(command);
+      return true;
+    } catch (error) {
+      if (error instanceof ConditionalCheckFailedException) {
+        return false;
+      }
+      console.error('Error updating player answers:', error);
+      return null;
+    }
+  }
+
   async removePlayer(sessionId: string, playerId: string): Promise<boolean> {
     try {
       const command = new DeleteCommand({
@@ -304,6 +391,128 @@ class DynamoDBService {
     }
   }
 
+  // 조건부 업데이트로 정원 확인과 증가를 한 번에 처리 (동시 참가 시에도 정원 초과 방지)
+  async reservePlayerSlot(sessionId: string, maxPlayers: number): Promise<boolean> {
+    try {
+      const command = new UpdateCommand({
+        TableName: this.tableName,
+        Key: {
+          pk: `SESSION#${sessionId}`,
+          sk: 'METADATA'
+        },
+        UpdateExpression: 'SET #playerCount = if_not_exists(#playerCount, :zero) + :one',
+        ConditionExpression: 'attribute_exists(pk) AND (attribute_not_exists(#playerCount) OR #playerCount < :max)',
+        ExpressionAttributeNames: { '#playerCount': 'playerCount' },
+        ExpressionAttributeValues: { ':zero': 0, ':one': 1, ':max': maxPlayers }
+      });
+
+      await this.client.send(command);
+      return true;
+    } catch (error) {
+      if (error instanceof ConditionalCheckFailedException) {
+        console.warn(`⚠️ DYNAMODB: Session ${sessionId} is full (${maxPlayers} players)`);
+        return false;
+      }
+      console.error('Error reserving player slot:', error);
+      return false;
+    }
+  }
+
+  async releasePlayerSlot(sessionId: string): Promise<boolean> {
+    try {
+      const command = new UpdateCommand({
+        TableName: this.tableName,
+        Key: {
+          pk: `SESSION#${sessionId}`,
+          sk: 'METADATA'
+        },
+        UpdateExpression: 'SET #playerCount = #playerCount - :one',
+        ConditionExpression: '#playerCount > :zero',
+        ExpressionAttributeNames: { '#playerCount': 'playerCount' },
+        ExpressionAttributeValues: { ':zero': 0, ':one': 1 }
+      });
+
+      await this.client.send(command);
+      return true;
+    } catch (error) {
+      if (error instanceof ConditionalCheckFailedException) {
+        return false;
+      }
+      console.error('Error releasing player slot:', error);
+      return false;
+    }
+  }
+
+  // Answer operations
+  // 회차+플레이어별 항목을 조건부로 생성 - 이미 있으면 다른 요청(다른 인스턴스 포함)이 먼저 기록한 것
+  async claimAnswer(sessionId: string, attemptId: string, playerId: string): Promise<boolean | null> {
+    try {
+      const command = new PutCommand({
+        TableName: this.tableName,
+        Item: {
+          pk: `SESSION#${sessionId}`,
+          sk: `ANSWER#${attemptId}#${playerId}`,
+          claimedAt: new Date().toISOString(),
+          ttl: Math.floor(Date.now() / 1000) + (12 * 60 * 60) // 12 hours TTL
+        },
+        ConditionExpression: 'attribute_not_exists(pk)'
+      });
+
+      await this.client.send(command);
+      return true;
+    } catch (error) {
+      if (error instanceof ConditionalCheckFailedException) {
+        return false;
+      }
+      console.error('Error claiming answer:', error);
+      return null;
+    }
+  }
+
+  async releaseAnswer(sessionId: string, attemptId: string, playerId: string): Promise<boolean> {
+    try {
+      const command = new DeleteCommand({
+        TableName: this.tableName,
+        Key: {
+          pk: `SESSION#${sessionId}`,
+          sk: `ANSWER#${attemptId}#${playerId}`
+        }
+      });
+
+      await this.client.send(command);
+      return true;
+    } catch (error) {
+      console.error('Error releasing answer claim:', error);
+      return false;
+    }
+  }
+
+  // 회차별 정답자 카운터를 ADD로 원자적으로 증가 (동시에 맞혀도 순위가 겹치지 않음)
+  async incrementCorrectCount(sessionId: string, attemptId: string): Promise<number | null> {
+    try {
+      const command = new UpdateCommand({
+        TableName: this.tableName,
+        Key: {
+          pk: `SESSION#${sessionId}`,
+          sk: `CORRECT#${attemptId}`
+        },
+        UpdateExpression: 'ADD #count :one SET #ttl = if_not_exists(#ttl, :ttl)',
+        ExpressionAttributeNames: { '#count': 'count', '#ttl': 'ttl' },
+        ExpressionAttributeValues: {
+          ':one': 1,
+          ':ttl': Math.floor(Date.now() / 1000) + (12 * 60 * 60) // 12 hours TTL
+        },
+        ReturnValues: 'UPDATED_NEW'
+      });
+
+      const result = await this.client.send(command);
+      return result.Attributes?.count ?? null;
+    } catch (error) {
+      console.error('Error incrementing correct count:', error);
+      return null;
+    }
+  }
+
   // Join code operations
   async setJoinCode(joinCode: string, sessionId: string): Promise<boolean> {
     try {
@@ -550,22 +759,56 @@ class DynamoDBService {
   }
 
   // Game Results operations
+  // 플레이어별 답안은 항목 크기 제한(400KB)을 넘지 않도록 플레이어마다 별도 항목(sk PLAYER#<id>)으로 저장하고 조회 시 합침
   async saveGameResult(gameResult: GameResult): Promise<boolean> {
     try {
       console.log(`💾 DYNAMODB: Saving game result for session ${gameResult.sessionId}`);
-      
+
+      const pk = `GAME_RESULT#${gameResult.sessionId}`;
+      const ttl = Math.floor(Date.now() / 1000) + (365 * 24 * 60 * 60); // 1년 후 만료
+      const { players, ...summary } = gameResult;
+
+      // 플레이어 항목을 먼저 기록 - 요약 항목이 보이면 플레이어 항목도 모두 있음
+      const putRequests = (players || []).map(player => ({
+        PutRequest: {
+          Item: {
+            pk,
+            sk: `PLAYER#${player.playerId}`,
+            ...player,
+            ttl
+          }
+        }
+      }));
+
+      // DynamoDB batch write supports max 25 items
+      const batchSize = 25;
+      for (let i = 0; i < putRequests.length; i += batchSize) {
+        let requestItems: Record<string, any> | undefined = {
+          [this.tableName]: putRequests.slice(i, i + batchSize)
+        };
+        // 처리되지 않은 항목은 몇 번 더 시도
+        for (let attempt = 0; requestItems && attempt < 3; attempt++) {
+          const result: BatchWriteCommandOutput = await this.client.send(new BatchWriteCommand({ RequestItems: requestItems }));
+          const unprocessed = result.UnprocessedItems;
+          requestItems = unprocessed && Object.keys(unprocessed).length > 0 ? unprocessed : undefined;
+        }
+        if (requestItems) {
+          throw new Error(`Failed to write player results for session ${gameResult.sessionId}`);
+        }
+      }
+
       const command = new PutCommand({
         TableName: this.tableName,
         Item: {
-          pk: `GAME_RESULT#${gameResult.sessionId}`,
+          pk,
           sk: 'METADATA',
-          ...gameResult,
-          ttl: Math.floor(Date.now() / 1000) + (365 * 24 * 60 * 60) // 1년 후 만료
+          ...summary,
+          ttl
         }
       });
 
       await this.client.send(command);
-      console.log(`✅ DYNAMODB: Game result saved successfully for session ${gameResult.sessionId}`);
+      console.log(`✅ DYNAMODB: Game result saved successfully for session ${gameResult.sessionId} (${putRequests.length} player items)`);
       return true;
     } catch (error) {
       console.error('Error saving game result:', error);
@@ -576,29 +819,44 @@ class DynamoDBService {
   async getGameResult(sessionId: string): Promise<GameResult | null> {
     try {
       console.log(`🔍 DYNAMODB: Getting game result for session ${sessionId}`);
-      
-      const command = new GetCommand({
-        TableName: this.tableName,
-        Key: { 
-          pk: `GAME_RESULT#${sessionId}`,
-          sk: 'METADATA'
-        }
-      });
-      
-      console.log(`📤 DYNAMODB: Querying for game result with pk: GAME_RESULT#${sessionId}, sk: METADATA`);
-      const result = await this.client.send(command);
+
+      const items: Record<string, any>[] = [];
+      let exclusiveStartKey: Record<string, any> | undefined;
+
+      // 요약 항목과 플레이어 항목을 한 번에 조회
+      console.log(`📤 DYNAMODB: Querying for game result items with pk: GAME_RESULT#${sessionId}`);
+      do {
+        const result = await this.client.send(new QueryCommand({
+          TableName: this.tableName,
+          KeyConditionExpression: 'pk = :pk',
+          ExpressionAttributeValues: {
+            ':pk': `GAME_RESULT#${sessionId}`
+          },
+          ExclusiveStartKey: exclusiveStartKey
+        }));
+        items.push(...(result.Items || []));
+        exclusiveStartKey = result.LastEvaluatedKey;
+      } while (exclusiveStartKey);
+
+      const metadata = items.find(item => item.sk === 'METADATA');
       console.log(`📥 DYNAMODB: Game result query result:`, {
-        hasItem: !!result.Item,
-        itemKeys: result.Item ? Object.keys(result.Item) : 'none'
+        hasItem: !!metadata,
+        itemCount: items.length
       });
       
-      if (!result.Item) {
+      if (!metadata) {
         console.log(`❌ DYNAMODB: No game result found for session ${sessionId}`);
         return null;
       }
 
-      const { pk, sk, ttl, ...gameResult } = result.Item;
+      const { pk, sk, ttl, ...gameResult } = metadata;
       const finalResult = gameResult as GameResult;
+
+      const playerItems = items.filter(item => typeof item.sk === 'string' && item.sk.startsWith('PLAYER#'));
+      // 이전 형식(요약 항목에 players 포함)으로 저장된 결과는 그대로 사용
+      if (playerItems.length > 0) {
+        finalResult.players = playerItems.map(toGameResultPlayer);
+      }
       
       console.log(`✅ DYNAMODB: Found game result for session ${sessionId}:`, {
         sessionId: finalResult.sessionId,
@@ -606,6 +864,7 @@ class DynamoDBService {
         quizTitle: finalResult.quizTitle,
         totalParticipants: finalResult.totalParticipants,
         leaderboardSize: finalResult.leaderboard?.length || 0,
+        playerCount: finalResult.players?.length || 0,
         completedAt: finalResult.completedAt
       });
       
@@ -653,9 +912,10 @@ class DynamoDBService {
       if (quizTitle) {
         const command = new ScanCommand({
           TableName: this.tableName,
-          FilterExpression: 'begins_with(pk, :pk_prefix) AND quizTitle = :quizTitle AND isPublic = :isPublic',
+          FilterExpression: 'begins_with(pk, :pk_prefix) AND sk = :sk AND quizTitle = :quizTitle AND isPublic = :isPublic',
           ExpressionAttributeValues: {
             ':pk_prefix': 'GAME_RESULT#',
+            ':sk': 'METADATA',
             ':quizTitle': quizTitle,
             ':isPublic': true
           },
@@ -671,9 +931,10 @@ class DynamoDBService {
         // 전체 공개 게임 결과 조회
         const command = new ScanCommand({
           TableName: this.tableName,
-          FilterExpression: 'begins_with(pk, :pk_prefix) AND isPublic = :isPublic',
+          FilterExpression: 'begins_with(pk, :pk_prefix) AND sk = :sk AND isPublic = :isPublic',
           ExpressionAttributeValues: {
             ':pk_prefix': 'GAME_RESULT#',
+            ':sk': 'METADATA',
             ':isPublic': true
           },
           Limit: limit
@@ -701,23 +962,28 @@ class DynamoDBService {
     try {
       console.log(`📊 DYNAMODB: Getting game results for quiz ${quizId} (limit: ${limit})`);
       
-      const command = new ScanCommand({
-        TableName: this.tableName,
-        FilterExpression: 'begins_with(pk, :pk_prefix) AND quizId = :quizId',
-        ExpressionAttributeValues: {
-          ':pk_prefix': 'GAME_RESULT#',
-          ':quizId': quizId
-        },
-        Limit: limit
-      });
+      const items: Record<string, any>[] = [];
+      let exclusiveStartKey: Record<string, any> | undefined;
 
-      const result = await this.client.send(command);
-      console.log(`📥 DYNAMODB: Raw scan result for quiz ${quizId}:`, {
-        hasItems: !!result.Items,
-        itemCount: result.Items?.length || 0
-      });
+      // Scan의 Limit은 필터 적용 전 항목 수이므로 전체 페이지를 읽은 뒤 정렬해서 자름
+      do {
+        const result = await this.client.send(new ScanCommand({
+          TableName: this.tableName,
+          FilterExpression: 'begins_with(pk, :pk_prefix) AND sk = :sk AND quizId = :quizId',
+          ExpressionAttributeValues: {
+            ':pk_prefix': 'GAME_RESULT#',
+            ':sk': 'METADATA',
+            ':quizId': quizId
+          },
+          ExclusiveStartKey: exclusiveStartKey
+        }));
+        items.push(...(result.Items || []));
+        exclusiveStartKey = result.LastEvaluatedKey;
+      } while (exclusiveStartKey);
+
+      console.log(`📥 DYNAMODB: Scanned ${items.length} game result items for quiz ${quizId}`);
       
-      const gameResults = (result.Items || []).map((item: any) => {
+      const gameResults = items.map((item: any) => {
         const { pk, sk, ttl, averageAccuracy, ...gameResult } = item;
         
         // 리더보드에서 정확도 필드 제거
@@ -739,8 +1005,17 @@ class DynamoDBService {
         return gameResult as GameResult;
       });
 
-      // 완료 시간으로 정렬 (최신순)
+      // 완료 시간으로 정렬 (최신순) 후 limit 적용
       gameResults.sort((a: GameResult, b: GameResult) => new Date(b.completedAt).getTime() - new Date(a.completedAt).getTime());
+      gameResults.splice(limit);
+
+      // 스캔은 요약 항목만 읽으므로 플레이어별 답안(PLAYER# 항목)은 결과마다 따로 조회해 합침 (내보내기에 필요)
+      await Promise.all(gameResults.map(async gameResult => {
+        const players = await this.getGameResultPlayers(gameResult.sessionId);
+        if (players.length > 0) {
+          gameResult.players = players;
+        }
+      }));
       
       console.log(`✅ DYNAMODB: Retrieved ${gameResults.length} game results for quiz ${quizId}`);
       if (gameResults.length > 0) {
@@ -748,7 +1023,8 @@ class DynamoDBService {
           sessionId: gameResults[0].sessionId,
           completedAt: gameResults[0].completedAt,
           totalParticipants: gameResults[0].totalParticipants,
-          leaderboardSize: gameResults[0].leaderboard?.length || 0
+          leaderboardSize: gameResults[0].leaderboard?.length || 0,
+          playerCount: gameResults[0].players?.length || 0
         });
       }
       
@@ -758,6 +1034,33 @@ class DynamoDBService {
       return [];
     }
   }
+
+  // 게임 결과의 플레이어 항목(sk PLAYER#<id>)만 조회 - 조회 실패는 호출한 쪽의 catch로
+  private async getGameResultPlayers(sessionId: string): Promise<GameResultPlayer[]> {
+    const players: GameResultPlayer[] = [];
+    let exclusiveStartKey: Record<string, any> | undefined;
+
+    do {
+      const result = await this.client.send(new QueryCommand({
+        TableName: this.tableName,
+        KeyConditionExpression: 'pk = :pk AND begins_with(sk, :sk)',
+        ExpressionAttributeValues: {
+          ':pk': `GAME_RESULT#${sessionId}`,
+          ':sk': 'PLAYER#'
+        },
+        ExclusiveStartKey: exclusiveStartKey
+      }));
+      players.push(...(result.Items || []).map(toGameResultPlayer));
+      exclusiveStartKey = result.LastEvaluatedKey;
+    } while (exclusiveStartKey);
+
+    return players;
+  }
+}
+
+function toGameResultPlayer(item: Record<string, any>): GameResultPlayer {
+  const { pk, sk, ttl, ...player } = item;
+  return player as GameResultPlayer;
 }
 
-export default new DynamoDBService(); 
\ No newline at end of file
+export default DynamoDBService; 
\ No newline at end of file
@@ -0,0 +1,12 @@
+// 클라이언트에 그대로 전달할 수 있는 에러 코드가 있는 게임 로직 에러
+export class GameError extends Error {
+  code: string;
+  details?: any;
+
+  constructor(code: string, message: string, details?: any) {
+    super(message);
+    this.name = 'GameError';
+    this.code = code;
+    this.details = details;
+  }
+}
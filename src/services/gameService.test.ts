@@ -0,0 +1,412 @@
+import { afterAll, afterEach, beforeAll, describe, expect, it, jest } from '@jest/globals';
+import gameService from './gameService';
+import storage from './storage';
+import { DEMO_HOST_ID, DEMO_QUIZ_ID, demoQuestions } from '../demoData';
+import { Player, SingleChoiceQuestion } from '../types';
+
+// 데모 퀴즈로 세션을 만들고 플레이어를 참가시킨 뒤 첫 문제까지 진행
+async function openFirstQuestion(names: string[]): Promise<{ sessionId: string; players: Player[]; question: SingleChoiceQuestion }> {
+  const session = await gameService.createSession(DEMO_HOST_ID, DEMO_QUIZ_ID);
+  const players: Player[] = [];
+  for (const name of names) {
+    players.push((await gameService.joinSession(session!.joinCode, name))!.player);
+  }
+  await gameService.startGame(session!.id, DEMO_HOST_ID);
+  const active = await gameService.nextQuestion(session!.id, DEMO_HOST_ID);
+  return { sessionId: session!.id, players, question: active!.question as SingleChoiceQuestion };
+}
+
+// 인메모리 저장소(jest.setup.js)로 세션 생성부터 게임 종료까지 진행
+describe('game flow (memory storage)', () => {
+  beforeAll(() => {
+    jest.spyOn(console, 'log').mockImplementation(() => {});
+    jest.spyOn(console, 'warn').mockImplementation(() => {});
+    jest.spyOn(console, 'error').mockImplementation(() => {});
+  });
+
+  afterAll(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('plays a demo quiz from lobby to saved results', async () => {
+    const session = await gameService.createSession(DEMO_HOST_ID, DEMO_QUIZ_ID);
+    expect(session).not.toBeNull();
+    const sessionId = session!.id;
+
+    const alice = await gameService.joinSession(session!.joinCode, 'alice');
+    const bob = await gameService.joinSession(session!.joinCode, 'bob');
+    const carol = await gameService.joinSession(session!.joinCode, 'carol');
+    expect(alice && bob && carol).toBeTruthy();
+
+    // 같은 이름은 숫자를 붙여 참가
+    const duplicate = await gameService.joinSession(session!.joinCode, 'alice');
+    expect(duplicate!.player.name).toBe('alice2');
+    expect(duplicate!.nameChanged?.code).toBe('duplicate');
+
+    expect(await gameService.startGame(sessionId, DEMO_HOST_ID)).toBe(true);
+
+    for (let index = 0; index < demoQuestions.length; index++) {
+      const active = await gameService.nextQuestion(sessionId, DEMO_HOST_ID);
+      expect(active?.questionIndex).toBe(index + 1);
+
+      const question = active!.question as SingleChoiceQuestion;
+      const wrongChoice = (question.correctAnswer + 1) % question.choices.length;
+
+      const first = await gameService.submitAnswer(sessionId, alice!.player.id, { questionId: question.id, selectedChoice: question.correctAnswer });
+      const second = await gameService.submitAnswer(sessionId, bob!.player.id, { questionId: question.id, selectedChoice: question.correctAnswer });
+      const wrong = await gameService.submitAnswer(sessionId, carol!.player.id, { questionId: question.id, selectedChoice: wrongChoice });
+
+      expect(first).toMatchObject({ playerName: 'alice', isCorrect: true, rank: 1, totalCorrect: 1, streak: index + 1 });
+      expect(first!.points - first!.streakBonus).toBe(question.points);
+      expect(second).toMatchObject({ isCorrect: true, rank: 2, totalCorrect: 2 });
+      expect(second!.points).toBeLessThan(first!.points);
+      expect(wrong).toMatchObject({ isCorrect: false, points: 0, totalCorrect: 0, streak: 0 });
+
+      // 재전송은 처음 결과를 그대로 돌려주고 점수를 다시 주지 않음
+      const retry = await gameService.submitAnswer(sessionId, alice!.player.id, { questionId: question.id, selectedChoice: wrongChoice });
+      expect(retry).toEqual({ ...first, duplicate: true });
+    }
+
+    // 마지막 문제 다음에는 게임 종료
+    expect(await gameService.nextQuestion(sessionId, DEMO_HOST_ID)).toBeNull();
+    expect((await gameService.getSession(sessionId))!.status).toBe('finished');
+
+    const leaderboard = await gameService.getLeaderboard(sessionId);
+    expect(leaderboard.slice(0, 2).map(entry => entry.playerName)).toEqual(['alice', 'bob']);
+    expect(leaderboard.slice(2).map(entry => entry.score)).toEqual([0, 0]);
+
+    const result = await storage.getGameResult(sessionId);
+    expect(result).toMatchObject({ sessionId, quizId: DEMO_QUIZ_ID, totalParticipants: 4, totalQuestions: demoQuestions.length });
+    expect(result!.players?.find(player => player.playerId === alice!.player.id)?.answers).toHaveLength(demoQuestions.length);
+    expect(result!.questionStats.every(stat => stat.correctCount === 2 && stat.totalAnswers === 3)).toBe(true);
+  });
+
+  it('rejects answers for a question that is not open', async () => {
+    const session = await gameService.createSession(DEMO_HOST_ID, DEMO_QUIZ_ID);
+    const joined = await gameService.joinSession(session!.joinCode, 'dave');
+    await gameService.startGame(session!.id, DEMO_HOST_ID);
+    await gameService.nextQuestion(session!.id, DEMO_HOST_ID);
+
+    await expect(gameService.submitAnswer(session!.id, joined!.player.id, { questionId: demoQuestions[1].id, selectedChoice: 0 }))
+      .rejects.toMatchObject({ code: 'QUESTION_NOT_ACTIVE' });
+  });
+
+  it('shows answers in session results only to the host and to each player for their own entry', async () => {
+    const { sessionId, players: [erin, frank], question } = await openFirstQuestion(['erin', 'frank']);
+    await gameService.submitAnswer(sessionId, erin.id, { questionId: question.id, selectedChoice: question.correctAnswer });
+    await gameService.submitAnswer(sessionId, frank.id, { questionId: question.id, selectedChoice: question.correctAnswer });
+
+    const answerCounts = async (requester: Parameters<typeof gameService.getSessionResults>[1]) => {
+      const results = await gameService.getSessionResults(sessionId, requester);
+      return Object.fromEntries(results!.sessionData!.players.map(player => [player.name, player.answers.length]));
+    };
+
+    // 진행 중 세션과 저장된 결과 모두 같은 기준
+    for (const finished of [false, true]) {
+      if (finished) {
+        await gameService.finishGame(sessionId);
+      }
+      expect(await answerCounts(null)).toEqual({ erin: 0, frank: 0 });
+      expect(await answerCounts({ kind: 'player', sessionId, playerId: erin.id })).toEqual({ erin: 1, frank: 0 });
+      expect(await answerCounts({ kind: 'host', hostId: 'someone-else' })).toEqual({ erin: 0, frank: 0 });
+      expect(await answerCounts({ kind: 'host', hostId: DEMO_HOST_ID })).toEqual({ erin: 1, frank: 1 });
+    }
+  });
+
+  it('releases the answer claim when the answer cannot be saved so a retry is recorded', async () => {
+    const { sessionId, players: [gina, hank], question } = await openFirstQuestion(['gina', 'hank']);
+    const content = { questionId: question.id, selectedChoice: question.correctAnswer };
+
+    jest.spyOn(storage, 'updatePlayerAnswers').mockResolvedValueOnce(null);
+    expect(await gameService.submitAnswer(sessionId, gina.id, content)).toBeNull();
+    expect(await gameService.submitAnswer(sessionId, gina.id, content)).toMatchObject({ isCorrect: true, duplicate: undefined });
+
+    jest.spyOn(storage, 'incrementCorrectCount').mockResolvedValueOnce(null);
+    expect(await gameService.submitAnswer(sessionId, hank.id, content)).toBeNull();
+    expect(await gameService.submitAnswer(sessionId, hank.id, content)).toMatchObject({ isCorrect: true, duplicate: undefined });
+
+    const players = await storage.getSessionPlayers(sessionId);
+    expect(players.map(player => player.answers.length)).toEqual([1, 1]);
+  });
+
+  it('reapplies an answer on top of a player write made by another instance', async () => {
+    const { sessionId, players: [ivy], question } = await openFirstQuestion(['ivy']);
+    const otherWrite = { questionId: 'earlier-question', timeToAnswer: 1000, isCorrect: true, points: 50, submittedAt: new Date().toISOString() };
+
+    // 이 인스턴스가 플레이어를 읽은 뒤, 기록하기 직전에 다른 인스턴스가 같은 플레이어를 먼저 기록
+    const write = storage.updatePlayerAnswers.bind(storage);
+    jest.spyOn(storage, 'updatePlayerAnswers').mockImplementationOnce(async (...args) => {
+      expect(await write(sessionId, ivy.id, 0, { answers: [otherWrite], score: 50 })).toBe(true);
+      return write(...args);
+    });
+
+    const result = await gameService.submitAnswer(sessionId, ivy.id, { questionId: question.id, selectedChoice: question.correctAnswer });
+    const [saved] = await storage.getSessionPlayers(sessionId);
+    expect(saved.answers.map(answer => answer.questionId)).toEqual(['earlier-question', question.id]);
+    expect(saved.score).toBe(50 + result!.points);
+    expect(saved.answersVersion).toBe(2);
+  });
+
+  it('gives concurrent correct answers unique ranks and records each player once', async () => {
+    const names = Array.from({ length: 10 }, (_, index) => `racer${index}`);
+    const { sessionId, players, question } = await openFirstQuestion(names);
+    const content = { questionId: question.id, selectedChoice: question.correctAnswer };
+
+    // 모든 플레이어가 동시에 두 번씩 제출 (재전송)
+    const results = await Promise.all(players.flatMap(player => [
+      gameService.submitAnswer(sessionId, player.id, content),
+      gameService.submitAnswer(sessionId, player.id, content)
+    ]));
+
+    const firsts = results.filter(result => !result!.duplicate);
+    const duplicates = results.filter(result => result!.duplicate);
+    expect(firsts.map(result => result!.rank).sort((a, b) => a! - b!)).toEqual(names.map((_, index) => index + 1));
+    expect(duplicates).toHaveLength(players.length);
+
+    const saved = await storage.getSessionPlayers(sessionId);
+    saved.forEach(player => expect(player.answers).toHaveLength(1));
+  });
+});
+
+describe('pause, resume and time extension', () => {
+  const T0 = Date.parse('2026-03-01T09:00:00.000Z');
+
+  beforeAll(() => {
+    jest.spyOn(console, 'log').mockImplementation(() => {});
+    jest.spyOn(console, 'warn').mockImplementation(() => {});
+    jest.spyOn(console, 'error').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  afterAll(() => {
+    jest.restoreAllMocks();
+  });
+
+  // 시계만 고정 - 타이머와 프로미스는 그대로 둠
+  function freezeClock(now: number): void {
+    jest.useFakeTimers({ now, doNotFake: ['setTimeout', 'clearTimeout', 'setInterval', 'clearInterval', 'setImmediate', 'clearImmediate', 'nextTick', 'queueMicrotask'] });
+  }
+
+  it('keeps the remaining time across a pause and excludes the pause from answer time', async () => {
+    freezeClock(T0);
+    const { sessionId, players: [judy], question } = await openFirstQuestion(['judy']);
+    const limitMs = question.timeLimit * 1000;
+
+    jest.setSystemTime(T0 + 5000);
+    const paused = await gameService.pauseGame(sessionId, DEMO_HOST_ID);
+    expect(paused).toMatchObject({ paused: true, remainingMs: limitMs - 5000 });
+    await expect(gameService.submitAnswer(sessionId, judy.id, { questionId: question.id, selectedChoice: question.correctAnswer }))
+      .rejects.toMatchObject({ code: 'GAME_PAUSED' });
+
+    // 일시정지 중 연장은 남은 시간에 더함
+    const extendedWhilePaused = await gameService.extendTime(sessionId, DEMO_HOST_ID, 10);
+    expect(extendedWhilePaused).toMatchObject({ paused: true, remainingMs: limitMs + 5000, addedSeconds: 10 });
+
+    jest.setSystemTime(T0 + 65000);
+    const resumed = await gameService.resumeGame(sessionId, DEMO_HOST_ID);
+    expect(resumed).toMatchObject({ paused: false, remainingMs: limitMs + 5000 });
+    expect(resumed!.deadline).toBe(new Date(T0 + 65000 + limitMs + 5000).toISOString());
+
+    const extended = await gameService.extendTime(sessionId, DEMO_HOST_ID, 5);
+    expect(extended!.deadline).toBe(new Date(T0 + 65000 + limitMs + 10000).toISOString());
+
+    // 시작 후 6초 (일시정지 60초 제외) 만에 답변
+    jest.setSystemTime(T0 + 66000);
+    const answer = await gameService.submitAnswer(sessionId, judy.id, { questionId: question.id, selectedChoice: question.correctAnswer });
+    expect(answer!.timeToAnswer).toBe(6000);
+  });
+
+  it('rejects clock changes that do not match the game state', async () => {
+    const { sessionId } = await openFirstQuestion(['kate']);
+    await expect(gameService.resumeGame(sessionId, DEMO_HOST_ID)).rejects.toMatchObject({ code: 'GAME_NOT_PAUSED' });
+
+    await gameService.pauseGame(sessionId, DEMO_HOST_ID);
+    await expect(gameService.pauseGame(sessionId, DEMO_HOST_ID)).rejects.toMatchObject({ code: 'GAME_PAUSED' });
+    await expect(gameService.pauseGame(sessionId, 'not-the-host')).rejects.toMatchObject({ code: 'FORBIDDEN' });
+  });
+
+  it('does not write an old question clock over a question opened at the same time', async () => {
+    const { sessionId } = await openFirstQuestion(['liam']);
+
+    // 연장이 먼저 잠금을 잡으므로 다음 문제는 연장이 끝난 뒤의 세션에서 열림
+    const [, next] = await Promise.all([
+      gameService.extendTime(sessionId, DEMO_HOST_ID, 30),
+      gameService.nextQuestion(sessionId, DEMO_HOST_ID)
+    ]);
+    const session = await gameService.getSession(sessionId);
+    expect(session!.questionDeadline).toBe(next!.deadline);
+
+    // 다음 문제로 넘어간 뒤 재개 요청은 이전 문제의 일시정지 상태를 되살리지 않음
+    await gameService.pauseGame(sessionId, DEMO_HOST_ID);
+    const [resumed, third] = await Promise.all([
+      gameService.resumeGame(sessionId, DEMO_HOST_ID),
+      gameService.nextQuestion(sessionId, DEMO_HOST_ID)
+    ]);
+    expect(resumed!.questionIndex).toBe(2);
+    expect(third?.questionIndex).toBe(3);
+    expect((await gameService.getSession(sessionId))!.questionDeadline).toBe(third!.deadline);
+  });
+});
+
+describe('host navigation', () => {
+  beforeAll(() => {
+    jest.spyOn(console, 'log').mockImplementation(() => {});
+    jest.spyOn(console, 'warn').mockImplementation(() => {});
+    jest.spyOn(console, 'error').mockImplementation(() => {});
+  });
+
+  afterAll(() => {
+    jest.restoreAllMocks();
+  });
+
+  async function playerOf(sessionId: string, playerId: string): Promise<Player> {
+    return (await storage.getSessionPlayers(sessionId)).find(player => player.id === playerId)!;
+  }
+
+  it('skips the current question and revokes its points', async () => {
+    const { sessionId, players: [mia], question } = await openFirstQuestion(['mia']);
+    const content = { questionId: question.id, selectedChoice: question.correctAnswer };
+    await gameService.submitAnswer(sessionId, mia.id, content);
+
+    expect(await gameService.skipQuestion(sessionId, DEMO_HOST_ID)).toEqual({ questionId: question.id, questionIndex: 1 });
+    expect(await playerOf(sessionId, mia.id)).toMatchObject({ score: 0, answers: [] });
+    await expect(gameService.submitAnswer(sessionId, mia.id, content)).rejects.toMatchObject({ code: 'QUESTION_NOT_ACTIVE' });
+    await expect(gameService.skipQuestion(sessionId, DEMO_HOST_ID)).rejects.toMatchObject({ code: 'QUESTION_SKIPPED' });
+
+    expect((await gameService.nextQuestion(sessionId, DEMO_HOST_ID))?.questionIndex).toBe(2);
+  });
+
+  it('repeats the current question with fresh answers and ranks', async () => {
+    const { sessionId, players: [noah], question } = await openFirstQuestion(['noah']);
+    const content = { questionId: question.id, selectedChoice: question.correctAnswer };
+    const first = await gameService.submitAnswer(sessionId, noah.id, content);
+
+    const repeated = await gameService.repeatQuestion(sessionId, DEMO_HOST_ID);
+    expect(repeated).toMatchObject({ questionIndex: 1, reopened: true });
+    expect(await playerOf(sessionId, noah.id)).toMatchObject({ score: 0, answers: [] });
+
+    const again = await gameService.submitAnswer(sessionId, noah.id, content);
+    expect(again).toMatchObject({ rank: 1, points: first!.points, duplicate: undefined });
+    expect((await playerOf(sessionId, noah.id)).score).toBe(first!.points);
+  });
+
+  it('jumps to a question and continues from there', async () => {
+    const { sessionId, players: [olga], question } = await openFirstQuestion(['olga']);
+    await gameService.submitAnswer(sessionId, olga.id, { questionId: question.id, selectedChoice: question.correctAnswer });
+
+    expect(await gameService.gotoQuestion(sessionId, DEMO_HOST_ID, 4)).toMatchObject({ questionIndex: 4, reopened: undefined });
+    expect((await gameService.nextQuestion(sessionId, DEMO_HOST_ID))?.questionIndex).toBe(5);
+
+    // 이미 낸 문제로 돌아가면 그 문제의 답변만 초기화
+    expect(await gameService.gotoQuestion(sessionId, DEMO_HOST_ID, 1)).toMatchObject({ questionIndex: 1, reopened: true });
+    expect((await playerOf(sessionId, olga.id)).answers).toEqual([]);
+    expect((await gameService.nextQuestion(sessionId, DEMO_HOST_ID))?.questionIndex).toBe(2);
+  });
+
+  it('rejects invalid targets and navigation while paused or by another host', async () => {
+    const { sessionId } = await openFirstQuestion(['pia']);
+
+    for (const index of [0, demoQuestions.length + 1, 1.5]) {
+      await expect(gameService.gotoQuestion(sessionId, DEMO_HOST_ID, index)).rejects.toMatchObject({ code: 'INVALID_QUESTION_INDEX' });
+    }
+    await expect(gameService.repeatQuestion(sessionId, 'not-the-host')).rejects.toMatchObject({ code: 'FORBIDDEN' });
+
+    await gameService.pauseGame(sessionId, DEMO_HOST_ID);
+    await expect(gameService.skipQuestion(sessionId, DEMO_HOST_ID)).rejects.toMatchObject({ code: 'GAME_PAUSED' });
+    await expect(gameService.gotoQuestion(sessionId, DEMO_HOST_ID, 2)).rejects.toMatchObject({ code: 'GAME_PAUSED' });
+  });
+});
+
+describe('kick and ban', () => {
+  beforeAll(() => {
+    jest.spyOn(console, 'log').mockImplementation(() => {});
+    jest.spyOn(console, 'warn').mockImplementation(() => {});
+    jest.spyOn(console, 'error').mockImplementation(() => {});
+  });
+
+  afterAll(() => {
+    jest.restoreAllMocks();
+  });
+
+  async function lobbyWith(name: string, deviceId?: string) {
+    const session = await gameService.createSession(DEMO_HOST_ID, DEMO_QUIZ_ID);
+    const joined = await gameService.joinSession(session!.joinCode, name, { deviceId });
+    return { session: session!, player: joined!.player };
+  }
+
+  it('removes a kicked player who may join again', async () => {
+    const { session, player } = await lobbyWith('quinn');
+
+    expect(await gameService.kickPlayer(session.id, DEMO_HOST_ID, player.id, false)).toMatchObject({ id: player.id });
+    expect(await gameService.getSessionPlayers(session.id)).toEqual([]);
+    expect((await gameService.joinSession(session.joinCode, 'quinn'))!.player.name).toBe('quinn');
+  });
+
+  it('blocks a banned player by name, device and resume', async () => {
+    const { session, player } = await lobbyWith('rosa', 'device-1');
+    await gameService.kickPlayer(session.id, DEMO_HOST_ID, player.id, true);
+
+    // 이름은 대소문자/전각 변형까지 같은 이름으로 취급
+    await expect(gameService.joinSession(session.joinCode, 'ＲＯＳＡ')).rejects.toMatchObject({ code: 'PLAYER_BANNED' });
+    await expect(gameService.joinSession(session.joinCode, 'other', { deviceId: 'device-1' })).rejects.toMatchObject({ code: 'PLAYER_BANNED' });
+    await expect(gameService.resumeSession(session.id, player.id)).rejects.toMatchObject({ code: 'PLAYER_BANNED' });
+    expect(await gameService.joinSession(session.joinCode, 'other', { deviceId: 'device-2' })).not.toBeNull();
+  });
+
+  it('only lets the session host kick players that are still in the session', async () => {
+    const { session, player } = await lobbyWith('sam');
+
+    await expect(gameService.kickPlayer(session.id, 'not-the-host', player.id, true)).rejects.toMatchObject({ code: 'FORBIDDEN' });
+    await expect(gameService.kickPlayer(session.id, DEMO_HOST_ID, 'missing', false)).rejects.toMatchObject({ code: 'PLAYER_NOT_FOUND' });
+    await expect(gameService.kickPlayer('missing', DEMO_HOST_ID, player.id, false)).rejects.toMatchObject({ code: 'SESSION_NOT_FOUND' });
+    expect(await gameService.getSessionPlayers(session.id)).toHaveLength(1);
+  });
+});
+
+describe('lobby capacity and lock', () => {
+  beforeAll(() => {
+    jest.spyOn(console, 'log').mockImplementation(() => {});
+    jest.spyOn(console, 'warn').mockImplementation(() => {});
+    jest.spyOn(console, 'error').mockImplementation(() => {});
+  });
+
+  afterAll(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('admits no more than maxPlayers even when players join at the same time', async () => {
+    const session = await gameService.createSession(DEMO_HOST_ID, DEMO_QUIZ_ID, { maxPlayers: 3 });
+
+    const attempts = await Promise.allSettled(
+      Array.from({ length: 6 }, (_, index) => gameService.joinSession(session!.joinCode, `crowd${index}`))
+    );
+    const joined = attempts.filter(attempt => attempt.status === 'fulfilled' && attempt.value);
+    const rejected = attempts.filter(attempt => attempt.status === 'rejected');
+    expect(joined).toHaveLength(3);
+    expect(rejected.map(attempt => (attempt as PromiseRejectedResult).reason.code)).toEqual(['SESSION_FULL', 'SESSION_FULL', 'SESSION_FULL']);
+
+    const full = (await gameService.getSession(session!.id))!;
+    expect(gameService.getLobbyStatus(full)).toEqual({ locked: false, playerCount: 3, maxPlayers: 3 });
+
+    // 추방하면 자리가 다시 남
+    const [first] = await gameService.getSessionPlayers(session!.id);
+    await gameService.kickPlayer(session!.id, DEMO_HOST_ID, first.id, false);
+    expect(await gameService.joinSession(session!.joinCode, 'latecomer')).not.toBeNull();
+  });
+
+  it('blocks new players while locked but lets joined players resume', async () => {
+    const session = await gameService.createSession(DEMO_HOST_ID, DEMO_QUIZ_ID);
+    const joined = await gameService.joinSession(session!.joinCode, 'tara');
+
+    expect(await gameService.setLobbyLocked(session!.id, DEMO_HOST_ID, true)).toMatchObject({ locked: true, playerCount: 1 });
+    await expect(gameService.joinSession(session!.joinCode, 'uma')).rejects.toMatchObject({ code: 'LOBBY_LOCKED' });
+    expect((await gameService.resumeSession(session!.id, joined!.player.id))!.player.name).toBe('tara');
+
+    await expect(gameService.setLobbyLocked(session!.id, 'not-the-host', false)).rejects.toMatchObject({ code: 'FORBIDDEN' });
+    await gameService.setLobbyLocked(session!.id, DEMO_HOST_ID, false);
+    expect(await gameService.joinSession(session!.joinCode, 'uma')).not.toBeNull();
+  });
+});
@@ -1,6 +1,17 @@
 import { v4 as uuidv4 } from 'uuid';
-import dynamoService from './dynamodb';
-import type { GameResult } from './dynamodb';
+import storage from './storage';
+import { GameError } from './errors';
+import { isDemoQuiz } from '../demoData';
+import { validateQuiz } from '../validation/quizValidator';
+import { DEFAULT_SESSION_SETTINGS, getScoringStrategy } from './scoring';
+import { assignTeam, buildTeamLeaderboard, resolveTeamMode } from './teams';
+import { buildPlayerRecap } from './recap';
+import { nicknameKey, resolveNickname } from './nicknamePolicy';
+import { computeStreak, getStreakMultiplier } from './streaks';
+import { getAskedQuestionIds, getCurrentQuestion, isQuestionSkipped, markQuestionAsked, markQuestionSkipped } from './questionFlow';
+import { createShuffleSeed, getChoiceOrder, getChoiceShuffleSeed, seededShuffle, toCanonicalAnswer, toPlayerQuestion } from './shuffle';
+import { KeyedMutex } from './keyedMutex';
+import { describeCorrectAnswer, getCorrectAnswer, getQuestionType, isAnswerCorrect, parseAnswer } from './questionTypes';
 import { 
   GameSession, 
   Player, 
@@ -8,26 +19,105 @@ import {
   Question, 
   PlayerAnswer, 
   LeaderboardEntry, 
-  SessionData 
+  SessionData,
+  ActiveQuestion,
+  AnswerResult,
+  SessionResults,
+  SubmitAnswerContent,
+  SessionSettingsInput,
+  TeamLeaderboardEntry,
+  PlayerRecap,
+  SessionBan,
+  LobbyStatusContent,
+  NameChangeNotice,
+  GameClockContent,
+  GamePausedContent,
+  TimeExtendedContent,
+  GameResult
 } from '../types';
 
+export interface JoinOptions {
+  teamId?: string;
+  deviceId?: string;
+}
+
+// 리캡 조회 주체 - 플레이어 본인 또는 호스트
+export type RecapRequester =
+  | { kind: 'player'; sessionId: string; playerId: string }
+  | { kind: 'host'; hostId: string };
+
+// 제한시간 이후에도 네트워크 지연을 감안해 허용하는 유예 시간
+const ANSWER_GRACE_MS = parseInt(process.env.ANSWER_GRACE_MS || '1500', 10);
+
+// 세션당 최대 인원 - 호스트 설정(maxPlayers)도 이 값을 넘을 수 없음 (방 폭주 방지)
+const MAX_PLAYERS_PER_SESSION = parseInt(process.env.MAX_PLAYERS_PER_SESSION || '500', 10);
+
+// 게임 결과 저장 재시도 횟수와 간격 (시도할 때마다 간격을 늘림)
+const RESULT_SAVE_ATTEMPTS = 3;
+const RESULT_SAVE_RETRY_DELAY_MS = 500;
+
+// 답변/점수 기록이 다른 기록과 겹쳤을 때 다시 읽어서 재적용하는 최대 횟수
+const PLAYER_WRITE_ATTEMPTS = 5;
+
+// 플레이어 답변 열람 권한 - 세션 호스트는 모두, 플레이어는 본인 것만
+function canViewAnswers(requester: RecapRequester | null, sessionId: string, hostId: string, playerId: string): boolean {
+  if (!requester) {
+    return false;
+  }
+  if (requester.kind === 'host') {
+    return requester.hostId === hostId;
+  }
+  return requester.sessionId === sessionId && requester.playerId === playerId;
+}
+
 class GameService {
+  // 세션별 직렬 실행 - 이 인스턴스 안에서 답변 기록과 답변 초기화(건너뛰기/다시 열기)가 서로 덮어쓰지 않도록
+  // 다른 인스턴스와의 동시 기록은 플레이어 답변의 버전 조건부 쓰기(writePlayerAnswers)로 막음
+  private sessionLocks = new KeyedMutex();
+
   private generateJoinCode(): string {
     return Math.random().toString(36).substring(2, 8).toUpperCase();
   }
 
-  async createSession(hostId: string, quizId: string): Promise<GameSession | null> {
-    console.log(`🏗️ GAME_SERVICE: createSession called with hostId=${hostId}, quizId=${quizId}`);
+  async createSession(hostId: string, quizId: string, settings?: SessionSettingsInput): Promise<GameSession | null> {
+    console.log(`🏗️ GAME_SERVICE: createSession called with hostId=${hostId}, quizId=${quizId}, settings=${JSON.stringify(settings ?? {})}`);
     
     try {
       console.log(`📚 GAME_SERVICE: Fetching quiz from DynamoDB...`);
       // Get quiz from DynamoDB
-      const quiz = await dynamoService.getQuiz(quizId);
+      const quiz = await storage.getQuiz(quizId);
       console.log(`📚 GAME_SERVICE: Quiz fetch result:`, quiz ? 'FOUND' : 'NOT_FOUND');
       
       if (!quiz) {
         console.error(`❌ GAME_SERVICE: Quiz ${quizId} not found in DynamoDB`);
-        return null;
+        throw new GameError('QUIZ_NOT_FOUND', `Quiz ${quizId} not found`);
+      }
+
+      // 퀴즈 제작자만 세션을 열 수 있음 (데모 퀴즈는 인증된 호스트 누구나)
+      if (quiz.creatorId !== hostId && !isDemoQuiz(quizId)) {
+        console.error(`❌ GAME_SERVICE: Host ${hostId} is not the creator of quiz ${quizId}`);
+        throw new GameError('FORBIDDEN', 'Only the quiz creator can host this quiz');
+      }
+
+      // 진행 중에 깨지지 않도록 세션 시작 전에 퀴즈 검증
+      const validation = validateQuiz(quiz, { requireIds: true });
+      if (!validation.valid) {
+        console.error(`❌ GAME_SERVICE: Quiz ${quizId} is invalid:`, validation.errors);
+        throw new GameError('QUIZ_INVALID', `Quiz has ${validation.errors.length} problem(s) and cannot be hosted`, {
+          errors: validation.errors,
+          warnings: validation.warnings
+        });
+      }
+      if (validation.warnings.length > 0) {
+        console.warn(`⚠️ GAME_SERVICE: Quiz ${quizId} has ${validation.warnings.length} warnings:`, validation.warnings);
+      }
+
+      // 팀 설정 검증 및 팀 생성 (팀전이 아니면 개인전)
+      const { teamMode: teamModeOptions, ...baseSettings } = settings ?? {};
+      const teamMode = teamModeOptions ? resolveTeamMode(teamModeOptions) : undefined;
+      const maxPlayers = Math.min(baseSettings.maxPlayers ?? MAX_PLAYERS_PER_SESSION, MAX_PLAYERS_PER_SESSION);
+      if (baseSettings.maxPlayers !== undefined && baseSettings.maxPlayers > maxPlayers) {
+        console.warn(`⚠️ GAME_SERVICE: maxPlayers ${baseSettings.maxPlayers} exceeds server limit, using ${maxPlayers}`);
       }
 
       console.log(`🎲 GAME_SERVICE: Starting join code generation...`);
@@ -40,7 +130,7 @@ class GameService {
         joinCode = this.generateJoinCode();
         console.log(`🎲 GAME_SERVICE: Generated join code attempt ${attempts + 1}: ${joinCode}`);
         
-        const existingSession = await dynamoService.getSessionByJoinCode(joinCode);
+        const existingSession = await storage.getSessionByJoinCode(joinCode);
         isUnique = !existingSession;
         console.log(`🔍 GAME_SERVICE: Join code uniqueness check: ${isUnique ? 'UNIQUE' : 'DUPLICATE'}`);
         
@@ -56,6 +146,12 @@ class GameService {
 
       const sessionId = uuidv4();
       console.log(`🆔 GAME_SERVICE: Generated session ID: ${sessionId}`);
+
+      // 문제 순서 섞기 - 세션에 담긴 퀴즈 사본만 바꾸므로 원본 퀴즈는 그대로
+      const shuffleSeed = createShuffleSeed();
+      const sessionQuiz = baseSettings.shuffleQuestions
+        ? { ...quiz, questions: seededShuffle(quiz.questions, shuffleSeed) }
+        : quiz;
       
       const session: GameSession = {
         id: sessionId,
@@ -66,31 +162,39 @@ class GameService {
         currentQuestionIndex: 0,
         players: [],
         createdAt: new Date().toISOString(),
-        quiz
+        quiz: sessionQuiz,
+        settings: { ...DEFAULT_SESSION_SETTINGS, ...baseSettings, teamMode, maxPlayers },
+        lobbyLocked: false,
+        playerCount: 0,
+        shuffleSeed
       };
 
       console.log(`💾 GAME_SERVICE: Saving session to DynamoDB...`);
       // Save to DynamoDB
-      await dynamoService.saveSession(session);
+      await storage.saveSession(session);
       console.log(`💾 GAME_SERVICE: Setting join code mapping...`);
-      await dynamoService.setJoinCode(joinCode!, sessionId);
+      await storage.setJoinCode(joinCode!, sessionId);
       console.log(`✅ GAME_SERVICE: Session created and saved successfully`);
 
       return session;
     } catch (error) {
       console.error(`❌ GAME_SERVICE: Error creating session:`, error);
       console.error(`❌ GAME_SERVICE: Error stack:`, error instanceof Error ? error.stack : 'No stack trace');
+      if (error instanceof GameError) {
+        throw error;
+      }
       return null;
     }
   }
 
-  async joinSession(joinCode: string, playerName: string): Promise<{ session: GameSession; player: Player } | null> {
-    console.log(`🎮 GAME_SERVICE: joinSession called with joinCode=${joinCode}, playerName=${playerName}`);
+  async joinSession(joinCode: string, playerName: string, options: JoinOptions = {}): Promise<{ session: GameSession; player: Player; nameChanged?: NameChangeNotice } | null> {
+    const { teamId, deviceId } = options;
+    console.log(`🎮 GAME_SERVICE: joinSession called with joinCode=${joinCode}, playerName=${playerName}, teamId=${teamId ?? '-'}`);
     
     try {
       console.log(`🔍 GAME_SERVICE: Looking up session by join code...`);
       // Get session by join code
-      const sessionId = await dynamoService.getSessionByJoinCode(joinCode);
+      const sessionId = await storage.getSessionByJoinCode(joinCode);
       console.log(`🔍 GAME_SERVICE: Join code lookup result:`, sessionId ? sessionId : 'NOT_FOUND');
       
       if (!sessionId) {
@@ -99,7 +203,7 @@ class GameService {
       }
 
       console.log(`📋 GAME_SERVICE: Fetching session details for ${sessionId}...`);
-      const session = await dynamoService.getSession(sessionId);
+      const session = await storage.getSession(sessionId);
       console.log(`📋 GAME_SERVICE: Session fetch result:`, session ? 'FOUND' : 'NOT_FOUND');
       
       if (!session) {
@@ -114,31 +218,36 @@ class GameService {
         throw new Error('Game has already started');
       }
 
+      if (session.lobbyLocked) {
+        console.warn(`🔒 GAME_SERVICE: Lobby of session ${sessionId} is locked, rejecting ${playerName}`);
+        throw new GameError('LOBBY_LOCKED', 'The host has locked this lobby');
+      }
+
+      // 추방 시 차단된 기기/이름인지 확인 (서버 배정 이름 모드에서는 기기로만 확인)
+      const nicknameMode = session.settings?.nicknameMode ?? 'custom';
+      const requestedName = nicknameMode === 'custom' ? playerName : undefined;
+      if (this.findBan(session, { name: requestedName, deviceId })) {
+        console.warn(`🚫 GAME_SERVICE: Banned player tried to rejoin session ${sessionId} as "${playerName}"`);
+        throw new GameError('PLAYER_BANNED', 'You have been removed from this session by the host');
+      }
+
       console.log(`👥 GAME_SERVICE: Getting current players for session ${sessionId}...`);
       // Get current players
-      let players = await dynamoService.getSessionPlayers(sessionId);
+      let players = await storage.getSessionPlayers(sessionId);
       console.log(`👥 GAME_SERVICE: Found ${players.length} existing players`);
 
-      // Check if player name is already taken and generate unique name
-      let uniquePlayerName = playerName;
-      let nameCounter = 1;
-      
-      while (players.find(p => p.name === uniquePlayerName)) {
-        nameCounter++;
-        uniquePlayerName = `${playerName}${nameCounter}`;
-        console.log(`🔄 GAME_SERVICE: Trying alternative name: ${uniquePlayerName}`);
-      }
-      
-      if (uniquePlayerName !== playerName) {
-        console.log(`✏️ GAME_SERVICE: Player name changed from "${playerName}" to "${uniquePlayerName}" to avoid duplicates`);
+      // 닉네임 정책 적용 - 정규화/금칙어 검사 후 중복이면 숫자 추가 (generated 모드는 서버가 배정)
+      const { name: uniquePlayerName, nameChanged } = resolveNickname(playerName, players.map(p => p.name), nicknameMode);
+      if (nameChanged) {
+        console.log(`✏️ GAME_SERVICE: Player name changed from "${playerName}" to "${uniquePlayerName}" (${nameChanged.code})`);
       }
 
-      // 대안: 고유 식별자 사용
-      // const shortId = Math.random().toString(36).substring(2, 6).toUpperCase();
-      // if (players.find(p => p.name === playerName)) {
-      //   uniquePlayerName = `${playerName} #${shortId}`;
-      //   console.log(`✏️ GAME_SERVICE: Added unique identifier: ${uniquePlayerName}`);
-      // }
+      // 팀전이면 팀 배정 (요청한 팀 또는 인원이 가장 적은 팀)
+      const teamMode = session.settings?.teamMode;
+      const team = teamMode ? assignTeam(teamMode, players, teamId) : undefined;
+      if (team) {
+        console.log(`👥 GAME_SERVICE: Assigned to team ${team.name} (${team.id})`);
+      }
 
       // Create new player
       const playerId = uuidv4();
@@ -151,30 +260,112 @@ class GameService {
         score: 0,
         answers: [],
         isOnline: true,
+        teamId: team?.id,
+        deviceId,
         joinedAt: new Date().toISOString()
       };
 
+      // 정원 확인 - 동시 참가에서도 초과하지 않도록 저장소에서 원자적으로 슬롯 예약
+      const maxPlayers = this.getMaxPlayers(session);
+      const reserved = await storage.reservePlayerSlot(sessionId, maxPlayers);
+      if (!reserved) {
+        console.warn(`🈵 GAME_SERVICE: Session ${sessionId} is full (${maxPlayers} players)`);
+        throw new GameError('SESSION_FULL', 'This session is full', { maxPlayers });
+      }
+
       console.log(`💾 GAME_SERVICE: Saving new player to DynamoDB...`);
       // Save player to DynamoDB
-      await dynamoService.savePlayer(sessionId, player);
+      const saved = await storage.savePlayer(sessionId, player);
+      if (!saved) {
+        await storage.releasePlayerSlot(sessionId);
+        throw new Error('Failed to save player');
+      }
       console.log(`✅ GAME_SERVICE: Player saved to DynamoDB successfully`);
 
       // Update session with current players
       session.players = [...players, player];
       console.log(`📊 GAME_SERVICE: Updated session players count: ${session.players.length}`);
 
-      console.log(`🎉 GAME_SERVICE: Player ${playerName} successfully joined session ${sessionId}`);
-      return { session, player };
+      console.log(`🎉 GAME_SERVICE: Player ${uniquePlayerName} successfully joined session ${sessionId}`);
+      return { session, player, nameChanged };
     } catch (error) {
       console.error('❌ GAME_SERVICE: Error joining session:', error);
       console.error('❌ GAME_SERVICE: Error stack:', error instanceof Error ? error.stack : 'No stack trace');
+      if (error instanceof GameError) {
+        throw error;
+      }
+      return null;
+    }
+  }
+
+  async resumeSession(sessionId: string, playerId: string): Promise<{ session: GameSession; player: Player } | null> {
+    console.log(`🔁 GAME_SERVICE: resumeSession called for session ${sessionId}, player ${playerId}`);
+
+    try {
+      const session = await storage.getSession(sessionId);
+      if (!session) {
+        console.error(`❌ GAME_SERVICE: Session not found: ${sessionId}`);
+        throw new Error('Session not found');
+      }
+
+      if (session.status === 'finished') {
+        console.error(`❌ GAME_SERVICE: Cannot resume finished session ${sessionId}`);
+        throw new Error('Game has already finished');
+      }
+
+      if (this.findBan(session, { playerId })) {
+        console.warn(`🚫 GAME_SERVICE: Banned player ${playerId} tried to resume session ${sessionId}`);
+        throw new GameError('PLAYER_BANNED', 'You have been removed from this session by the host');
+      }
+
+      const players = await storage.getSessionPlayers(sessionId);
+      const player = players.find(p => p.id === playerId);
+      if (!player) {
+        console.error(`❌ GAME_SERVICE: Player ${playerId} not found in session ${sessionId}`);
+        throw new Error('Player not found');
+      }
+
+      // 기존 점수와 답변은 그대로 두고 온라인 상태만 갱신
+      player.isOnline = true;
+      await storage.updatePlayer(sessionId, playerId, { isOnline: true });
+
+      session.players = players;
+      console.log(`✅ GAME_SERVICE: Player ${player.name} resumed session ${sessionId} (score: ${player.score}, answers: ${player.answers.length})`);
+      return { session, player };
+    } catch (error) {
+      console.error('❌ GAME_SERVICE: Error resuming session:', error);
+      if (error instanceof GameError) {
+        throw error;
+      }
+      return null;
+    }
+  }
+
+  async setPlayerOnline(sessionId: string, playerId: string, isOnline: boolean): Promise<Player | null> {
+    try {
+      const players = await storage.getSessionPlayers(sessionId);
+      const player = players.find(p => p.id === playerId);
+      if (!player) {
+        console.warn(`⚠️ GAME_SERVICE: Player ${playerId} not found in session ${sessionId} for presence update`);
+        return null;
+      }
+
+      if (player.isOnline !== isOnline) {
+        player.isOnline = isOnline;
+        await storage.updatePlayer(sessionId, playerId, { isOnline });
+        console.log(`📶 GAME_SERVICE: Player ${player.name} is now ${isOnline ? 'online' : 'offline'} in session ${sessionId}`);
+      }
+
+      return player;
+    } catch (error) {
+      console.error('Error updating player presence:', error);
       return null;
     }
   }
 
   async startGame(sessionId: string, hostId: string): Promise<boolean> {
     try {
-      const session = await dynamoService.getSession(sessionId);
+      const session = await storage.getSession(sessionId);
       if (!session) {
         throw new Error('Session not found');
       }
@@ -187,13 +378,13 @@ class GameService {
         throw new Error('Game has already started');
       }
 
-      const players = await dynamoService.getSessionPlayers(sessionId);
+      const players = await storage.getSessionPlayers(sessionId);
       if (players.length === 0) {
         throw new Error('No players joined');
       }
 
       // Update session status
-      await dynamoService.updateSession(sessionId, { 
+      await storage.updateSession(sessionId, { 
         status: 'active', 
         startedAt: new Date().toISOString() 
       });
@@ -205,11 +396,15 @@ class GameService {
     }
   }
 
-  async nextQuestion(sessionId: string, hostId: string): Promise<Question | null> {
+  // 문제 전환은 세션 잠금 안에서 최신 세션을 읽어 처리 - 동시에 들어온 이동/답변과 겹치지 않도록
+  async nextQuestion(sessionId: string, hostId: string): Promise<ActiveQuestion | null> {
     console.log(`❓ GAME_SERVICE: nextQuestion called for session ${sessionId} by host ${hostId}`);
-    
+    return this.sessionLocks.runExclusive(sessionId, () => this.advanceQuestion(sessionId, hostId));
+  }
+
+  private async advanceQuestion(sessionId: string, hostId: string): Promise<ActiveQuestion | null> {
     try {
-      const session = await dynamoService.getSession(sessionId);
+      const session = await storage.getSession(sessionId);
       if (!session) {
         console.error(`❌ GAME_SERVICE: Session ${sessionId} not found`);
         throw new Error('Session not found');
@@ -220,6 +415,10 @@ class GameService {
         throw new Error('Only host can control questions');
       }
 
+      if (session.status === 'paused') {
+        throw new GameError('GAME_PAUSED', 'Resume the game before moving to the next question');
+      }
+
       if (session.status !== 'active') {
         console.error(`❌ GAME_SERVICE: Game is not active. Current status: ${session.status}`);
         throw new Error('Game is not active');
@@ -233,8 +432,12 @@ class GameService {
 
       console.log(`📊 GAME_SERVICE: Current question index: ${session.currentQuestionIndex}, Total questions: ${quiz.questions.length}`);
       
-      // 현재 인덱스의 문제를 반환하고, 다음 호출을 위해 인덱스 증가
-      const currentIndex = session.currentQuestionIndex;
+      // 현재 인덱스부터 아직 내지 않은 문제를 반환 (goto로 되돌아간 뒤에도 이미 낸 문제의 답변을 지우지 않도록)
+      const askedOrSkipped = new Set([...getAskedQuestionIds(session), ...(session.skippedQuestionIds ?? [])]);
+      let currentIndex = session.currentQuestionIndex;
+      while (currentIndex < quiz.questions.length && askedOrSkipped.has(quiz.questions[currentIndex].id)) {
+        currentIndex++;
+      }
       
       if (currentIndex >= quiz.questions.length) {
         console.log(`🏁 GAME_SERVICE: All questions completed. Finishing game.`);
@@ -242,31 +445,433 @@ class GameService {
         return null;
       }
 
-      const question = quiz.questions[currentIndex];
-      console.log(`❓ GAME_SERVICE: Serving question: ${question.id} - "${question.text}"`);
-      
-      // 다음 문제를 위해 인덱스 증가
-      const nextIndex = currentIndex + 1;
-      await dynamoService.updateSession(sessionId, { currentQuestionIndex: nextIndex });
-      console.log(`💾 GAME_SERVICE: Updated currentQuestionIndex from ${currentIndex} to ${nextIndex}`);
-
-      return question;
+      return await this.openQuestion(session, currentIndex);
     } catch (error) {
       console.error('❌ GAME_SERVICE: Error getting next question:', error);
+      if (error instanceof GameError) {
+        throw error;
+      }
       return null;
     }
   }
 
-  async submitAnswer(sessionId: string, playerId: string, questionId: string, selectedChoice: number, timeToAnswer: number): Promise<{ isCorrect: boolean; points: number; questionId: string; rank?: number; totalCorrect?: number } | null> {
-    console.log(`📝 GAME_SERVICE: submitAnswer called for session ${sessionId}, player ${playerId}, question ${questionId}, choice ${selectedChoice}`);
-    
+  // 현재 문제를 점수 없이 닫음 - 이미 받은 답변의 점수는 취소
+  async skipQuestion(sessionId: string, hostId: string): Promise<{ questionId: string; questionIndex: number } | null> {
+    console.log(`⏭️ GAME_SERVICE: skipQuestion called for session ${sessionId}`);
+
+    try {
+      // 세션 확인부터 답변 취소와 건너뜀 표시까지 세션 잠금 안에서 처리 - 그 사이에 새 답변이나 문제 전환이 끼어들지 않도록
+      return await this.sessionLocks.runExclusive(sessionId, async () => {
+        const session = await this.getNavigableSession(sessionId, hostId);
+        const current = getCurrentQuestion(session);
+        if (!current) {
+          throw new GameError('QUESTION_NOT_ACTIVE', 'No question has been asked yet');
+        }
+        if (isQuestionSkipped(session, current.question.id)) {
+          throw new GameError('QUESTION_SKIPPED', 'Question has already been skipped');
+        }
+
+        const cleared = await this.clearQuestionAnswers(sessionId, current.question.id);
+        const updated = await storage.updateSession(sessionId, {
+          ...markQuestionSkipped(session, current.question.id),
+          questionDeadline: new Date().toISOString()
+        });
+        if (!updated) {
+          throw new Error('Failed to skip question');
+        }
+
+        console.log(`✅ GAME_SERVICE: Skipped question ${current.question.id} in session ${sessionId} (${cleared} answers discarded)`);
+        return { questionId: current.question.id, questionIndex: current.questionIndex };
+      });
+    } catch (error) {
+      console.error('❌ GAME_SERVICE: Error skipping question:', error);
+      if (error instanceof GameError) {
+        throw error;
+      }
+      return null;
+    }
+  }
+
+  // 현재 문제를 다시 엶 - 이 문제의 답변과 점수는 초기화
+  async repeatQuestion(sessionId: string, hostId: string): Promise<ActiveQuestion | null> {
+    console.log(`🔁 GAME_SERVICE: repeatQuestion called for session ${sessionId}`);
+
+    try {
+      return await this.sessionLocks.runExclusive(sessionId, async () => {
+        const session = await this.getNavigableSession(sessionId, hostId);
+        const current = getCurrentQuestion(session);
+        if (!current) {
+          throw new GameError('QUESTION_NOT_ACTIVE', 'No question has been asked yet');
+        }
+
+        return this.openQuestion(session, current.questionIndex - 1);
+      });
+    } catch (error) {
+      console.error('❌ GAME_SERVICE: Error repeating question:', error);
+      if (error instanceof GameError) {
+        throw error;
+      }
+      return null;
+    }
+  }
+
+  // 지정한 문제(1부터)로 이동 - 이미 낸 문제면 답변을 초기화하고 다시 엶
+  async gotoQuestion(sessionId: string, hostId: string, questionIndex: number): Promise<ActiveQuestion | null> {
+    console.log(`🔀 GAME_SERVICE: gotoQuestion called for session ${sessionId}, question ${questionIndex}`);
+
+    try {
+      return await this.sessionLocks.runExclusive(sessionId, async () => {
+        const session = await this.getNavigableSession(sessionId, hostId);
+        const totalQuestions = session.quiz?.questions.length ?? 0;
+        if (!Number.isInteger(questionIndex) || questionIndex < 1 || questionIndex > totalQuestions) {
+          throw new GameError('INVALID_QUESTION_INDEX', `questionIndex must be between 1 and ${totalQuestions}`, { totalQuestions });
+        }
+
+        return this.openQuestion(session, questionIndex - 1);
+      });
+    } catch (error) {
+      console.error('❌ GAME_SERVICE: Error going to question:', error);
+      if (error instanceof GameError) {
+        throw error;
+      }
+      return null;
+    }
+  }
+
+  // 문제 이동은 진행 중(일시정지 아님)인 게임에서만
+  private async getNavigableSession(sessionId: string, hostId: string): Promise<GameSession> {
+    const session = await this.getHostedSession(sessionId, hostId);
+    if (session.status === 'paused') {
+      throw new GameError('GAME_PAUSED', 'Resume the game before changing questions');
+    }
+    if (session.status !== 'active') {
+      throw new GameError('GAME_NOT_ACTIVE', 'Game is not active');
+    }
+    if (!session.quiz) {
+      throw new Error('Quiz not found in session');
+    }
+    return session;
+  }
+
+  // index(0부터) 문제를 열고 다음 next_question은 그 다음 문제부터
+  // 세션 잠금 안에서 읽은 세션으로만 호출 - 다시 여는 문제의 답변 초기화와 문제 전환이 답변 기록과 겹치지 않도록
+  private async openQuestion(session: GameSession, index: number): Promise<ActiveQuestion> {
+    const question = session.quiz!.questions[index];
+    console.log(`❓ GAME_SERVICE: Serving question: ${question.id} - "${question.text}"`);
+
+    // 이미 낸(또는 건너뛴) 문제를 다시 열면 이전 답변 초기화
+    const reopened = getAskedQuestionIds(session).includes(question.id) || isQuestionSkipped(session, question.id);
+    if (reopened) {
+      const cleared = await this.clearQuestionAnswers(session.id, question.id);
+      console.log(`🔁 GAME_SERVICE: Reopening question ${question.id}, cleared ${cleared} previous answers`);
+    }
+
+    // 문제 시작 시각과 마감 시각을 서버 기준으로 기록
+    const startedAt = new Date();
+    const deadline = new Date(startedAt.getTime() + question.timeLimit * 1000);
+
+    const updated = await storage.updateSession(session.id, {
+      currentQuestionIndex: index + 1,
+      activeQuestionIndex: index,
+      ...markQuestionAsked(session, question.id),
+      questionStartedAt: startedAt.toISOString(),
+      questionDeadline: deadline.toISOString(),
+      questionAttemptId: uuidv4()
+    });
+    if (!updated) {
+      throw new Error('Failed to open question');
+    }
+    console.log(`💾 GAME_SERVICE: Active question is now ${index + 1}, deadline: ${deadline.toISOString()}`);
+
+    return {
+      question,
+      questionIndex: index + 1,
+      startedAt: startedAt.toISOString(),
+      deadline: deadline.toISOString(),
+      reopened: reopened || undefined
+    };
+  }
+
+  // 한 문제에 대한 모든 플레이어의 답변과 그 점수를 취소 - 취소한 답변 수 반환
+  private async clearQuestionAnswers(sessionId: string, questionId: string): Promise<number> {
+    const players = await storage.getSessionPlayers(sessionId);
+    let cleared = 0;
+
+    for (const player of players) {
+      let removedCount = 0;
+      const written = await this.writePlayerAnswers(sessionId, player, current => {
+        const removed = current.answers.filter(answer => answer.questionId === questionId);
+        removedCount = removed.length;
+        if (removed.length === 0) {
+          return null;
+        }
+
+        const revokedPoints = removed.reduce((sum, answer) => sum + answer.points, 0);
+        return {
+          answers: current.answers.filter(answer => answer.questionId !== questionId),
+          score: Math.max(0, current.score - revokedPoints)
+        };
+      });
+      if (!written) {
+        console.error(`❌ GAME_SERVICE: Failed to clear answers of player ${player.id} for question ${questionId}`);
+        continue;
+      }
+      cleared += removedCount;
+    }
+
+    return cleared;
+  }
+
+  // 플레이어 답변/점수를 버전 조건부로 기록 - 세션 잠금은 이 인스턴스 안에서만 유효하므로,
+  // 그 사이 다른 인스턴스가 같은 플레이어를 기록했으면 덮어쓰지 않고 최신 플레이어를 다시 읽어 변경을 재적용
+  // apply가 null을 반환하면 기록할 변경이 없는 것 (성공으로 처리)
+  private async writePlayerAnswers(
+    sessionId: string,
+    player: Player,
+    apply: (current: Player) => Pick<Player, 'answers' | 'score'> | null
+  ): Promise<boolean> {
+    let current: Player | undefined = player;
+    for (let attempt = 1; current && attempt <= PLAYER_WRITE_ATTEMPTS; attempt++) {
+      const updates = apply(current);
+      if (!updates) {
+        return true;
+      }
+
+      const written = await storage.updatePlayerAnswers(sessionId, current.id, current.answersVersion ?? 0, updates);
+      if (written === null) {
+        return false;
+      }
+      if (written) {
+        return true;
+      }
+
+      console.warn(`🔁 GAME_SERVICE: Player ${player.id} in session ${sessionId} changed while writing answers, retrying (${attempt}/${PLAYER_WRITE_ATTEMPTS})`);
+      current = (await storage.getSessionPlayers(sessionId)).find(p => p.id === player.id);
+    }
+    return false;
+  }
+
+  // 일시정지 - 열린 문제의 남은 시간을 저장하고 답변을 막음
+  // 일시정지/재개/시간 연장도 문제 전환과 같은 세션 잠금 안에서 최신 세션으로 계산 (다른 문제의 시각을 덮어쓰지 않도록)
+  async pauseGame(sessionId: string, hostId: string): Promise<GamePausedContent | null> {
+    console.log(`⏸️ GAME_SERVICE: pauseGame called for session ${sessionId}`);
+    return this.sessionLocks.runExclusive(sessionId, () => this.applyPause(sessionId, hostId));
+  }
+
+  private async applyPause(sessionId: string, hostId: string): Promise<GamePausedContent | null> {
+    try {
+      const session = await this.getHostedSession(sessionId, hostId);
+      if (session.status === 'paused') {
+        throw new GameError('GAME_PAUSED', 'Game is already paused');
+      }
+      if (session.status !== 'active') {
+        throw new GameError('GAME_NOT_ACTIVE', 'Only an active game can be paused');
+      }
+
+      const now = Date.now();
+      const openQuestion = this.getOpenQuestion(session, now);
+      const remainingMs = openQuestion ? openQuestion.deadline - now : 0;
+      const pausedAt = new Date(now).toISOString();
+
+      const updated = await storage.updateSession(sessionId, {
+        status: 'paused',
+        pausedAt,
+        pausedRemainingMs: openQuestion ? remainingMs : undefined
+      });
+      if (!updated) {
+        throw new Error('Failed to pause game');
+      }
+
+      console.log(`✅ GAME_SERVICE: Session ${sessionId} paused with ${remainingMs}ms remaining`);
+      return {
+        questionId: openQuestion?.question.id,
+        questionIndex: getCurrentQuestion(session)?.questionIndex ?? 0,
+        remainingMs,
+        paused: true,
+        pausedAt
+      };
+    } catch (error) {
+      console.error('❌ GAME_SERVICE: Error pausing game:', error);
+      if (error instanceof GameError) {
+        throw error;
+      }
+      return null;
+    }
+  }
+
+  // 재개 - 남은 시간만큼 마감 시각을 다시 잡고, 응답 시간 계산에서 정지 시간은 제외
+  async resumeGame(sessionId: string, hostId: string): Promise<GameClockContent | null> {
+    console.log(`▶️ GAME_SERVICE: resumeGame called for session ${sessionId}`);
+    return this.sessionLocks.runExclusive(sessionId, () => this.applyResume(sessionId, hostId));
+  }
+
+  private async applyResume(sessionId: string, hostId: string): Promise<GameClockContent | null> {
+    try {
+      const session = await this.getHostedSession(sessionId, hostId);
+      if (session.status !== 'paused') {
+        throw new GameError('GAME_NOT_PAUSED', 'Game is not paused');
+      }
+
+      const now = Date.now();
+      const updates: Partial<GameSession> = {
+        status: 'active',
+        pausedAt: undefined,
+        pausedRemainingMs: undefined
+      };
+
+      const remainingMs = session.pausedRemainingMs;
+      let deadline: string | undefined;
+      if (remainingMs !== undefined && session.questionStartedAt) {
+        const pausedMs = session.pausedAt ? now - new Date(session.pausedAt).getTime() : 0;
+        deadline = new Date(now + remainingMs).toISOString();
+        updates.questionStartedAt = new Date(new Date(session.questionStartedAt).getTime() + pausedMs).toISOString();
+        updates.questionDeadline = deadline;
+      }
+
+      const updated = await storage.updateSession(sessionId, updates);
+      if (!updated) {
+        throw new Error('Failed to resume game');
+      }
+
+      console.log(`✅ GAME_SERVICE: Session ${sessionId} resumed${deadline ? `, question closes at ${deadline}` : ''}`);
+      const current = getCurrentQuestion(session);
+      return {
+        questionId: deadline ? current?.question.id : undefined,
+        questionIndex: current?.questionIndex ?? 0,
+        remainingMs: deadline ? remainingMs! : 0,
+        deadline,
+        paused: false
+      };
+    } catch (error) {
+      console.error('❌ GAME_SERVICE: Error resuming game:', error);
+      if (error instanceof GameError) {
+        throw error;
+      }
+      return null;
+    }
+  }
+
+  // 현재 문제 시간 연장 - 일시정지 중이면 남은 시간에 더함
+  async extendTime(sessionId: string, hostId: string, seconds: number): Promise<TimeExtendedContent | null> {
+    console.log(`⏩ GAME_SERVICE: extendTime called for session ${sessionId}, +${seconds}s`);
+    return this.sessionLocks.runExclusive(sessionId, () => this.applyTimeExtension(sessionId, hostId, seconds));
+  }
+
+  private async applyTimeExtension(sessionId: string, hostId: string, seconds: number): Promise<TimeExtendedContent | null> {
+    try {
+      const session = await this.getHostedSession(sessionId, hostId);
+      const addedMs = seconds * 1000;
+      const current = getCurrentQuestion(session);
+      const questionIndex = current?.questionIndex ?? 0;
+
+      if (session.status === 'paused') {
+        if (session.pausedRemainingMs === undefined) {
+          throw new GameError('QUESTION_NOT_ACTIVE', 'No question is open');
+        }
+
+        const remainingMs = session.pausedRemainingMs + addedMs;
+        const updated = await storage.updateSession(sessionId, { pausedRemainingMs: remainingMs });
+        if (!updated) {
+          throw new Error('Failed to extend time');
+        }
+
+        return { questionId: current?.question.id, questionIndex, remainingMs, paused: true, addedSeconds: seconds };
+      }
+
+      if (session.status !== 'active') {
+        throw new GameError('GAME_NOT_ACTIVE', 'Game is not active');
+      }
+
+      const now = Date.now();
+      const openQuestion = this.getOpenQuestion(session, now);
+      if (!openQuestion) {
+        throw new GameError('QUESTION_NOT_ACTIVE', 'No question is open');
+      }
+
+      const deadline = new Date(openQuestion.deadline + addedMs).toISOString();
+      const updated = await storage.updateSession(sessionId, { questionDeadline: deadline });
+      if (!updated) {
+        throw new Error('Failed to extend time');
+      }
+
+      console.log(`✅ GAME_SERVICE: Question ${openQuestion.question.id} in session ${sessionId} now closes at ${deadline}`);
+      return {
+        questionId: openQuestion.question.id,
+        questionIndex,
+        remainingMs: openQuestion.deadline + addedMs - now,
+        deadline,
+        paused: false,
+        addedSeconds: seconds
+      };
+    } catch (error) {
+      console.error('❌ GAME_SERVICE: Error extending time:', error);
+      if (error instanceof GameError) {
+        throw error;
+      }
+      return null;
+    }
+  }
+
+  private async getHostedSession(sessionId: string, hostId: string): Promise<GameSession> {
+    const session = await storage.getSession(sessionId);
+    if (!session) {
+      throw new GameError('SESSION_NOT_FOUND', `Session ${sessionId} not found`);
+    }
+    if (session.hostId !== hostId) {
+      throw new GameError('FORBIDDEN', 'Only host can control the game');
+    }
+    return session;
+  }
+
+  // 아직 마감되지 않은 현재 문제
+  private getOpenQuestion(session: GameSession, now: number): { question: Question; deadline: number } | null {
+    const question = getCurrentQuestion(session)?.question;
+    if (!question || !session.questionDeadline) {
+      return null;
+    }
+
+    const deadline = new Date(session.questionDeadline).getTime();
+    return deadline > now ? { question, deadline } : null;
+  }
+
+  // 답변 제출 - 이 인스턴스 안에서는 세션 단위로 직렬 처리해 답변 초기화(건너뛰기/다시 열기)와 겹치지 않게 하고,
+  // 중복 제출과 정답 순위는 저장소의 조건부 쓰기/원자적 카운터로 판정 (여러 인스턴스가 같은 세션 답변을 받아도 유지)
+  // 응답 시간은 잠금을 기다리기 전의 서버 수신 시각 기준
+  async submitAnswer(sessionId: string, playerId: string, content: SubmitAnswerContent): Promise<AnswerResult | null> {
+    const receivedAt = Date.now();
+    console.log(`📝 GAME_SERVICE: submitAnswer called for session ${sessionId}, player ${playerId}, question ${content.questionId}`);
+    return this.sessionLocks.runExclusive(sessionId, () => this.recordAnswer(sessionId, playerId, content, receivedAt));
+  }
+
+  private async recordAnswer(sessionId: string, playerId: string, content: SubmitAnswerContent, receivedAt: number): Promise<AnswerResult | null> {
+    const { questionId } = content;
+
     try {
-      const session = await dynamoService.getSession(sessionId);
+      const session = await storage.getSession(sessionId);
       if (!session) {
         console.error(`❌ GAME_SERVICE: Session ${sessionId} not found`);
         throw new Error('Session not found');
       }
 
+      const players = await storage.getSessionPlayers(sessionId);
+      const player = players.find(p => p.id === playerId);
+      if (!player) {
+        console.error(`❌ GAME_SERVICE: Player ${playerId} not found in session ${sessionId}`);
+        throw new Error('Player not found');
+      }
+
+      // 같은 문제에 다시 제출하면 (재전송 등) 처음 결과를 그대로 반환 - 플레이어+문제 기준 멱등
+      const existingAnswer = player.answers.find(a => a.questionId === questionId);
+      if (existingAnswer) {
+        console.log(`♻️ GAME_SERVICE: Player ${playerId} already answered question ${questionId}, returning recorded result`);
+        return this.toAnswerResult(existingAnswer, session, player.name, true);
+      }
+
+      if (session.status === 'paused') {
+        console.warn(`⏸️ GAME_SERVICE: Answer from ${playerId} rejected while session ${sessionId} is paused`);
+        throw new GameError('GAME_PAUSED', 'Game is paused');
+      }
+
       if (session.status !== 'active') {
         console.error(`❌ GAME_SERVICE: Game is not active. Current status: ${session.status}`);
         throw new Error('Game is not active');
@@ -284,137 +889,170 @@ class GameService {
         throw new Error('Question not found');
       }
 
-      console.log(`❓ GAME_SERVICE: Found question: "${question.text}", correct answer: ${question.correctAnswer}`);
+      console.log(`❓ GAME_SERVICE: Found ${getQuestionType(question)} question: "${question.text}", correct answer: ${JSON.stringify(getCorrectAnswer(question))}`);
 
-      // Get current players to find the player
-      const players = await dynamoService.getSessionPlayers(sessionId);
-      const player = players.find(p => p.id === playerId);
-      if (!player) {
-        console.error(`❌ GAME_SERVICE: Player ${playerId} not found in session ${sessionId}`);
-        throw new Error('Player not found');
+      // 현재 열려 있는 문제에 대한 답변만 허용
+      const currentQuestion = getCurrentQuestion(session)?.question;
+      if (!currentQuestion || currentQuestion.id !== questionId || isQuestionSkipped(session, questionId) ||
+          !session.questionStartedAt || !session.questionDeadline) {
+        console.warn(`⚠️ GAME_SERVICE: Question ${questionId} is not the active question in session ${sessionId}`);
+        throw new GameError('QUESTION_NOT_ACTIVE', 'Question is not currently open');
+      }
+
+      // 제한시간 검증 및 응답 시간은 서버 시각 기준으로 계산
+      const deadline = new Date(session.questionDeadline).getTime();
+      if (receivedAt > deadline + ANSWER_GRACE_MS) {
+        console.warn(`⏰ GAME_SERVICE: Late answer from ${playerId} for question ${questionId} (${receivedAt - deadline}ms after deadline)`);
+        throw new GameError('ANSWER_TOO_LATE', 'Time is up for this question');
       }
+      const timeToAnswer = Math.min(
+        Math.max(0, receivedAt - new Date(session.questionStartedAt).getTime()),
+        question.timeLimit * 1000
+      );
 
       console.log(`👤 GAME_SERVICE: Found player: ${player.name}, current score: ${player.score}`);
 
-      // Check if player already answered this question
-      const existingAnswer = player.answers.find(a => a.questionId === questionId);
-      if (existingAnswer) {
-        console.warn(`⚠️ GAME_SERVICE: Player ${playerId} already answered question ${questionId}`);
-        throw new Error('Player already answered this question');
+      // 문제 유형에 맞는 답안 형식인지 검증
+      // 보기 섞기 중이면 플레이어 화면 기준 인덱스로 검증 후 원래 보기 인덱스로 변환 (저장/통계는 원래 인덱스)
+      const shuffleSeed = getChoiceShuffleSeed(session);
+      const choiceOrder = shuffleSeed ? getChoiceOrder(shuffleSeed, playerId, question) : null;
+      const answerInput = choiceOrder
+        ? toCanonicalAnswer(parseAnswer(toPlayerQuestion(question, choiceOrder), content), choiceOrder)
+        : parseAnswer(question, content);
+
+      // 이번 회차에 이 플레이어의 답변은 한 번만 기록 (다른 인스턴스로 들어온 재전송 포함)
+      // questionAttemptId가 없는 예전 세션은 문제 시작 시각으로 회차 구분
+      const attemptId = session.questionAttemptId ?? `${questionId}#${session.questionStartedAt}`;
+      const claimed = await storage.claimAnswer(sessionId, attemptId, playerId);
+      if (claimed === null) {
+        throw new Error('Failed to record answer');
       }
-
-      // Validate selected choice
-      if (selectedChoice < 0 || selectedChoice >= question.choices.length) {
-        console.error(`❌ GAME_SERVICE: Invalid choice ${selectedChoice} for question with ${question.choices.length} choices`);
-        throw new Error('Invalid choice selected');
+      if (!claimed) {
+        const recorded = (await storage.getSessionPlayers(sessionId))
+          .find(p => p.id === playerId)?.answers.find(a => a.questionId === questionId);
+        if (recorded) {
+          console.log(`♻️ GAME_SERVICE: Player ${playerId} already answered question ${questionId}, returning recorded result`);
+          return this.toAnswerResult(recorded, session, player.name, true);
+        }
+        console.warn(`⚠️ GAME_SERVICE: Answer from ${playerId} for question ${questionId} is already being recorded`);
+        throw new GameError('ANSWER_IN_PROGRESS', 'Answer for this question is already being recorded');
       }
 
       // Calculate points based on correctness and ranking
-      const isCorrect = selectedChoice === question.correctAnswer;
+      const isCorrect = isAnswerCorrect(question, answerInput);
+      const scoring = getScoringStrategy(session.settings);
       let points = 0;
       let rank = 0;
       let totalCorrect = 0;
       
       if (isCorrect) {
-        // Get all correct answers for this question from all players
-        const allPlayers = await dynamoService.getSessionPlayers(sessionId);
-        const correctAnswersForQuestion = [];
-        
-        // Collect all correct answers for this question
-        for (const p of allPlayers) {
-          const correctAnswer = p.answers.find(a => 
-            a.questionId === questionId && 
-            a.isCorrect === true
-          );
-          if (correctAnswer) {
-            correctAnswersForQuestion.push({
-              playerId: p.id,
-              playerName: p.name,
-              submittedAt: new Date(correctAnswer.submittedAt || Date.now()),
-              timeToAnswer: correctAnswer.timeToAnswer
-            });
-          }
+        // 저장소의 회차별 정답자 카운터 - 기록 순서대로 1씩 늘어나므로 늘어난 값이 순위 (동점 없음)
+        const correctCount = await storage.incrementCorrectCount(sessionId, attemptId);
+        if (correctCount === null) {
+          await this.releaseAnswerClaim(sessionId, attemptId, playerId);
+          throw new Error('Failed to record answer rank');
         }
+        rank = correctCount;
+        totalCorrect = rank;
         
-        // Add current answer to the list
-        const currentSubmissionTime = new Date();
-        correctAnswersForQuestion.push({
-          playerId,
-          playerName: player.name,
-          submittedAt: currentSubmissionTime,
-          timeToAnswer
-        });
-        
-        // Sort by submission time (earliest first)
-        correctAnswersForQuestion.sort((a, b) => a.submittedAt.getTime() - b.submittedAt.getTime());
-        
-        // Find current player's rank
-        rank = correctAnswersForQuestion.findIndex(a => a.playerId === playerId) + 1;
-        totalCorrect = correctAnswersForQuestion.length;
-        
-        // Dynamic scoring based on total participants
+        // 세션에 설정된 점수 방식으로 계산
         const basePoints = question.points;
+        points = scoring.score({ question, timeToAnswer, rank, totalCorrect });
         
-        if (totalCorrect === 1) {
-          // Only one correct answer, give full points
-          points = basePoints;
-        } else {
-          // Calculate percentage based on rank and total correct answers
-          // Formula: 100% - ((rank - 1) / totalCorrect) * 50%
-          // This ensures 1st place gets 100%, last place gets at least 50%
-          const rankPercentage = 1.0 - ((rank - 1) / totalCorrect) * 0.5;
-          points = Math.round(basePoints * rankPercentage);
-          
-          // Ensure minimum points (at least 30% of base points)
-          const minPoints = Math.round(basePoints * 0.3);
-          points = Math.max(points, minPoints);
-        }
-        
-        console.log(`🏆 GAME_SERVICE: Correct answer! Rank: ${rank}/${totalCorrect}, Percentage: ${((points/basePoints)*100).toFixed(1)}%, Points: ${points}/${basePoints}`);
+        console.log(`🏆 GAME_SERVICE: Correct answer! Scoring: ${scoring.name}, Rank: ${rank}/${totalCorrect}, Percentage: ${((points/basePoints)*100).toFixed(1)}%, Points: ${points}/${basePoints}`);
       } else {
-        console.log(`❌ GAME_SERVICE: Wrong answer. Selected: ${selectedChoice}, Correct: ${question.correctAnswer}`);
+        console.log(`❌ GAME_SERVICE: Wrong answer. Submitted: ${JSON.stringify(answerInput)}, Correct: ${JSON.stringify(getCorrectAnswer(question))}`);
+      }
+
+      // 연속 정답 - 현재 문제 직전까지의 기록으로 계산 후 이번 답변 반영
+      const previousQuestionIds = getAskedQuestionIds(session).slice(0, -1);
+      const streak = isCorrect ? computeStreak(player.answers, previousQuestionIds) + 1 : 0;
+      const streakMultiplier = isCorrect ? getStreakMultiplier(streak, session.settings?.streakBonus) : 1;
+      const streakBonus = Math.round(points * (streakMultiplier - 1));
+      points += streakBonus;
+
+      if (streakBonus > 0) {
+        console.log(`🔥 GAME_SERVICE: ${streak}-answer streak for ${player.name}, x${streakMultiplier} bonus: +${streakBonus}`);
       }
 
       // Create answer record
       const answer: PlayerAnswer = {
         questionId,
-        selectedChoice,
+        selectedChoice: answerInput.type === 'single_choice' ? answerInput.selectedChoice : undefined,
+        answer: answerInput,
         timeToAnswer,
         isCorrect,
         points,
-        submittedAt: new Date().toISOString()
+        streakBonus: streakBonus > 0 ? streakBonus : undefined,
+        streak,
+        rank: isCorrect ? rank : undefined,
+        submittedAt: new Date(receivedAt).toISOString()
       };
 
-      // Update player
-      player.answers.push(answer);
-      player.score += points;
-
-      console.log(`💾 GAME_SERVICE: Updating player ${playerId} with new score: ${player.score}`);
+      console.log(`💾 GAME_SERVICE: Updating player ${playerId} with new score: ${player.score + points}`);
 
       // Update player in DynamoDB
-      await dynamoService.updatePlayer(sessionId, playerId, {
-        score: player.score,
-        answers: player.answers
-      });
+      // 기록하지 못했으면 (저장소 오류, 그 사이 퇴장) 점유를 풀어 재전송이 ANSWER_IN_PROGRESS에 막히지 않게 함
+      // 이미 늘린 정답자 카운터는 되돌리지 않음 - 순위에 빈 번호가 생길 뿐 겹치지는 않음
+      const saved = await this.writePlayerAnswers(sessionId, player, current => ({
+        answers: [...current.answers, answer],
+        score: current.score + points
+      }));
+      if (!saved) {
+        await this.releaseAnswerClaim(sessionId, attemptId, playerId);
+        throw new Error('Failed to save answer');
+      }
 
       console.log(`✅ GAME_SERVICE: Answer submitted successfully for player ${playerId}`);
-      return { isCorrect, points, questionId, rank: isCorrect ? rank : undefined, totalCorrect: isCorrect ? totalCorrect : undefined };
+      return this.toAnswerResult(answer, session, player.name);
     } catch (error) {
       console.error('❌ GAME_SERVICE: Error submitting answer:', error);
+      if (error instanceof GameError) {
+        throw error;
+      }
       return null;
     }
   }
 
+  private async releaseAnswerClaim(sessionId: string, attemptId: string, playerId: string): Promise<void> {
+    const released = await storage.releaseAnswer(sessionId, attemptId, playerId);
+    if (!released) {
+      console.error(`❌ GAME_SERVICE: Failed to release answer claim for player ${playerId} in session ${sessionId}`);
+    }
+  }
+
+  // 기록된 답변으로 제출 결과 구성 - 재제출이면 처음 결과를 duplicate로 표시해 반환
+  private toAnswerResult(answer: PlayerAnswer, session: GameSession, playerName: string, duplicate = false): AnswerResult {
+    const streak = answer.streak ?? 0;
+    return {
+      playerName,
+      isCorrect: answer.isCorrect,
+      points: answer.points,
+      questionId: answer.questionId,
+      timeToAnswer: answer.timeToAnswer,
+      rank: answer.rank,
+      totalCorrect: answer.rank ?? 0, // 수신 순서대로 처리하므로 제출 시점의 정답자 수 = 순위 (오답이면 0)
+      streak,
+      streakMultiplier: answer.isCorrect ? getStreakMultiplier(streak, session.settings?.streakBonus) : 1,
+      streakBonus: answer.streakBonus ?? 0,
+      duplicate: duplicate || undefined
+    };
+  }
+
   async getLeaderboard(sessionId: string): Promise<LeaderboardEntry[]> {
     try {
-      const players = await dynamoService.getSessionPlayers(sessionId);
+      const players = await storage.getSessionPlayers(sessionId);
+      const session = await storage.getSession(sessionId);
+      const askedQuestionIds = session ? getAskedQuestionIds(session) : [];
 
       // 리더보드용 플레이어 데이터 생성
       const leaderboardData = players.map((player) => {
         return {
           playerId: player.id,
           playerName: player.name,
-          score: player.score
+          score: player.score,
+          streak: computeStreak(player.answers, askedQuestionIds),
+          teamId: player.teamId
         };
       });
 
@@ -432,12 +1070,29 @@ class GameService {
     }
   }
 
+  // 팀 순위 - 팀전이 아니면 undefined
+  async getTeamLeaderboard(sessionId: string): Promise<TeamLeaderboardEntry[] | undefined> {
+    try {
+      const session = await storage.getSession(sessionId);
+      const teamMode = session?.settings?.teamMode;
+      if (!teamMode) {
+        return undefined;
+      }
+
+      const players = await storage.getSessionPlayers(sessionId);
+      return buildTeamLeaderboard(teamMode, players);
+    } catch (error) {
+      console.error('Error getting team leaderboard:', error);
+      return undefined;
+    }
+  }
+
   async finishGame(sessionId: string): Promise<boolean> {
     try {
       console.log(`🏁 GAME_SERVICE: Starting finishGame for session ${sessionId}`);
       
       // 세션 존재 여부 먼저 확인
-      const existingSession = await dynamoService.getSession(sessionId);
+      const existingSession = await storage.getSession(sessionId);
       if (!existingSession) {
         console.error(`❌ GAME_SERVICE: Session ${sessionId} not found when finishing game`);
         return false;
@@ -447,7 +1102,7 @@ class GameService {
       
       // 세션 상태를 finished로 업데이트
       console.log(`💾 GAME_SERVICE: Updating session ${sessionId} status to 'finished'`);
-      const updateResult = await dynamoService.updateSession(sessionId, { 
+      const updateResult = await storage.updateSession(sessionId, { 
         status: 'finished', 
         finishedAt: new Date().toISOString() 
       });
@@ -459,10 +1114,14 @@ class GameService {
       
       console.log(`✅ GAME_SERVICE: Session ${sessionId} status updated successfully`);
 
-      // 게임 결과를 DynamoDB에 저장
+      // 게임 결과를 DynamoDB에 저장 - 끝내 실패해도 세션은 종료 상태이므로 리캡 조회 때 다시 저장
       console.log(`📊 GAME_SERVICE: Starting to save game result for session ${sessionId}`);
-      await this.saveGameResult(sessionId);
-      console.log(`✅ GAME_SERVICE: Game result saving completed for session ${sessionId}`);
+      const resultSaved = await this.saveGameResult(sessionId);
+      if (resultSaved) {
+        console.log(`✅ GAME_SERVICE: Game result saving completed for session ${sessionId}`);
+      } else {
+        console.error(`❌ GAME_SERVICE: Game result for session ${sessionId} was not saved, will retry on next recap request`);
+      }
 
       console.log(`🎯 GAME_SERVICE: finishGame completed successfully for session ${sessionId}`);
       return true;
@@ -472,95 +1131,231 @@ class GameService {
     }
   }
 
-  private async saveGameResult(sessionId: string): Promise<void> {
+  // 세션과 플레이어 데이터로 GameResult 생성 (저장 및 진행 중 리캡 조회에 사용)
+  private buildGameResult(session: GameSession, quiz: Quiz, players: Player[], leaderboard: LeaderboardEntry[]): GameResult {
+    // 통계 계산
+    const totalParticipants = players.length;
+    const totalQuestions = quiz.questions.length;
+    const averageScore = totalParticipants > 0 ? 
+      Math.round(players.reduce((sum, player) => sum + player.score, 0) / totalParticipants) : 0;
+
+    // 리더보드 변환
+    const resultLeaderboard = leaderboard.map(entry => {
+      return {
+        rank: entry.rank,
+        playerId: entry.playerId,
+        playerName: entry.playerName,
+        score: entry.score,
+        streak: entry.streak
+      };
+    });
+
+    // 문제별 통계
+    const questionStats = quiz.questions.map(question => {
+      const questionAnswers = players.flatMap(player => 
+        player.answers.filter(answer => answer.questionId === question.id)
+      );
+      
+      const correctCount = questionAnswers.filter(answer => answer.isCorrect).length;
+      const totalAnswers = questionAnswers.length;
+
+      return {
+        questionId: question.id,
+        questionText: question.text,
+        questionType: getQuestionType(question),
+        choices: question.choices,
+        points: question.points,
+        correctAnswer: getCorrectAnswer(question),
+        correctAnswerText: describeCorrectAnswer(question),
+        correctCount,
+        totalAnswers,
+        skipped: isQuestionSkipped(session, question.id) || undefined
+      };
+    });
+
+    // 게임 진행 시간 계산
+    const duration = session.startedAt && session.finishedAt ? 
+      Math.round((new Date(session.finishedAt).getTime() - new Date(session.startedAt).getTime()) / 1000) : 
+      undefined;
+
+    // GameResult 객체 생성
+    return {
+      sessionId: session.id,
+      quizId: session.quizId,
+      quizTitle: quiz.title,
+      hostId: session.hostId,
+      completedAt: new Date().toISOString(),
+      totalParticipants,
+      totalQuestions,
+      averageScore,
+      leaderboard: resultLeaderboard,
+      teamLeaderboard: session.settings?.teamMode ? buildTeamLeaderboard(session.settings.teamMode, players) : undefined,
+      questionStats,
+      isPublic: true, // 기본적으로 공개 설정
+      duration,
+      scoring: getScoringStrategy(session.settings).name,
+      players: players.map(player => ({
+        playerId: player.id,
+        playerName: player.name,
+        teamId: player.teamId,
+        score: player.score,
+        answers: player.answers
+      }))
+    };
+  }
+
+  // 결과 저장 - 일시적인 저장소 오류는 몇 번 다시 시도
+  private async saveGameResult(sessionId: string): Promise<boolean> {
     try {
       console.log(`📊 GAME_SERVICE: Saving game result for session ${sessionId}`);
       
-      const session = await dynamoService.getSession(sessionId);
+      const session = await storage.getSession(sessionId);
       if (!session) {
         console.error(`❌ GAME_SERVICE: Session ${sessionId} not found for result saving`);
-        return;
+        return false;
       }
 
-      const players = await dynamoService.getSessionPlayers(sessionId);
+      const players = await storage.getSessionPlayers(sessionId);
       const leaderboard = await this.getLeaderboard(sessionId);
 
       if (!session.quiz) {
         console.error(`❌ GAME_SERVICE: Quiz not found in session ${sessionId}`);
-        return;
+        return false;
       }
 
-      // 통계 계산
-      const totalParticipants = players.length;
-      const totalQuestions = session.quiz.questions.length;
-      const averageScore = totalParticipants > 0 ? 
-        Math.round(players.reduce((sum, player) => sum + player.score, 0) / totalParticipants) : 0;
+      const gameResult = this.buildGameResult(session, session.quiz, players, leaderboard);
 
-      // 리더보드 변환
-      const resultLeaderboard = leaderboard.map(entry => {
-        return {
-          rank: entry.rank,
-          playerId: entry.playerId,
-          playerName: entry.playerName,
-          score: entry.score
-        };
-      });
+      // DynamoDB에 저장
+      for (let attempt = 1; attempt <= RESULT_SAVE_ATTEMPTS; attempt++) {
+        if (await storage.saveGameResult(gameResult)) {
+          console.log(`✅ GAME_SERVICE: Game result saved successfully for session ${sessionId}`);
+          return true;
+        }
+        console.error(`❌ GAME_SERVICE: Failed to save game result for session ${sessionId} (attempt ${attempt}/${RESULT_SAVE_ATTEMPTS})`);
+        if (attempt < RESULT_SAVE_ATTEMPTS) {
+          await new Promise(resolve => setTimeout(resolve, RESULT_SAVE_RETRY_DELAY_MS * attempt));
+        }
+      }
+      return false;
+    } catch (error) {
+      console.error(`❌ GAME_SERVICE: Error saving game result for session ${sessionId}:`, error);
+      return false;
+    }
+  }
 
-      // 문제별 통계
-      const questionStats = session.quiz.questions.map(question => {
-        const questionAnswers = players.flatMap(player => 
-          player.answers.filter(answer => answer.questionId === question.id)
-        );
-        
-        const correctCount = questionAnswers.filter(answer => answer.isCorrect).length;
-        const totalAnswers = questionAnswers.length;
+  // 호스트가 플레이어 추방 - ban이면 같은 기기/이름/resume 토큰으로 재참가 차단
+  async kickPlayer(sessionId: string, hostId: string, playerId: string, ban: boolean): Promise<Player | null> {
+    console.log(`👢 GAME_SERVICE: kickPlayer called for session ${sessionId}, player ${playerId}, ban=${ban}`);
 
-        return {
-          questionId: question.id,
-          questionText: question.text,
-          correctAnswer: question.correctAnswer,
-          correctCount,
-          totalAnswers
-        };
-      });
+    try {
+      const session = await storage.getSession(sessionId);
+      if (!session) {
+        throw new GameError('SESSION_NOT_FOUND', `Session ${sessionId} not found`);
+      }
 
-      // 게임 진행 시간 계산
-      const duration = session.startedAt && session.finishedAt ? 
-        Math.round((new Date(session.finishedAt).getTime() - new Date(session.startedAt).getTime()) / 1000) : 
-        undefined;
+      if (session.hostId !== hostId) {
+        throw new GameError('FORBIDDEN', 'Only host can kick players');
+      }
 
-      // GameResult 객체 생성
-      const gameResult: GameResult = {
-        sessionId,
-        quizId: session.quizId,
-        quizTitle: session.quiz.title,
-        hostId: session.hostId,
-        completedAt: new Date().toISOString(),
-        totalParticipants,
-        totalQuestions,
-        averageScore,
-        leaderboard: resultLeaderboard,
-        questionStats,
-        isPublic: true, // 기본적으로 공개 설정
-        duration
-      };
+      if (session.status === 'finished') {
+        throw new GameError('GAME_FINISHED', 'Game has already finished');
+      }
 
-      // DynamoDB에 저장
-      const saved = await dynamoService.saveGameResult(gameResult);
-      
-      if (saved) {
-        console.log(`✅ GAME_SERVICE: Game result saved successfully for session ${sessionId}`);
-      } else {
-        console.error(`❌ GAME_SERVICE: Failed to save game result for session ${sessionId}`);
+      const players = await storage.getSessionPlayers(sessionId);
+      const player = players.find(p => p.id === playerId);
+      if (!player) {
+        throw new GameError('PLAYER_NOT_FOUND', `Player ${playerId} not found in session ${sessionId}`);
+      }
+
+      const removed = await storage.removePlayer(sessionId, playerId);
+      if (!removed) {
+        throw new Error('Failed to remove player');
       }
+      await storage.releasePlayerSlot(sessionId);
+
+      if (ban) {
+        const bans: SessionBan[] = [
+          ...(session.bans ?? []),
+          {
+            playerId: player.id,
+            playerName: player.name,
+            nameKey: nicknameKey(player.name),
+            deviceId: player.deviceId,
+            bannedAt: new Date().toISOString()
+          }
+        ];
+        await storage.updateSession(sessionId, { bans });
+      }
+
+      console.log(`✅ GAME_SERVICE: Player ${player.name} was ${ban ? 'banned' : 'kicked'} from session ${sessionId}`);
+      return player;
     } catch (error) {
-      console.error(`❌ GAME_SERVICE: Error saving game result for session ${sessionId}:`, error);
+      console.error('❌ GAME_SERVICE: Error kicking player:', error);
+      if (error instanceof GameError) {
+        throw error;
+      }
+      return null;
     }
   }
 
+  private findBan(session: GameSession, candidate: { playerId?: string; name?: string; deviceId?: string }): SessionBan | undefined {
+    const nameKey = candidate.name !== undefined ? nicknameKey(candidate.name) : undefined;
+    return session.bans?.find(ban =>
+      (candidate.playerId !== undefined && ban.playerId === candidate.playerId) ||
+      (nameKey !== undefined && ban.nameKey === nameKey) ||
+      (candidate.deviceId !== undefined && ban.deviceId === candidate.deviceId)
+    );
+  }
+
+  // 호스트가 로비 잠금/해제 - 잠긴 동안 새 참가만 막고 재접속은 허용
+  async setLobbyLocked(sessionId: string, hostId: string, locked: boolean): Promise<LobbyStatusContent | null> {
+    console.log(`🔒 GAME_SERVICE: setLobbyLocked called for session ${sessionId}, locked=${locked}`);
+
+    try {
+      const session = await storage.getSession(sessionId);
+      if (!session) {
+        throw new GameError('SESSION_NOT_FOUND', `Session ${sessionId} not found`);
+      }
+
+      if (session.hostId !== hostId) {
+        throw new GameError('FORBIDDEN', 'Only host can lock the lobby');
+      }
+
+      if (session.status === 'finished') {
+        throw new GameError('GAME_FINISHED', 'Game has already finished');
+      }
+
+      const updated = await storage.updateSession(sessionId, { lobbyLocked: locked });
+      if (!updated) {
+        throw new Error('Failed to update lobby lock');
+      }
+
+      return this.getLobbyStatus({ ...session, lobbyLocked: locked });
+    } catch (error) {
+      console.error('❌ GAME_SERVICE: Error updating lobby lock:', error);
+      if (error instanceof GameError) {
+        throw error;
+      }
+      return null;
+    }
+  }
+
+  getLobbyStatus(session: GameSession): LobbyStatusContent {
+    return {
+      locked: session.lobbyLocked ?? false,
+      playerCount: session.playerCount ?? 0,
+      maxPlayers: this.getMaxPlayers(session)
+    };
+  }
+
+  private getMaxPlayers(session: GameSession): number {
+    return Math.min(session.settings?.maxPlayers ?? MAX_PLAYERS_PER_SESSION, MAX_PLAYERS_PER_SESSION);
+  }
+
   async removePlayer(sessionId: string, playerId: string): Promise<boolean> {
     try {
-      await dynamoService.removePlayer(sessionId, playerId);
+      await storage.removePlayer(sessionId, playerId);
+      await storage.releasePlayerSlot(sessionId);
       return true;
     } catch (error) {
       console.error('Error removing player:', error);
@@ -568,17 +1363,33 @@ class GameService {
     }
   }
 
+  // 관전자 입장 - 참가 코드로 세션(플레이어 포함) 조회, 끝난 게임은 관전 불가
+  async spectateSession(joinCode: string): Promise<GameSession> {
+    console.log(`📺 GAME_SERVICE: spectateSession called with joinCode=${joinCode}`);
+
+    const session = await this.getSessionByJoinCode(joinCode);
+    if (!session) {
+      throw new GameError('SESSION_NOT_FOUND', 'Invalid join code');
+    }
+
+    if (session.status === 'finished') {
+      throw new GameError('GAME_FINISHED', 'Game has already finished');
+    }
+
+    return session;
+  }
+
   async getSessionByJoinCode(joinCode: string): Promise<GameSession | null> {
     try {
-      const sessionId = await dynamoService.getSessionByJoinCode(joinCode);
+      const sessionId = await storage.getSessionByJoinCode(joinCode);
       if (!sessionId) {
         return null;
       }
 
-      const session = await dynamoService.getSession(sessionId);
+      const session = await storage.getSession(sessionId);
       if (session) {
         // Load current players
-        const players = await dynamoService.getSessionPlayers(sessionId);
+        const players = await storage.getSessionPlayers(sessionId);
         session.players = players;
       }
 
@@ -591,7 +1402,7 @@ class GameService {
 
   async getSessionData(sessionId: string): Promise<SessionData | null> {
     try {
-      return await dynamoService.getSessionData(sessionId);
+      return await storage.getSessionData(sessionId);
     } catch (error) {
       console.error('Error getting session data:', error);
       return null;
@@ -600,10 +1411,10 @@ class GameService {
 
   async getSession(sessionId: string): Promise<GameSession | null> {
     try {
-      const session = await dynamoService.getSession(sessionId);
+      const session = await storage.getSession(sessionId);
       if (session) {
         // Load current players
-        const players = await dynamoService.getSessionPlayers(sessionId);
+        const players = await storage.getSessionPlayers(sessionId);
         session.players = players;
       }
       return session;
@@ -615,20 +1426,73 @@ class GameService {
 
   async getSessionPlayers(sessionId: string): Promise<Player[]> {
     try {
-      return await dynamoService.getSessionPlayers(sessionId);
+      return await storage.getSessionPlayers(sessionId);
     } catch (error) {
       console.error('Error getting session players:', error);
       return [];
     }
   }
 
-  async getSessionResults(sessionId: string): Promise<{ leaderboard: LeaderboardEntry[]; sessionData: GameSession | null } | null> {
+  // 플레이어별 리캡 - 본인 또는 해당 세션 호스트만 조회 가능
+  async getPlayerRecap(sessionId: string, playerId: string, requester: RecapRequester): Promise<PlayerRecap | null> {
+    console.log(`🧾 GAME_SERVICE: getPlayerRecap called for session ${sessionId}, player ${playerId}`);
+
+    try {
+      // 저장된 결과 우선, 없으면 진행 중인 세션에서 생성
+      let result = await storage.getGameResult(sessionId);
+      let completed = !!result;
+
+      if (!result) {
+        const session = await storage.getSession(sessionId);
+        if (!session || !session.quiz) {
+          throw new GameError('SESSION_NOT_FOUND', `Session ${sessionId} not found`);
+        }
+        const players = await storage.getSessionPlayers(sessionId);
+        const leaderboard = await this.getLeaderboard(sessionId);
+        result = this.buildGameResult(session, session.quiz, players, leaderboard);
+
+        // 종료 때 결과 저장에 실패한 세션은 지금 다시 저장
+        if (session.status === 'finished') {
+          completed = true;
+          await this.saveGameResult(sessionId);
+        }
+      }
+
+      const isOwnRecap = requester.kind === 'player' && requester.sessionId === sessionId && requester.playerId === playerId;
+      const isSessionHost = requester.kind === 'host' && requester.hostId === result.hostId;
+      if (!isOwnRecap && !isSessionHost) {
+        throw new GameError('FORBIDDEN', 'Only the player or the session host can view this recap');
+      }
+
+      // 진행 중에는 아직 출제되지 않은 문제의 정답이 노출되므로 플레이어는 게임 종료 후에만 조회
+      if (!completed && !isSessionHost) {
+        throw new GameError('GAME_IN_PROGRESS', 'Recap is available after the game ends');
+      }
+
+      const recap = buildPlayerRecap(result, playerId, completed);
+      if (!recap) {
+        throw new GameError('PLAYER_NOT_FOUND', `Player ${playerId} has no recorded answers in session ${sessionId}`);
+      }
+
+      console.log(`✅ GAME_SERVICE: Recap for ${recap.playerName}: ${recap.correctCount}/${recap.totalQuestions} correct, score ${recap.score}`);
+      return recap;
+    } catch (error) {
+      console.error(`❌ GAME_SERVICE: Error getting player recap for ${sessionId}/${playerId}:`, error);
+      if (error instanceof GameError) {
+        throw error;
+      }
+      return null;
+    }
+  }
+
+  // 플레이어별 답변은 세션 호스트(전체)와 플레이어 본인(자기 것)에게만 포함 - 나머지는 빈 목록 (리캡 권한과 같은 기준)
+  async getSessionResults(sessionId: string, requester: RecapRequester | null): Promise<SessionResults | null> {
     try {
       console.log(`📊 GAME_SERVICE: Getting results for session ${sessionId}`);
       
       // 1. 먼저 저장된 게임 결과를 조회 (게임이 완료된 경우)
       console.log(`🎯 GAME_SERVICE: Checking for saved game result...`);
-      const savedGameResult = await dynamoService.getGameResult(sessionId);
+      const savedGameResult = await storage.getGameResult(sessionId);
       
       if (savedGameResult) {
         console.log(`✅ GAME_SERVICE: Found saved game result for session ${sessionId}`);
@@ -644,7 +1508,8 @@ class GameService {
           playerId: entry.playerId,
           playerName: entry.playerName,
           score: entry.score,
-          rank: entry.rank
+          rank: entry.rank,
+          streak: entry.streak ?? 0
         }));
         
         // 세션 정보도 함께 반환 (저장된 결과에서 재구성)
@@ -660,7 +1525,10 @@ class GameService {
             name: entry.playerName,
             sessionId,
             score: entry.score,
-            answers: [], // 상세 답변 정보는 저장하지 않음
+            // 예전 결과에는 답변 기록이 없음
+            answers: canViewAnswers(requester, sessionId, savedGameResult.hostId, entry.playerId)
+              ? savedGameResult.players?.find(p => p.playerId === entry.playerId)?.answers ?? []
+              : [],
             isOnline: false,
             joinedAt: savedGameResult.completedAt
           })),
@@ -686,7 +1554,7 @@ class GameService {
       console.log(`⚠️ GAME_SERVICE: No saved game result found, checking live session...`);
       
       // 2. 저장된 결과가 없으면 실시간 세션 데이터 조회
-      const session = await dynamoService.getSession(sessionId);
+      const session = await storage.getSession(sessionId);
       console.log(`🔍 GAME_SERVICE: Live session query result:`, session ? {
         id: session.id,
         status: session.status,
@@ -708,8 +1576,10 @@ class GameService {
 
       // 플레이어 데이터 로드
       console.log(`👥 GAME_SERVICE: Loading players for session ${sessionId}...`);
-      const players = await dynamoService.getSessionPlayers(sessionId);
-      session.players = players;
+      const players = await storage.getSessionPlayers(sessionId);
+      session.players = players.map(player =>
+        canViewAnswers(requester, sessionId, session.hostId, player.id) ? player : { ...player, answers: [] }
+      );
       
       console.log(`👥 GAME_SERVICE: Found ${players.length} players for session ${sessionId}`);
       if (players.length > 0) {
@@ -0,0 +1,30 @@
+// 키별 직렬 실행 - 같은 키의 작업은 호출 순서대로 하나씩, 다른 키는 동시에 실행
+// 한 프로세스 안에서만 유효 - 여러 인스턴스에 걸친 동시 기록은 저장소의 조건부 쓰기로 따로 막아야 함
+export class KeyedMutex {
+  private tails = new Map<string, Promise<void>>();
+
+  async runExclusive<T>(key: string, task: () => Promise<T>): Promise<T> {
+    const previous = this.tails.get(key) ?? Promise.resolve();
+    let release!: () => void;
+    const current = new Promise<void>(resolve => {
+      release = resolve;
+    });
+    const tail = previous.then(() => current);
+    this.tails.set(key, tail);
+
+    await previous;
+    try {
+      return await task();
+    } finally {
+      release();
+      // 뒤에 기다리는 작업이 없으면 정리
+      if (this.tails.get(key) === tail) {
+        this.tails.delete(key);
+      }
+    }
+  }
+
+  isLocked(key: string): boolean {
+    return this.tails.has(key);
+  }
+}
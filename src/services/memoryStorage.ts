@@ -0,0 +1,300 @@
+import { Quiz, GameSession, Player, SessionData, GameResult } from '../types';
+import { demoQuiz, isDemoQuiz } from '../demoData';
+import type { GameStorage } from './storage';
+
+// 외부 호출자가 저장된 객체를 직접 변경하지 못하도록 항상 복사본을 주고받음
+function clone<T>(value: T): T {
+  return structuredClone(value);
+}
+
+function byCompletedAtDesc(a: GameResult, b: GameResult): number {
+  return new Date(b.completedAt).getTime() - new Date(a.completedAt).getTime();
+}
+
+// 인메모리 저장소 - AWS 없이 로컬 개발/오프라인 데모용 (프로세스 재시작 시 데이터 소멸)
+export class MemoryStorageService implements GameStorage {
+  private quizzes = new Map<string, Quiz>();
+  private sessions = new Map<string, GameSession>();
+  private players = new Map<string, Map<string, Player>>();
+  private joinCodes = new Map<string, string>();
+  private hostSockets = new Map<string, string>();
+  private playerSockets = new Map<string, Map<string, string>>();
+  private gameResults = new Map<string, GameResult>();
+  private answerClaims = new Map<string, Set<string>>(); // sessionId -> attemptId#playerId
+  private correctCounts = new Map<string, Map<string, number>>(); // sessionId -> attemptId -> 정답자 수
+
+  private getPlayerMap(sessionId: string): Map<string, Player> {
+    let sessionPlayers = this.players.get(sessionId);
+    if (!sessionPlayers) {
+      sessionPlayers = new Map();
+      this.players.set(sessionId, sessionPlayers);
+    }
+    return sessionPlayers;
+  }
+
+  private getSocketMap(sessionId: string): Map<string, string> {
+    let sockets = this.playerSockets.get(sessionId);
+    if (!sockets) {
+      sockets = new Map();
+      this.playerSockets.set(sessionId, sockets);
+    }
+    return sockets;
+  }
+
+  // Quiz operations
+  async saveQuiz(quiz: Quiz): Promise<boolean> {
+    this.quizzes.set(quiz.id, clone(quiz));
+    return true;
+  }
+
+  async getQuiz(quizId: string): Promise<Quiz | null> {
+    if (isDemoQuiz(quizId)) {
+      return clone(demoQuiz);
+    }
+
+    const quiz = this.quizzes.get(quizId);
+    return quiz ? clone(quiz) : null;
+  }
+
+  async getQuizzesByCreator(creatorId: string): Promise<Quiz[]> {
+    return Array.from(this.quizzes.values())
+      .filter(quiz => quiz.creatorId === creatorId)
+      .sort((a, b) => new Date(b.updatedAt).getTime() - new Date(a.updatedAt).getTime())
+      .map(clone);
+  }
+
+  async deleteQuiz(quizId: string): Promise<boolean> {
+    this.quizzes.delete(quizId);
+    return true;
+  }
+
+  // Session operations
+  async saveSession(session: GameSession): Promise<boolean> {
+    this.sessions.set(session.id, clone(session));
+    return true;
+  }
+
+  async getSession(sessionId: string): Promise<GameSession | null> {
+    const session = this.sessions.get(sessionId);
+    return session ? clone(session) : null;
+  }
+
+  async updateSession(sessionId: string, updates: Partial<GameSession>): Promise<boolean> {
+    const session = this.sessions.get(sessionId);
+    if (!session) {
+      console.error(`❌ MEMORY_STORAGE: Session ${sessionId} not found for update`);
+      return false;
+    }
+
+    Object.assign(session, clone(updates));
+    return true;
+  }
+
+  async deleteSession(sessionId: string): Promise<boolean> {
+    this.sessions.delete(sessionId);
+    this.players.delete(sessionId);
+    this.hostSockets.delete(sessionId);
+    this.playerSockets.delete(sessionId);
+    this.answerClaims.delete(sessionId);
+    this.correctCounts.delete(sessionId);
+    return true;
+  }
+
+  async getSessionData(sessionId: string): Promise<SessionData | null> {
+    const session = await this.getSession(sessionId);
+    if (!session) return null;
+
+    session.players = await this.getSessionPlayers(sessionId);
+
+    return {
+      session,
+      hostSocketId: this.hostSockets.get(sessionId),
+      playerSocketIds: await this.getAllPlayerSockets(sessionId)
+    };
+  }
+
+  // Player operations
+  async savePlayer(sessionId: string, player: Player): Promise<boolean> {
+    this.getPlayerMap(sessionId).set(player.id, clone(player));
+    return true;
+  }
+
+  async getSessionPlayers(sessionId: string): Promise<Player[]> {
+    const sessionPlayers = this.players.get(sessionId);
+    return sessionPlayers ? Array.from(sessionPlayers.values()).map(clone) : [];
+  }
+
+  async updatePlayer(sessionId: string, playerId: string, updates: Partial<Player>): Promise<boolean> {
+    const player = this.players.get(sessionId)?.get(playerId);
+    if (!player) {
+      console.error(`❌ MEMORY_STORAGE: Player ${playerId} not found in session ${sessionId} for update`);
+      return false;
+    }
+
+    Object.assign(player, clone(updates));
+    return true;
+  }
+
+  async updatePlayerAnswers(sessionId: string, playerId: string, expectedVersion: number, updates: Pick<Player, 'answers' | 'score'>): Promise<boolean | null> {
+    const player = this.players.get(sessionId)?.get(playerId);
+    if (!player || (player.answersVersion ?? 0) !== expectedVersion) {
+      return false;
+    }
+
+    Object.assign(player, clone(updates), { answersVersion: expectedVersion + 1 });
+    return true;
+  }
+
+  async removePlayer(sessionId: string, playerId: string): Promise<boolean> {
+    this.players.get(sessionId)?.delete(playerId);
+    return true;
+  }
+
+  // 단일 스레드에서 await 없이 확인/증가하므로 원자적
+  async reservePlayerSlot(sessionId: string, maxPlayers: number): Promise<boolean> {
+    const session = this.sessions.get(sessionId);
+    if (!session) {
+      console.error(`❌ MEMORY_STORAGE: Session ${sessionId} not found for slot reservation`);
+      return false;
+    }
+
+    const playerCount = session.playerCount ?? 0;
+    if (playerCount >= maxPlayers) {
+      return false;
+    }
+
+    session.playerCount = playerCount + 1;
+    return true;
+  }
+
+  async releasePlayerSlot(sessionId: string): Promise<boolean> {
+    const session = this.sessions.get(sessionId);
+    if (!session) {
+      return false;
+    }
+
+    session.playerCount = Math.max((session.playerCount ?? 0) - 1, 0);
+    return true;
+  }
+
+  // Answer operations
+  async claimAnswer(sessionId: string, attemptId: string, playerId: string): Promise<boolean | null> {
+    let claims = this.answerClaims.get(sessionId);
+    if (!claims) {
+      claims = new Set();
+      this.answerClaims.set(sessionId, claims);
+    }
+
+    const key = `${attemptId}#${playerId}`;
+    if (claims.has(key)) {
+      return false;
+    }
+    claims.add(key);
+    return true;
+  }
+
+  async releaseAnswer(sessionId: string, attemptId: string, playerId: string): Promise<boolean> {
+    this.answerClaims.get(sessionId)?.delete(`${attemptId}#${playerId}`);
+    return true;
+  }
+
+  async incrementCorrectCount(sessionId: string, attemptId: string): Promise<number | null> {
+    let counts = this.correctCounts.get(sessionId);
+    if (!counts) {
+      counts = new Map();
+      this.correctCounts.set(sessionId, counts);
+    }
+
+    const count = (counts.get(attemptId) ?? 0) + 1;
+    counts.set(attemptId, count);
+    return count;
+  }
+
+  // Join code operations
+  async setJoinCode(joinCode: string, sessionId: string): Promise<boolean> {
+    this.joinCodes.set(joinCode, sessionId);
+    return true;
+  }
+
+  async getSessionByJoinCode(joinCode: string): Promise<string | null> {
+    return this.joinCodes.get(joinCode) || null;
+  }
+
+  // Socket management
+  async setHostSocket(sessionId: string, socketId: string): Promise<boolean> {
+    this.hostSockets.set(sessionId, socketId);
+    return true;
+  }
+
+  async getHostSocket(sessionId: string): Promise<string | null> {
+    return this.hostSockets.get(sessionId) || null;
+  }
+
+  async setPlayerSocket(sessionId: string, playerId: string, socketId: string): Promise<boolean> {
+    this.getSocketMap(sessionId).set(playerId, socketId);
+    return true;
+  }
+
+  async getPlayerSocket(sessionId: string, playerId: string): Promise<string | null> {
+    return this.playerSockets.get(sessionId)?.get(playerId) || null;
+  }
+
+  async getAllPlayerSockets(sessionId: string): Promise<{ [playerId: string]: string }> {
+    const sockets = this.playerSockets.get(sessionId);
+    return sockets ? Object.fromEntries(sockets) : {};
+  }
+
+  async removeSocket(sessionId: string, socketId: string): Promise<boolean> {
+    if (this.hostSockets.get(sessionId) === socketId) {
+      this.hostSockets.delete(sessionId);
+    }
+
+    const sockets = this.playerSockets.get(sessionId);
+    if (sockets) {
+      for (const [playerId, playerSocketId] of sockets) {
+        if (playerSocketId === socketId) {
+          sockets.delete(playerId);
+          break;
+        }
+      }
+    }
+
+    return true;
+  }
+
+  // Game Results operations
+  async saveGameResult(gameResult: GameResult): Promise<boolean> {
+    this.gameResults.set(gameResult.sessionId, clone(gameResult));
+    return true;
+  }
+
+  async getGameResult(sessionId: string): Promise<GameResult | null> {
+    const gameResult = this.gameResults.get(sessionId);
+    return gameResult ? clone(gameResult) : null;
+  }
+
+  async getRecentGameResults(limit: number = 20): Promise<GameResult[]> {
+    return Array.from(this.gameResults.values())
+      .sort(byCompletedAtDesc)
+      .slice(0, limit)
+      .map(clone);
+  }
+
+  async getPublicGameResults(quizTitle?: string, limit: number = 50): Promise<GameResult[]> {
+    return Array.from(this.gameResults.values())
+      .filter(result => result.isPublic && (!quizTitle || result.quizTitle === quizTitle))
+      .sort(byCompletedAtDesc)
+      .slice(0, limit)
+      .map(clone);
+  }
+
+  async getGameResultsByQuiz(quizId: string, limit: number = 20): Promise<GameResult[]> {
+    return Array.from(this.gameResults.values())
+      .filter(result => result.quizId === quizId)
+      .sort(byCompletedAtDesc)
+      .slice(0, limit)
+      .map(clone);
+  }
+}
+
+export default MemoryStorageService;
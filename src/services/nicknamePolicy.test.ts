@@ -0,0 +1,75 @@
+import { describe, expect, it } from '@jest/globals';
+import { GameError } from './errors';
+import { findNicknameViolation, makeUniqueNickname, nicknameKey, normalizeNickname, resolveNickname, validateNickname } from './nicknamePolicy';
+
+const policy = { minLength: 2, maxLength: 6 };
+
+describe('normalizeNickname', () => {
+  it('composes Hangul, removes invisible characters and collapses spaces', () => {
+    expect(normalizeNickname('가나')).toBe('가나');
+    expect(normalizeNickname('  a​b \t c  ')).toBe('ab c');
+  });
+});
+
+describe('nicknameKey', () => {
+  it('treats full-width and case variants as the same name', () => {
+    expect(nicknameKey('ＡＢＣ')).toBe(nicknameKey('abc'));
+  });
+});
+
+describe('findNicknameViolation', () => {
+  it('catches blocked words hidden with spaces or symbols', () => {
+    expect(findNicknameViolation('f.u.c.k')).not.toBeNull();
+    expect(findNicknameViolation('시 발')).not.toBeNull();
+    expect(findNicknameViolation('용감한 호랑이')).toBeNull();
+  });
+});
+
+describe('validateNickname', () => {
+  it('returns the normalized name', () => {
+    expect(validateNickname('  민수  ', policy)).toBe('민수');
+  });
+
+  it('rejects names outside the length limits', () => {
+    expect(() => validateNickname('a', policy)).toThrow(GameError);
+    expect(() => validateNickname('abcdefg', policy)).toThrow(GameError);
+  });
+
+  it('rejects blocked names with NICKNAME_NOT_ALLOWED', () => {
+    try {
+      validateNickname('shit', policy);
+      throw new Error('expected validateNickname to throw');
+    } catch (error) {
+      expect(error).toBeInstanceOf(GameError);
+      expect((error as GameError).code).toBe('NICKNAME_NOT_ALLOWED');
+    }
+  });
+});
+
+describe('makeUniqueNickname', () => {
+  it('adds a number when the name is taken', () => {
+    expect(makeUniqueNickname('민수', ['민수'], policy)).toBe('민수2');
+    expect(makeUniqueNickname('민수', ['민수', '민수2'], policy)).toBe('민수3');
+  });
+
+  it('truncates to stay within the maximum length', () => {
+    expect(makeUniqueNickname('abcdef', ['ABCDEF'], policy)).toBe('abcde2');
+  });
+});
+
+describe('resolveNickname', () => {
+  it('keeps a valid unique name without a notice', () => {
+    expect(resolveNickname('민수', [], 'custom', policy)).toEqual({ name: '민수' });
+  });
+
+  it('reports duplicate and normalized names', () => {
+    expect(resolveNickname('민수', ['민수'], 'custom', policy).nameChanged?.code).toBe('duplicate');
+    expect(resolveNickname(' 민수 ', [], 'custom', policy).nameChanged?.code).toBe('normalized');
+  });
+
+  it('assigns a server generated name in generated mode', () => {
+    const result = resolveNickname('아무거나', [], 'generated', { minLength: 1, maxLength: 20 });
+    expect(result.name).not.toBe('아무거나');
+    expect(result.nameChanged?.code).toBe('generated');
+  });
+});
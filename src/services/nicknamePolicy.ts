@@ -0,0 +1,190 @@
+import { GameError } from './errors';
+import { NameChangeNotice, NicknameMode } from '../types';
+
+export const NICKNAME_MODES: readonly NicknameMode[] = ['custom', 'generated'];
+
+export interface NicknamePolicy {
+  minLength: number;
+  maxLength: number;
+}
+
+// 금칙어 필터 - 정규화된 비교용 키를 받아 걸린 단어(또는 null)를 반환
+export interface NicknameFilter {
+  name: string;
+  findViolation(compactKey: string): string | null;
+}
+
+export const NICKNAME_POLICY: NicknamePolicy = {
+  minLength: parseInt(process.env.NICKNAME_MIN_LENGTH || '1', 10),
+  maxLength: parseInt(process.env.NICKNAME_MAX_LENGTH || '20', 10)
+};
+
+// 기본 금칙어 (비교용 키 기준 부분 일치) - 추가 단어는 NICKNAME_BLOCKLIST(쉼표 구분)로 지정
+const DEFAULT_BLOCKLIST = [
+  // 한국어 (초성 축약 포함)
+  '씨발', '시발', '씨바', 'ㅅㅂ', 'ㅆㅂ', '병신', 'ㅂㅅ', '개새끼', '개새기', '좆', '존나', 'ㅈㄴ',
+  '지랄', 'ㅈㄹ', '미친놈', '미친년', '염병', '느금마', '니애미', '창녀',
+  // English
+  'fuck', 'fuk', 'shit', 'bitch', 'asshole', 'bastard', 'cunt', 'pussy', 'slut', 'whore',
+  'nigger', 'nigga', 'faggot', 'retard'
+];
+
+const INVISIBLE_CHARS = /[\p{Cc}\p{Cf}]/gu;
+const WHITESPACE = /\s+/gu;
+const NON_ALPHANUMERIC = /[^\p{L}\p{N}]/gu;
+
+// 표시용 이름 정규화 - NFC(풀어 쓴 한글 자모를 완성형으로), 보이지 않는 문자 제거, 공백 정리
+// NFKC는 "ㅋㅋ" 같은 호환 자모를 조합용 자모로 바꿔 깨져 보이므로 비교용 키에만 사용
+export function normalizeNickname(raw: string): string {
+  return raw
+    .normalize('NFC')
+    .replace(INVISIBLE_CHARS, '')
+    .replace(WHITESPACE, ' ')
+    .trim();
+}
+
+// 중복/차단 비교용 키 - NFKC(전각 문자 등) + 대소문자 무시 (보기에 같은 이름은 같은 키)
+export function nicknameKey(name: string): string {
+  return normalizeNickname(name).normalize('NFKC').toLowerCase();
+}
+
+// 금칙어 비교용 키 - 공백/기호를 빼서 "f.u.c.k", "시 발" 같은 우회를 잡음
+function compactKey(name: string): string {
+  return nicknameKey(name).replace(NON_ALPHANUMERIC, '');
+}
+
+function nicknameLength(name: string): number {
+  return Array.from(name).length;
+}
+
+function truncate(name: string, maxLength: number): string {
+  return Array.from(name).slice(0, maxLength).join('').trim();
+}
+
+export function createBlocklistFilter(name: string, words: string[]): NicknameFilter {
+  const keys = words.map(compactKey).filter(key => key.length > 0);
+  return {
+    name,
+    findViolation: (key: string) => keys.find(word => key.includes(word)) ?? null
+  };
+}
+
+const nicknameFilters: NicknameFilter[] = [
+  createBlocklistFilter('default', [
+    ...DEFAULT_BLOCKLIST,
+    ...(process.env.NICKNAME_BLOCKLIST || '').split(',')
+  ])
+];
+
+// 외부 필터(예: 욕설 탐지 API 캐시) 추가용
+export function registerNicknameFilter(filter: NicknameFilter): void {
+  nicknameFilters.push(filter);
+}
+
+export function findNicknameViolation(name: string): { filter: string; match: string } | null {
+  const key = compactKey(name);
+  for (const filter of nicknameFilters) {
+    const match = filter.findViolation(key);
+    if (match) {
+      return { filter: filter.name, match };
+    }
+  }
+  return null;
+}
+
+// 직접 입력한 닉네임 검증 - 정규화된 이름 반환, 규칙 위반 시 GameError
+export function validateNickname(raw: string, policy: NicknamePolicy = NICKNAME_POLICY): string {
+  const name = normalizeNickname(raw);
+  const length = nicknameLength(name);
+
+  if (length < policy.minLength || length > policy.maxLength) {
+    throw new GameError('INVALID_NICKNAME', `Nickname must be between ${policy.minLength} and ${policy.maxLength} characters`, {
+      minLength: policy.minLength,
+      maxLength: policy.maxLength
+    });
+  }
+
+  const violation = findNicknameViolation(name);
+  if (violation) {
+    console.warn(`🚫 NICKNAME: Rejected nickname "${name}" (filter: ${violation.filter})`);
+    throw new GameError('NICKNAME_NOT_ALLOWED', 'This nickname is not allowed. Please choose another one');
+  }
+
+  return name;
+}
+
+// 중복이면 숫자를 붙여 고유하게 (길이 제한 안에서)
+export function makeUniqueNickname(name: string, takenNames: string[], policy: NicknamePolicy = NICKNAME_POLICY): string {
+  const takenKeys = new Set(takenNames.map(nicknameKey));
+  let candidate = name;
+  let counter = 1;
+
+  while (takenKeys.has(nicknameKey(candidate))) {
+    counter++;
+    const suffix = String(counter);
+    candidate = `${truncate(name, policy.maxLength - suffix.length)}${suffix}`;
+  }
+
+  return candidate;
+}
+
+const FRIENDLY_ADJECTIVES = [
+  '용감한', '신나는', '졸린', '배고픈', '빛나는', '수줍은', '재빠른', '느긋한', '똑똑한', '명랑한',
+  '씩씩한', '엉뚱한', '귀여운', '행복한', '반짝이는', '조용한', '호기심많은', '날쌘', '다정한', '든든한'
+];
+
+const FRIENDLY_ANIMALS = [
+  '호랑이', '고양이', '강아지', '판다', '펭귄', '여우', '토끼', '다람쥐', '수달', '코알라',
+  '돌고래', '부엉이', '햄스터', '너구리', '거북이', '고래', '사자', '기린', '오리', '알파카'
+];
+
+function pick<T>(items: readonly T[]): T {
+  return items[Math.floor(Math.random() * items.length)];
+}
+
+// 서버가 배정하는 친근한 이름 ("용감한 호랑이") - 조합이 다 차면 숫자를 붙임
+export function generateFriendlyName(takenNames: string[], policy: NicknamePolicy = NICKNAME_POLICY): string {
+  const takenKeys = new Set(takenNames.map(nicknameKey));
+
+  for (let attempt = 0; attempt < 20; attempt++) {
+    const name = truncate(`${pick(FRIENDLY_ADJECTIVES)} ${pick(FRIENDLY_ANIMALS)}`, policy.maxLength);
+    if (!takenKeys.has(nicknameKey(name))) {
+      return name;
+    }
+  }
+
+  return makeUniqueNickname(truncate(`${pick(FRIENDLY_ADJECTIVES)} ${pick(FRIENDLY_ANIMALS)}`, policy.maxLength), takenNames, policy);
+}
+
+// 세션의 닉네임 모드에 따라 최종 이름 결정 - 요청한 이름과 다르면 nameChanged 알림 포함
+export function resolveNickname(
+  requested: string,
+  takenNames: string[],
+  mode: NicknameMode = 'custom',
+  policy: NicknamePolicy = NICKNAME_POLICY
+): { name: string; nameChanged?: NameChangeNotice } {
+  if (mode === 'generated') {
+    const name = generateFriendlyName(takenNames, policy);
+    return {
+      name,
+      nameChanged: { original: requested, final: name, reason: '서버가 닉네임을 배정함', code: 'generated' }
+    };
+  }
+
+  const normalized = validateNickname(requested, policy);
+  const name = makeUniqueNickname(normalized, takenNames, policy);
+
+  if (name !== normalized) {
+    return {
+      name,
+      nameChanged: { original: requested, final: name, reason: '이름 중복으로 인한 자동 변경', code: 'duplicate' }
+    };
+  }
+  if (name !== requested) {
+    return {
+      name,
+      nameChanged: { original: requested, final: name, reason: '닉네임 규칙에 맞게 정리됨', code: 'normalized' }
+    };
+  }
+  return { name };
+}
@@ -0,0 +1,128 @@
+import {
+  DisplayQuestion,
+  GameSession,
+  LobbyStatusContent,
+  Player,
+  Question,
+  QuestionStartedContent,
+  ServerMessageContentMap,
+  ServerMessageType,
+  SpectatorJoinedContent,
+  SpectatorMessageContentMap,
+  SpectatorMessageType,
+  SpectatorPlayer,
+  SpectatorQuestionContent
+} from '../types';
+import { getQuestionType } from './questionTypes';
+import { getCurrentQuestion } from './questionFlow';
+import { toPlayerAnswerRevealed, toPlayerQuestionStarted } from './shuffle';
+
+// 역할별 페이로드 변환 - 관전자(큰 화면)는 정답/기기 정보 없이 화면에 필요한 값만 받음
+
+export function toDisplayQuestion(question: Question): DisplayQuestion {
+  return {
+    id: question.id,
+    type: getQuestionType(question),
+    text: question.text,
+    choices: question.choices,
+    timeLimit: question.timeLimit,
+    points: question.points,
+    unit: question.type === 'numeric' ? question.unit : undefined
+  };
+}
+
+export function toSpectatorPlayer(player: Player): SpectatorPlayer {
+  return {
+    id: player.id,
+    name: player.name,
+    teamId: player.teamId,
+    isOnline: player.isOnline
+  };
+}
+
+function toSpectatorQuestion(content: QuestionStartedContent): SpectatorQuestionContent {
+  return { ...content, question: toDisplayQuestion(content.question) };
+}
+
+type SpectatorPresenters = {
+  [K in Exclude<SpectatorMessageType, 'spectator_joined'>]: (content: ServerMessageContentMap[K]) => SpectatorMessageContentMap[K];
+};
+
+// 여기 없는 메시지 유형은 관전자에게 보내지 않음
+const SPECTATOR_PRESENTERS: SpectatorPresenters = {
+  player_joined: toSpectatorPlayer,
+  player_online: toSpectatorPlayer,
+  player_left: content => content,
+  lobby_status: content => content,
+  game_started: toSpectatorQuestion,
+  question_started: toSpectatorQuestion,
+  question_closed: content => content,
+  question_skipped: content => content,
+  game_paused: content => content,
+  game_resumed: content => content,
+  time_extended: content => content,
+  player_answered: content => content,
+  answer_revealed: content => content, // 공개 시점에는 정답을 보여줘도 됨
+  game_ended: content => content,
+  error: content => content
+};
+
+// 관전자용 페이로드 - 전달하지 않는 메시지면 null
+export function presentForSpectator<T extends ServerMessageType>(type: T, content: ServerMessageContentMap[T]): unknown | null {
+  const presenter = (SPECTATOR_PRESENTERS as Partial<Record<ServerMessageType, (content: ServerMessageContentMap[T]) => unknown>>)[type];
+  return presenter ? presenter(content) : null;
+}
+
+type PlayerPresenters = {
+  [K in ServerMessageType]?: (content: ServerMessageContentMap[K], seed: string, playerId: string) => ServerMessageContentMap[K];
+};
+
+// 보기 섞기 세션의 플레이어용 변환 - 여기 없는 메시지 유형은 그대로 전달
+const PLAYER_PRESENTERS: PlayerPresenters = {
+  game_started: toPlayerQuestionStarted,
+  question_started: toPlayerQuestionStarted,
+  answer_revealed: toPlayerAnswerRevealed
+};
+
+// 플레이어용 페이로드 - 보기 순서를 플레이어 화면 기준으로 바꿈
+export function presentForPlayer<T extends ServerMessageType>(type: T, content: ServerMessageContentMap[T], seed: string, playerId: string): ServerMessageContentMap[T] {
+  const presenter = PLAYER_PRESENTERS[type] as PlayerPresenters[T];
+  return presenter ? presenter(content, seed, playerId) : content;
+}
+
+// 관전자 입장 시 현재 세션 상태 (진행 중이면 열린 문제 포함)
+export function buildSpectatorSnapshot(session: GameSession, lobby: LobbyStatusContent): SpectatorJoinedContent {
+  const questions = session.quiz?.questions ?? [];
+  const snapshot: SpectatorJoinedContent = {
+    sessionId: session.id,
+    joinCode: session.joinCode,
+    status: session.status,
+    quizTitle: session.quiz?.title ?? '',
+    totalQuestions: questions.length,
+    teams: session.settings?.teamMode?.teams,
+    players: session.players.map(toSpectatorPlayer),
+    lobby
+  };
+
+  const openQuestion = getOpenQuestion(session);
+  if (openQuestion) {
+    snapshot.currentQuestion = toSpectatorQuestion(openQuestion);
+  }
+
+  return snapshot;
+}
+
+// 진행 중(일시정지 포함)인 세션에서 지금 화면에 나온 문제 (question_started와 같은 형태) - 없으면 undefined
+export function getOpenQuestion(session: GameSession): QuestionStartedContent | undefined {
+  const current = getCurrentQuestion(session);
+  if ((session.status !== 'active' && session.status !== 'paused') || !current || !session.questionStartedAt || !session.questionDeadline) {
+    return undefined;
+  }
+  return {
+    question: current.question,
+    questionIndex: current.questionIndex,
+    timeLimit: current.question.timeLimit,
+    startedAt: session.questionStartedAt,
+    deadline: session.questionDeadline
+  };
+}
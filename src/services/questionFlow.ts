@@ -0,0 +1,50 @@
+import { GameSession, Question } from '../types';
+
+// 문제 진행 상태 - 화면에 나온 문제는 activeQuestionIndex로 명시적으로 관리
+// (activeQuestionIndex가 없는 예전 세션은 currentQuestionIndex - 1로 추정)
+
+// 현재 화면에 나온 문제의 인덱스 (0부터) - 아직 문제를 내지 않았으면 null
+export function getActiveQuestionIndex(session: GameSession): number | null {
+  if (session.activeQuestionIndex !== undefined) {
+    return session.activeQuestionIndex;
+  }
+  return session.currentQuestionIndex > 0 ? session.currentQuestionIndex - 1 : null;
+}
+
+// 현재 문제와 메시지용 번호 (1부터)
+export function getCurrentQuestion(session: GameSession): { question: Question; questionIndex: number } | null {
+  const index = getActiveQuestionIndex(session);
+  const question = index !== null ? session.quiz?.questions[index] : undefined;
+  return question && index !== null ? { question, questionIndex: index + 1 } : null;
+}
+
+export function isQuestionSkipped(session: GameSession, questionId: string): boolean {
+  return session.skippedQuestionIds?.includes(questionId) ?? false;
+}
+
+// 문제를 (다시) 낼 때 출제 기록 갱신 - 최근에 낸 순서가 되도록 맨 뒤로 옮기고 건너뜀 표시 해제
+export function markQuestionAsked(session: GameSession, questionId: string): Pick<GameSession, 'askedQuestionIds' | 'skippedQuestionIds'> {
+  const asked = getAskedQuestionIds(session).filter(id => id !== questionId);
+  return {
+    askedQuestionIds: [...asked, questionId],
+    skippedQuestionIds: (session.skippedQuestionIds ?? []).filter(id => id !== questionId)
+  };
+}
+
+// 건너뛴 문제는 출제 기록(연속 정답 계산)에서 제외
+export function markQuestionSkipped(session: GameSession, questionId: string): Pick<GameSession, 'askedQuestionIds' | 'skippedQuestionIds'> {
+  return {
+    askedQuestionIds: getAskedQuestionIds(session).filter(id => id !== questionId),
+    skippedQuestionIds: [...(session.skippedQuestionIds ?? []).filter(id => id !== questionId), questionId]
+  };
+}
+
+// 지금까지 출제된 문제 ID (출제 순서대로, 건너뛴 문제 제외)
+export function getAskedQuestionIds(session: GameSession): string[] {
+  if (session.askedQuestionIds) {
+    return session.askedQuestionIds;
+  }
+  return (session.quiz?.questions ?? [])
+    .slice(0, session.currentQuestionIndex)
+    .map(question => question.id);
+}
@@ -0,0 +1,39 @@
+interface ActiveTimer {
+  questionId: string;
+  deadline: number;
+  handle: NodeJS.Timeout;
+}
+
+// 세션별 문제 제한시간 타이머 - 세션당 하나의 문제만 열려 있음
+class QuestionTimerService {
+  private timers = new Map<string, ActiveTimer>();
+
+  start(sessionId: string, questionId: string, deadline: number, onExpire: (questionId: string) => void): void {
+    this.clear(sessionId);
+
+    const delay = Math.max(0, deadline - Date.now());
+    const handle = setTimeout(() => {
+      this.timers.delete(sessionId);
+      console.log(`⏰ QUESTION_TIMER: Time is up for question ${questionId} in session ${sessionId}`);
+      onExpire(questionId);
+    }, delay);
+
+    this.timers.set(sessionId, { questionId, deadline, handle });
+    console.log(`⏱️ QUESTION_TIMER: Question ${questionId} in session ${sessionId} closes in ${delay}ms`);
+  }
+
+  clear(sessionId: string): void {
+    const timer = this.timers.get(sessionId);
+    if (timer) {
+      clearTimeout(timer.handle);
+      this.timers.delete(sessionId);
+    }
+  }
+
+  getRemainingMs(sessionId: string): number | null {
+    const timer = this.timers.get(sessionId);
+    return timer ? Math.max(0, timer.deadline - Date.now()) : null;
+  }
+}
+
+export default new QuestionTimerService();
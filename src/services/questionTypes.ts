@@ -0,0 +1,242 @@
+import { GameError } from './errors';
+import {
+  Question,
+  QuestionType,
+  CorrectAnswer,
+  SubmittedAnswer,
+  PlayerAnswer,
+  SubmitAnswerContent,
+  AnswerStat,
+  OrderingPositionStat,
+  NumericAnswerStats,
+  ValidationIssue
+} from '../types';
+
+export const QUESTION_TYPES: readonly QuestionType[] = ['single_choice', 'true_false', 'multi_select', 'ordering', 'numeric'];
+
+export function getQuestionType(question: Question): QuestionType {
+  return question.type ?? 'single_choice';
+}
+
+function isChoiceIndex(question: Question, value: unknown): value is number {
+  return Number.isInteger(value) && (value as number) >= 0 && (value as number) < question.choices.length;
+}
+
+// 0..n-1 인덱스가 한 번씩 모두 등장하는 순열인지 확인
+function isPermutation(order: number[], length: number): boolean {
+  return order.length === length && new Set(order).size === length && order.every(i => Number.isInteger(i) && i >= 0 && i < length);
+}
+
+function invalidAnswer(question: Question, issues: ValidationIssue[]): GameError {
+  return new GameError('INVALID_ANSWER', `Invalid answer for ${getQuestionType(question)} question`, issues);
+}
+
+// submit_answer content를 문제 유형에 맞는 답안으로 변환 - 형식이 맞지 않으면 INVALID_ANSWER
+export function parseAnswer(question: Question, content: SubmitAnswerContent): SubmittedAnswer {
+  switch (question.type) {
+    case undefined:
+    case 'single_choice':
+      if (!isChoiceIndex(question, content.selectedChoice)) {
+        throw invalidAnswer(question, [{ field: 'content.selectedChoice', message: `must be a choice index between 0 and ${question.choices.length - 1}` }]);
+      }
+      return { type: 'single_choice', selectedChoice: content.selectedChoice };
+
+    case 'true_false':
+      if (typeof content.value !== 'boolean') {
+        throw invalidAnswer(question, [{ field: 'content.value', message: 'must be a boolean' }]);
+      }
+      return { type: 'true_false', value: content.value };
+
+    case 'multi_select': {
+      const selected = content.selectedChoices;
+      if (!Array.isArray(selected) || !selected.every(index => isChoiceIndex(question, index))) {
+        throw invalidAnswer(question, [{ field: 'content.selectedChoices', message: 'must be an array of valid choice indices' }]);
+      }
+      if (new Set(selected).size !== selected.length) {
+        throw invalidAnswer(question, [{ field: 'content.selectedChoices', message: 'must not contain duplicates' }]);
+      }
+      return { type: 'multi_select', selectedChoices: [...selected].sort((a, b) => a - b) };
+    }
+
+    case 'ordering':
+      if (!Array.isArray(content.order) || !isPermutation(content.order, question.choices.length)) {
+        throw invalidAnswer(question, [{ field: 'content.order', message: `must list every choice index (0-${question.choices.length - 1}) exactly once` }]);
+      }
+      return { type: 'ordering', order: [...content.order] };
+
+    case 'numeric':
+      if (typeof content.value !== 'number' || !Number.isFinite(content.value)) {
+        throw invalidAnswer(question, [{ field: 'content.value', message: 'must be a number' }]);
+      }
+      return { type: 'numeric', value: content.value };
+  }
+}
+
+export function isAnswerCorrect(question: Question, answer: SubmittedAnswer): boolean {
+  switch (question.type) {
+    case undefined:
+    case 'single_choice':
+      return answer.type === 'single_choice' && answer.selectedChoice === question.correctAnswer;
+
+    case 'true_false':
+      return answer.type === 'true_false' && answer.value === question.correctAnswer;
+
+    case 'multi_select': {
+      if (answer.type !== 'multi_select') return false;
+      const correct = new Set(question.correctAnswers);
+      return answer.selectedChoices.length === correct.size && answer.selectedChoices.every(index => correct.has(index));
+    }
+
+    case 'ordering':
+      return answer.type === 'ordering' && answer.order.every((choiceIndex, position) => question.correctOrder[position] === choiceIndex);
+
+    case 'numeric':
+      return answer.type === 'numeric' && answer.value >= question.correctRange.min && answer.value <= question.correctRange.max;
+  }
+}
+
+export function getCorrectAnswer(question: Question): CorrectAnswer {
+  switch (question.type) {
+    case undefined:
+    case 'single_choice':
+    case 'true_false':
+      return question.correctAnswer;
+    case 'multi_select':
+      return question.correctAnswers;
+    case 'ordering':
+      return question.correctOrder;
+    case 'numeric':
+      return question.correctRange;
+  }
+}
+
+// 정답 공개 화면에 표시할 정답 문자열
+export function describeCorrectAnswer(question: Question): string {
+  switch (question.type) {
+    case undefined:
+    case 'single_choice':
+      return question.choices[question.correctAnswer];
+    case 'true_false':
+      return question.choices[question.correctAnswer ? 0 : 1] ?? String(question.correctAnswer);
+    case 'multi_select':
+      return question.correctAnswers.map(index => question.choices[index]).join(', ');
+    case 'ordering':
+      return question.correctOrder.map(index => question.choices[index]).join(' → ');
+    case 'numeric': {
+      const { min, max } = question.correctRange;
+      const range = min === max ? `${min}` : `${min} ~ ${max}`;
+      return question.unit ? `${range} ${question.unit}` : range;
+    }
+  }
+}
+
+// 플레이어가 제출한 답안을 보기 텍스트로 표시 (문제 원본 없이 보기 목록만으로)
+export function describeSubmittedAnswer(choices: string[], answer: SubmittedAnswer): string {
+  switch (answer.type) {
+    case 'single_choice':
+      return choices[answer.selectedChoice] ?? String(answer.selectedChoice);
+    case 'true_false':
+      return choices[answer.value ? 0 : 1] ?? String(answer.value);
+    case 'multi_select':
+      return answer.selectedChoices.map(index => choices[index] ?? String(index)).join(', ');
+    case 'ordering':
+      return answer.order.map(index => choices[index] ?? String(index)).join(' → ');
+    case 'numeric':
+      return String(answer.value);
+  }
+}
+
+// 예전 데이터(answer 필드 없음)도 단일 선택 답안으로 읽을 수 있도록 변환
+export function getSubmittedAnswer(playerAnswer: PlayerAnswer): SubmittedAnswer | null {
+  if (playerAnswer.answer) {
+    return playerAnswer.answer;
+  }
+  if (playerAnswer.selectedChoice !== undefined) {
+    return { type: 'single_choice', selectedChoice: playerAnswer.selectedChoice };
+  }
+  return null;
+}
+
+function median(values: number[]): number {
+  const sorted = [...values].sort((a, b) => a - b);
+  const middle = Math.floor(sorted.length / 2);
+  return sorted.length % 2 === 0 ? (sorted[middle - 1] + sorted[middle]) / 2 : sorted[middle];
+}
+
+export interface RevealStats {
+  answerStats: AnswerStat[];
+  orderingStats?: OrderingPositionStat[];
+  numericStats?: NumericAnswerStats;
+}
+
+// 정답 공개 시 문제 유형에 맞는 답변 통계 생성
+export function buildRevealStats(question: Question, playerAnswers: PlayerAnswer[]): RevealStats {
+  const answers = playerAnswers
+    .map(getSubmittedAnswer)
+    .filter((answer): answer is SubmittedAnswer => answer !== null);
+
+  switch (question.type) {
+    case undefined:
+    case 'single_choice':
+      return {
+        answerStats: question.choices.map((choice, index) => ({
+          choiceIndex: index,
+          choiceText: choice,
+          count: answers.filter(answer => answer.type === 'single_choice' && answer.selectedChoice === index).length,
+          isCorrect: index === question.correctAnswer
+        }))
+      };
+
+    case 'true_false':
+      // choice 0 = 참, choice 1 = 거짓
+      return {
+        answerStats: [true, false].map((value, index) => ({
+          choiceIndex: index,
+          choiceText: question.choices[index] ?? String(value),
+          count: answers.filter(answer => answer.type === 'true_false' && answer.value === value).length,
+          isCorrect: value === question.correctAnswer
+        }))
+      };
+
+    case 'multi_select':
+      // count = 해당 보기를 선택한 플레이어 수
+      return {
+        answerStats: question.choices.map((choice, index) => ({
+          choiceIndex: index,
+          choiceText: choice,
+          count: answers.filter(answer => answer.type === 'multi_select' && answer.selectedChoices.includes(index)).length,
+          isCorrect: question.correctAnswers.includes(index)
+        }))
+      };
+
+    case 'ordering':
+      return {
+        answerStats: [],
+        orderingStats: question.correctOrder.map((choiceIndex, position) => ({
+          position,
+          choiceIndex,
+          choiceText: question.choices[choiceIndex],
+          correctCount: answers.filter(answer => answer.type === 'ordering' && answer.order[position] === choiceIndex).length
+        }))
+      };
+
+    case 'numeric': {
+      const values = answers
+        .filter((answer): answer is Extract<SubmittedAnswer, { type: 'numeric' }> => answer.type === 'numeric')
+        .map(answer => answer.value);
+      const { min, max } = question.correctRange;
+
+      return {
+        answerStats: [],
+        numericStats: {
+          count: values.length,
+          inRangeCount: values.filter(value => value >= min && value <= max).length,
+          average: values.length > 0 ? values.reduce((sum, value) => sum + value, 0) / values.length : null,
+          median: values.length > 0 ? median(values) : null,
+          lowest: values.length > 0 ? Math.min(...values) : null,
+          highest: values.length > 0 ? Math.max(...values) : null
+        }
+      };
+    }
+  }
+}
@@ -0,0 +1,100 @@
+import { describe, expect, it } from '@jest/globals';
+import { DEFAULT_POINTS, DEFAULT_TIME_LIMIT, importQuiz, importQuizFromCsv, importQuizFromText } from './quizImport';
+
+describe('importQuizFromCsv', () => {
+  it('imports single choice rows with defaults', () => {
+    const result = importQuizFromCsv('question,choice1,choice2,choice3,correct\n대한민국의 수도는?,서울,부산,대구,A\n');
+
+    expect(result.issues).toEqual([]);
+    expect(result.questions).toEqual([
+      { text: '대한민국의 수도는?', choices: ['서울', '부산', '대구'], correctAnswer: 0, timeLimit: DEFAULT_TIME_LIMIT, points: DEFAULT_POINTS }
+    ]);
+    expect(result.questionLines).toEqual([2]);
+  });
+
+  it('reads quoted fields, Korean headers and other question types', () => {
+    const csv = [
+      '문제,유형,보기1,보기2,보기3,정답,제한시간,배점,단위',
+      '"쉼표, 포함",multi_select,a,b,c,1;3,30,200,',
+      '물은 100도에서 끓는다,true_false,,,,참,,,',
+      '한국의 인구는?,numeric,,,,5000~5200,,,만 명'
+    ].join('\n');
+    const result = importQuizFromCsv(csv);
+
+    expect(result.issues).toEqual([]);
+    expect(result.questions[0]).toMatchObject({ type: 'multi_select', text: '쉼표, 포함', correctAnswers: [0, 2], timeLimit: 30, points: 200 });
+    expect(result.questions[1]).toMatchObject({ type: 'true_false', correctAnswer: true });
+    expect(result.questions[2]).toMatchObject({ type: 'numeric', choices: [], correctRange: { min: 5000, max: 5200 }, unit: '만 명' });
+  });
+
+  it('reports row issues with line numbers and skips those rows', () => {
+    const result = importQuizFromCsv('question,choice1,choice2,correct,points\n좋은 문제,a,b,1,\n나쁜 문제,a,b,z,-5\n');
+
+    expect(result.questions).toHaveLength(1);
+    expect(result.issues).toEqual([
+      { line: 3, field: 'points', message: 'Points must be a positive number' },
+      { line: 3, field: 'correct', message: '"z" does not match any choice' }
+    ]);
+  });
+
+  it('requires the question and correct columns', () => {
+    const result = importQuizFromCsv('choice1,choice2\na,b\n');
+    expect(result.issues.map(issue => issue.field)).toEqual(['question', 'correct']);
+  });
+});
+
+describe('importQuizFromText', () => {
+  it('imports a titled quiz with every question style', () => {
+    const text = [
+      '# 상식 퀴즈',
+      '',
+      '대한민국의 수도는?',
+      '- [x] 서울',
+      '- [ ] 부산',
+      'time: 15',
+      '',
+      '짝수를 고르세요',
+      '- [x] 2',
+      '- [ ] 3',
+      '- [x] 4',
+      '',
+      '지구는 둥글다',
+      '= 참',
+      '',
+      '원주율은?',
+      '= 3.14~3.15',
+      '',
+      '작은 수부터',
+      '1) 하나',
+      '2) 둘',
+      '3) 셋'
+    ].join('\n');
+    const result = importQuizFromText(text);
+
+    expect(result.issues).toEqual([]);
+    expect(result.title).toBe('상식 퀴즈');
+    expect(result.questionLines).toEqual([3, 8, 13, 16, 19]);
+    expect(result.questions[0]).toMatchObject({ text: '대한민국의 수도는?', choices: ['서울', '부산'], correctAnswer: 0, timeLimit: 15 });
+    expect(result.questions[1]).toMatchObject({ type: 'multi_select', correctAnswers: [0, 2] });
+    expect(result.questions[2]).toMatchObject({ type: 'true_false', correctAnswer: true });
+    expect(result.questions[3]).toMatchObject({ type: 'numeric', correctRange: { min: 3.14, max: 3.15 } });
+
+    // 순서 문제는 보기가 섞여도 정답 순서는 원래 나열 순서
+    const ordering = result.questions[4];
+    expect(ordering.type).toBe('ordering');
+    expect(ordering.correctOrder!.map(index => ordering.choices![index])).toEqual(['하나', '둘', '셋']);
+  });
+
+  it('reports questions without a marked answer', () => {
+    const result = importQuizFromText('문제\n- [ ] a\n- [ ] b\n');
+    expect(result.questions).toEqual([]);
+    expect(result.issues).toEqual([{ line: 1, field: 'correct', message: 'Mark at least one choice as correct with "- [x]"' }]);
+  });
+});
+
+describe('importQuiz', () => {
+  it('dispatches by format', () => {
+    expect(importQuiz('text', '').issues).toEqual([{ line: 1, message: 'No questions found' }]);
+    expect(importQuiz('csv', '').issues).toEqual([{ line: 1, message: 'CSV needs a header row and at least one question row' }]);
+  });
+});
@@ -0,0 +1,471 @@
+import { QuestionType } from '../types';
+
+// 퀴즈 가져오기 - CSV / 텍스트(Markdown·GIFT 형태)를 REST API와 같은 퀴즈 페이로드로 변환
+
+export type ImportFormat = 'csv' | 'text';
+
+export const IMPORT_FORMATS: readonly ImportFormat[] = ['csv', 'text'];
+
+export const MAX_IMPORT_CHOICES = 10;
+export const DEFAULT_TIME_LIMIT = 20;
+export const DEFAULT_POINTS = 100;
+
+export interface ImportIssue {
+  line: number; // 1부터 시작, 원본 텍스트 기준
+  field?: string;
+  message: string;
+}
+
+// POST /api/quizzes 바디와 같은 형태
+export interface ImportedQuestion {
+  type?: QuestionType;
+  text: string;
+  choices?: string[];
+  correctAnswer?: number | boolean;
+  correctAnswers?: number[];
+  correctOrder?: number[];
+  correctRange?: { min: number; max: number };
+  unit?: string;
+  timeLimit: number;
+  points: number;
+}
+
+export interface QuizImportResult {
+  title?: string;
+  questions: ImportedQuestion[];
+  questionLines: number[]; // questions[i]가 정의된 줄 번호
+  issues: ImportIssue[];
+}
+
+// ===== 공통 =====
+
+const TRUE_VALUES = ['true', 't', 'o', 'yes', 'y', '참', '맞음'];
+const FALSE_VALUES = ['false', 'f', 'x', 'no', 'n', '거짓', '틀림'];
+
+function parseBoolean(value: string): boolean | null {
+  const normalized = value.trim().toLowerCase();
+  if (TRUE_VALUES.includes(normalized)) return true;
+  if (FALSE_VALUES.includes(normalized)) return false;
+  return null;
+}
+
+// "42", "40~45", "40..45" → { min, max }
+function parseRange(value: string): { min: number; max: number } | null {
+  const parts = value.split(/~|\.\./).map(part => part.trim());
+  if (parts.length > 2 || parts.some(part => part === '' || !Number.isFinite(Number(part)))) {
+    return null;
+  }
+  const [min, max = min] = parts.map(Number);
+  return min <= max ? { min, max } : null;
+}
+
+function parsePositiveNumber(value: string | undefined, fallback: number): number | null {
+  if (value === undefined || value.trim() === '') {
+    return fallback;
+  }
+  const number = Number(value.trim());
+  return Number.isFinite(number) && number > 0 ? number : null;
+}
+
+// 정답으로 쓰인 보기 참조 하나를 0부터 시작하는 인덱스로 변환 - 번호(1부터), 알파벳(A부터), 보기 텍스트 허용
+function resolveChoiceRef(ref: string, choices: string[]): number | null {
+  const value = ref.trim();
+  if (/^\d+$/.test(value)) {
+    const index = Number(value) - 1;
+    return index >= 0 && index < choices.length ? index : null;
+  }
+  if (/^[a-z]$/i.test(value)) {
+    const index = value.toUpperCase().charCodeAt(0) - 'A'.charCodeAt(0);
+    return index < choices.length ? index : null;
+  }
+  const index = choices.findIndex(choice => choice.trim().toLowerCase() === value.toLowerCase());
+  return index >= 0 ? index : null;
+}
+
+function resolveChoiceRefs(value: string, choices: string[]): number[] | null {
+  const refs = value.split(/[;|]/).map(ref => ref.trim()).filter(ref => ref.length > 0);
+  const indices = refs.map(ref => resolveChoiceRef(ref, choices));
+  return refs.length > 0 && indices.every(index => index !== null) ? (indices as number[]) : null;
+}
+
+// ===== CSV =====
+
+interface CsvRow {
+  line: number;
+  cells: string[];
+}
+
+// RFC 4180 CSV 파싱 - 따옴표 안의 쉼표/줄바꿈 허용
+function parseCsv(content: string): { rows: CsvRow[]; error?: ImportIssue } {
+  const rows: CsvRow[] = [];
+  let cells: string[] = [];
+  let cell = '';
+  let inQuotes = false;
+  let line = 1;
+  let rowLine = 1;
+
+  const text = content.replace(/^\uFEFF/, '');
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+
+    if (inQuotes) {
+      if (char === '"' && text[i + 1] === '"') {
+        cell += '"';
+        i++;
+      } else if (char === '"') {
+        inQuotes = false;
+      } else {
+        if (char === '\n') line++;
+        cell += char;
+      }
+      continue;
+    }
+
+    if (char === '"' && cell.length === 0) {
+      inQuotes = true;
+    } else if (char === ',') {
+      cells.push(cell);
+      cell = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && text[i + 1] === '\n') i++;
+      cells.push(cell);
+      rows.push({ line: rowLine, cells });
+      cells = [];
+      cell = '';
+      line++;
+      rowLine = line;
+    } else {
+      cell += char;
+    }
+  }
+
+  if (inQuotes) {
+    return { rows, error: { line: rowLine, message: 'Unterminated quoted field' } };
+  }
+  if (cell.length > 0 || cells.length > 0) {
+    cells.push(cell);
+    rows.push({ line: rowLine, cells });
+  }
+
+  // 빈 줄 제거
+  return { rows: rows.filter(row => row.cells.some(value => value.trim().length > 0)) };
+}
+
+const COLUMN_ALIASES: Record<'question' | 'correct' | 'timeLimit' | 'points' | 'type' | 'unit', string[]> = {
+  question: ['question', 'text', '질문', '문제'],
+  correct: ['correct', 'answer', 'correct_answer', '정답'],
+  timeLimit: ['time_limit', 'timelimit', 'time', '제한시간', '시간'],
+  points: ['points', 'score', '배점', '점수'],
+  type: ['type', '유형'],
+  unit: ['unit', '단위']
+};
+
+const CHOICE_COLUMN = /^(?:choice|option|보기)\s*_?(\d+)$/;
+
+function normalizeHeader(value: string): string {
+  return value.trim().toLowerCase().replace(/\s+/g, '_');
+}
+
+export function importQuizFromCsv(content: string): QuizImportResult {
+  const result: QuizImportResult = { questions: [], questionLines: [], issues: [] };
+  const { rows, error } = parseCsv(content);
+
+  if (error) {
+    result.issues.push(error);
+    return result;
+  }
+  if (rows.length < 2) {
+    result.issues.push({ line: 1, message: 'CSV needs a header row and at least one question row' });
+    return result;
+  }
+
+  // 헤더로 열 위치 결정
+  const [headerRow, ...dataRows] = rows;
+  const headers = headerRow.cells.map(normalizeHeader);
+  const columnOf = (key: keyof typeof COLUMN_ALIASES) => headers.findIndex(header => COLUMN_ALIASES[key].includes(header));
+
+  const columns = {
+    question: columnOf('question'),
+    correct: columnOf('correct'),
+    timeLimit: columnOf('timeLimit'),
+    points: columnOf('points'),
+    type: columnOf('type'),
+    unit: columnOf('unit')
+  };
+  const choiceColumns = headers
+    .map((header, index) => ({ match: CHOICE_COLUMN.exec(header), index }))
+    .filter(({ match }) => match !== null)
+    .sort((a, b) => Number(a.match![1]) - Number(b.match![1]))
+    .map(({ index }) => index);
+
+  if (columns.question < 0) {
+    result.issues.push({ line: headerRow.line, field: 'question', message: 'Missing question column' });
+  }
+  if (columns.correct < 0) {
+    result.issues.push({ line: headerRow.line, field: 'correct', message: 'Missing correct column' });
+  }
+  if (choiceColumns.length > MAX_IMPORT_CHOICES) {
+    result.issues.push({ line: headerRow.line, field: 'choices', message: `At most ${MAX_IMPORT_CHOICES} choice columns are supported` });
+  }
+  if (result.issues.length > 0) {
+    return result;
+  }
+
+  dataRows.forEach(row => {
+    const cell = (index: number) => (index >= 0 ? (row.cells[index] ?? '').trim() : '');
+    const rowIssues: ImportIssue[] = [];
+    const issue = (field: string, message: string) => rowIssues.push({ line: row.line, field, message });
+
+    const text = cell(columns.question);
+    const choices = choiceColumns.map(cell).filter(choice => choice.length > 0);
+    const correct = cell(columns.correct);
+    const typeValue = cell(columns.type).toLowerCase();
+    const type = (typeValue || 'single_choice') as QuestionType;
+
+    const timeLimit = parsePositiveNumber(cell(columns.timeLimit), DEFAULT_TIME_LIMIT);
+    const points = parsePositiveNumber(cell(columns.points), DEFAULT_POINTS);
+
+    if (!text) issue('question', 'Question text is required');
+    if (timeLimit === null) issue('time_limit', 'Time limit must be a positive number of seconds');
+    if (points === null) issue('points', 'Points must be a positive number');
+    if (!correct) issue('correct', 'Correct answer is required');
+
+    const question: ImportedQuestion = { text, choices, timeLimit: timeLimit ?? 0, points: points ?? 0 };
+
+    if (correct) {
+      switch (type) {
+        case 'single_choice': {
+          const index = resolveChoiceRef(correct, choices);
+          if (index === null) issue('correct', `"${correct}" does not match any choice`);
+          question.correctAnswer = index ?? undefined;
+          break;
+        }
+        case 'multi_select': {
+          const indices = resolveChoiceRefs(correct, choices);
+          if (!indices) issue('correct', `"${correct}" must list matching choices separated by ";"`);
+          question.type = type;
+          question.correctAnswers = indices ?? undefined;
+          break;
+        }
+        case 'ordering': {
+          const indices = resolveChoiceRefs(correct, choices);
+          if (!indices) issue('correct', `"${correct}" must list every choice in the correct order separated by ";"`);
+          question.type = type;
+          question.correctOrder = indices ?? undefined;
+          break;
+        }
+        case 'true_false': {
+          const value = parseBoolean(correct);
+          if (value === null) issue('correct', `"${correct}" must be true or false`);
+          question.type = type;
+          question.choices = choices.length > 0 ? choices : undefined;
+          question.correctAnswer = value ?? undefined;
+          break;
+        }
+        case 'numeric': {
+          const range = parseRange(correct);
+          if (!range) issue('correct', `"${correct}" must be a number or a range like 10~20`);
+          question.type = type;
+          question.choices = [];
+          question.correctRange = range ?? undefined;
+          if (cell(columns.unit)) question.unit = cell(columns.unit);
+          break;
+        }
+        default:
+          issue('type', `Unknown question type "${typeValue}"`);
+      }
+    }
+
+    if (rowIssues.length > 0) {
+      result.issues.push(...rowIssues);
+      return;
+    }
+
+    result.questions.push(question);
+    result.questionLines.push(row.line);
+  });
+
+  return result;
+}
+
+// ===== 텍스트 (Markdown / GIFT 형태) =====
+//
+// # 퀴즈 제목
+//
+// 대한민국의 수도는?
+// - [x] 서울
+// - [ ] 부산
+// time: 20
+// points: 100
+//
+// 빈 줄로 문제를 구분. 보기는 "- [x]"(정답) / "- [ ]"(오답), 정답이 여러 개면 multi_select.
+// "= true" / "= false"는 true_false, "= 42" 또는 "= 40~45"는 numeric (unit: kg),
+// "1) 보기" 형태로 정답 순서대로 나열하면 ordering (출제 시 보기 순서는 섞임).
+
+const CHOICE_LINE = /^[-*]\s*\[( |x|X)\]\s*(.+)$/;
+const ORDER_LINE = /^(\d+)[).]\s+(.+)$/;
+const ANSWER_LINE = /^=\s*(.+)$/;
+const META_LINE = /^(time|points|unit)\s*:\s*(.*)$/i;
+
+interface TextBlock {
+  line: number;
+  lines: Array<{ line: number; text: string }>;
+}
+
+function splitBlocks(content: string): { title?: string; blocks: TextBlock[] } {
+  const blocks: TextBlock[] = [];
+  let title: string | undefined;
+  let current: TextBlock | null = null;
+
+  content.replace(/^\uFEFF/, '').split(/\r?\n/).forEach((raw, index) => {
+    const line = index + 1;
+    const text = raw.trim();
+
+    if (text.startsWith('# ') && title === undefined && blocks.length === 0 && !current) {
+      title = text.slice(2).trim();
+      return;
+    }
+    if (text.length === 0 || text.startsWith('//')) {
+      if (text.length === 0) current = null;
+      return;
+    }
+
+    if (!current) {
+      current = { line, lines: [] };
+      blocks.push(current);
+    }
+    current.lines.push({ line, text });
+  });
+
+  return { title, blocks };
+}
+
+// 정답 순서를 그대로 보여주지 않도록 보기 순서를 섞고 정답 순서를 인덱스로 계산
+function shuffleOrdering(items: string[]): { choices: string[]; correctOrder: number[] } {
+  const positions = items.map((_, index) => index);
+  do {
+    for (let i = positions.length - 1; i > 0; i--) {
+      const j = Math.floor(Math.random() * (i + 1));
+      [positions[i], positions[j]] = [positions[j], positions[i]];
+    }
+  } while (positions.length > 1 && positions.every((position, index) => position === index));
+
+  const choices = positions.map(position => items[position]);
+  const correctOrder = items.map(item => choices.indexOf(item));
+  return { choices, correctOrder };
+}
+
+export function importQuizFromText(content: string): QuizImportResult {
+  const { title, blocks } = splitBlocks(content);
+  const result: QuizImportResult = { title, questions: [], questionLines: [], issues: [] };
+
+  if (blocks.length === 0) {
+    result.issues.push({ line: 1, message: 'No questions found' });
+    return result;
+  }
+
+  blocks.forEach(block => {
+    const rowIssues: ImportIssue[] = [];
+    const [first, ...rest] = block.lines;
+
+    const choices: string[] = [];
+    const correctIndices: number[] = [];
+    const orderItems: string[] = [];
+    let answer: string | undefined;
+    let answerLine = block.line;
+    let timeLimit: number | null = DEFAULT_TIME_LIMIT;
+    let points: number | null = DEFAULT_POINTS;
+    let unit: string | undefined;
+    const textLines = [first.text.replace(/^(?:Q:|\d+[.)])\s*/i, '')];
+
+    rest.forEach(({ line, text }) => {
+      const choice = CHOICE_LINE.exec(text);
+      const order = ORDER_LINE.exec(text);
+      const answerMatch = ANSWER_LINE.exec(text);
+      const meta = META_LINE.exec(text);
+
+      if (choice) {
+        if (choice[1].toLowerCase() === 'x') correctIndices.push(choices.length);
+        choices.push(choice[2].trim());
+      } else if (order) {
+        orderItems.push(order[2].trim());
+      } else if (answerMatch) {
+        answer = answerMatch[1].trim();
+        answerLine = line;
+      } else if (meta) {
+        const key = meta[1].toLowerCase();
+        if (key === 'time') {
+          timeLimit = parsePositiveNumber(meta[2], DEFAULT_TIME_LIMIT);
+          if (timeLimit === null) rowIssues.push({ line, field: 'time', message: 'Time limit must be a positive number of seconds' });
+        } else if (key === 'points') {
+          points = parsePositiveNumber(meta[2], DEFAULT_POINTS);
+          if (points === null) rowIssues.push({ line, field: 'points', message: 'Points must be a positive number' });
+        } else {
+          unit = meta[2].trim() || undefined;
+        }
+      } else if (choices.length === 0 && orderItems.length === 0 && answer === undefined) {
+        // 보기 전까지의 줄은 여러 줄 질문으로 취급
+        textLines.push(text);
+      } else {
+        rowIssues.push({ line, message: `Unrecognized line: "${text}"` });
+      }
+    });
+
+    const question: ImportedQuestion = {
+      text: textLines.join('\n').trim(),
+      timeLimit: timeLimit ?? 0,
+      points: points ?? 0
+    };
+
+    if (!question.text) {
+      rowIssues.push({ line: block.line, field: 'question', message: 'Question text is required' });
+    }
+
+    const kinds = [choices.length > 0, orderItems.length > 0, answer !== undefined].filter(Boolean).length;
+    if (kinds !== 1) {
+      rowIssues.push({ line: block.line, message: 'Each question needs exactly one of: "- [x]" choices, "1)" ordering items, or an "= answer" line' });
+    } else if (choices.length > 0) {
+      question.choices = choices;
+      if (correctIndices.length === 0) {
+        rowIssues.push({ line: block.line, field: 'correct', message: 'Mark at least one choice as correct with "- [x]"' });
+      } else if (correctIndices.length === 1) {
+        question.correctAnswer = correctIndices[0];
+      } else {
+        question.type = 'multi_select';
+        question.correctAnswers = correctIndices;
+      }
+    } else if (orderItems.length > 0) {
+      question.type = 'ordering';
+      Object.assign(question, shuffleOrdering(orderItems));
+    } else if (answer !== undefined) {
+      const booleanValue = parseBoolean(answer);
+      const range = parseRange(answer);
+      if (booleanValue !== null && range === null) {
+        question.type = 'true_false';
+        question.correctAnswer = booleanValue;
+      } else if (range) {
+        question.type = 'numeric';
+        question.choices = [];
+        question.correctRange = range;
+        if (unit) question.unit = unit;
+      } else {
+        rowIssues.push({ line: answerLine, field: 'correct', message: `"${answer}" must be true, false, a number or a range like 10~20` });
+      }
+    }
+
+    if (rowIssues.length > 0) {
+      result.issues.push(...rowIssues);
+      return;
+    }
+
+    result.questions.push(question);
+    result.questionLines.push(block.line);
+  });
+
+  return result;
+}
+
+export function importQuiz(format: ImportFormat, content: string): QuizImportResult {
+  return format === 'csv' ? importQuizFromCsv(content) : importQuizFromText(content);
+}
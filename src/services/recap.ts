@@ -0,0 +1,58 @@
+import { GameResult, PlayerRecap } from '../types';
+import { describeSubmittedAnswer, getSubmittedAnswer } from './questionTypes';
+
+// GameResult에서 한 플레이어의 문제별 답변 내역 생성 - 플레이어 기록이 없으면 null
+export function buildPlayerRecap(result: GameResult, playerId: string, completed: boolean): PlayerRecap | null {
+  const player = result.players?.find(p => p.playerId === playerId);
+  if (!player) {
+    return null;
+  }
+
+  const answersByQuestion = new Map(player.answers.map(answer => [answer.questionId, answer]));
+
+  const questions = result.questionStats.map((stat, index) => {
+    const playerAnswer = answersByQuestion.get(stat.questionId);
+    const submitted = playerAnswer ? getSubmittedAnswer(playerAnswer) : null;
+    const choices = stat.choices ?? [];
+
+    return {
+      questionIndex: index + 1,
+      questionId: stat.questionId,
+      questionText: stat.questionText,
+      questionType: stat.questionType ?? 'single_choice',
+      choices,
+      correctAnswer: stat.correctAnswer,
+      correctAnswerText: stat.correctAnswerText ?? String(stat.correctAnswer),
+      answered: !!playerAnswer,
+      answer: submitted ?? undefined,
+      answerText: submitted ? describeSubmittedAnswer(choices, submitted) : undefined,
+      isCorrect: playerAnswer?.isCorrect ?? false,
+      points: playerAnswer?.points ?? 0,
+      maxPoints: stat.points,
+      streakBonus: playerAnswer?.streakBonus,
+      timeToAnswer: playerAnswer?.timeToAnswer
+    };
+  });
+
+  return {
+    sessionId: result.sessionId,
+    quizId: result.quizId,
+    quizTitle: result.quizTitle,
+    playerId: player.playerId,
+    playerName: player.playerName,
+    teamId: player.teamId,
+    score: player.score,
+    rank: result.leaderboard.find(entry => entry.playerId === playerId)?.rank,
+    totalPlayers: result.totalParticipants,
+    correctCount: questions.filter(question => question.isCorrect).length,
+    totalQuestions: result.totalQuestions,
+    completedAt: completed ? result.completedAt : undefined,
+    questions
+  };
+}
+
+// 공개 조회용 결과 - 플레이어별 답변 기록은 리캡으로만 제공
+export function toPublicGameResult(result: GameResult): GameResult {
+  const { players, ...publicResult } = result;
+  return publicResult;
+}
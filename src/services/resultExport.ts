@@ -0,0 +1,116 @@
+import { GameResult } from '../types';
+import { buildPlayerRecap } from './recap';
+
+export type ExportFormat = 'csv' | 'json';
+
+export const EXPORT_FORMATS: readonly ExportFormat[] = ['csv', 'json'];
+
+// 엑셀에서 한글이 깨지지 않도록 UTF-8 BOM 추가
+const UTF8_BOM = '\uFEFF';
+
+// 스프레드시트 수식으로 해석될 수 있는 문자열 (숫자는 제외)
+const FORMULA_PREFIX = /^[=+\-@\t\r]/;
+
+type CsvValue = string | number | boolean | undefined | null;
+
+function toCsvCell(value: CsvValue): string {
+  if (value === undefined || value === null) {
+    return '';
+  }
+
+  let text = String(value);
+  if (typeof value === 'string' && FORMULA_PREFIX.test(text) && !Number.isFinite(Number(text))) {
+    text = `'${text}`;
+  }
+
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+function toCsvLine(values: CsvValue[]): string {
+  return values.map(toCsvCell).join(',');
+}
+
+// 여러 세션의 문제를 처음 등장한 순서대로 합침 (퀴즈가 수정된 경우 대비)
+function collectQuestionIds(results: GameResult[]): string[] {
+  const ids: string[] = [];
+  results.forEach(result => {
+    result.questionStats.forEach(stat => {
+      if (!ids.includes(stat.questionId)) {
+        ids.push(stat.questionId);
+      }
+    });
+  });
+  return ids;
+}
+
+// 플레이어당 한 행, 문제마다 답변/정답 여부/점수/응답 시간 열
+export function toResultsCsv(results: GameResult[]): string {
+  const questionIds = collectQuestionIds(results);
+
+  const header = [
+    'sessionId',
+    'completedAt',
+    'quizTitle',
+    'playerId',
+    'playerName',
+    'teamId',
+    'rank',
+    'score',
+    'correctCount',
+    ...questionIds.flatMap((_, index) => [
+      `Q${index + 1} answer`,
+      `Q${index + 1} correct`,
+      `Q${index + 1} points`,
+      `Q${index + 1} time (s)`
+    ])
+  ];
+
+  const rows = results.flatMap(result =>
+    result.leaderboard.map(entry => {
+      // 예전 결과(플레이어 답변 기록 없음)는 문제별 열을 비워 둠
+      const recap = buildPlayerRecap(result, entry.playerId, true);
+      const questions = new Map((recap?.questions ?? []).map(question => [question.questionId, question]));
+
+      return [
+        result.sessionId,
+        result.completedAt,
+        result.quizTitle,
+        entry.playerId,
+        entry.playerName,
+        recap?.teamId,
+        entry.rank,
+        entry.score,
+        recap?.correctCount,
+        ...questionIds.flatMap(questionId => {
+          const question = questions.get(questionId);
+          if (!question) {
+            return [undefined, undefined, undefined, undefined];
+          }
+          return [
+            question.answerText,
+            question.answered ? question.isCorrect : undefined,
+            question.points,
+            question.timeToAnswer !== undefined ? (question.timeToAnswer / 1000).toFixed(2) : undefined
+          ];
+        })
+      ];
+    })
+  );
+
+  return UTF8_BOM + [header, ...rows].map(toCsvLine).join('\r\n') + '\r\n';
+}
+
+// 전체 결과 JSON 문서 (플레이어별 답변 기록 포함)
+export function toResultsJson(results: GameResult[]): string {
+  return JSON.stringify({
+    exportedAt: new Date().toISOString(),
+    count: results.length,
+    results
+  }, null, 2);
+}
+
+export function exportResults(results: GameResult[], format: ExportFormat): { body: string; contentType: string } {
+  return format === 'csv'
+    ? { body: toResultsCsv(results), contentType: 'text/csv; charset=utf-8' }
+    : { body: toResultsJson(results), contentType: 'application/json; charset=utf-8' };
+}
@@ -0,0 +1,69 @@
+import { describe, expect, it } from '@jest/globals';
+import { getScoringStrategy, SCORING_STRATEGY_NAMES } from './scoring';
+import { Question } from '../types';
+
+const question: Question = {
+  id: 'q1',
+  text: '1 + 1 = ?',
+  choices: ['1', '2'],
+  correctAnswer: 1,
+  timeLimit: 20,
+  points: 100
+};
+
+describe('getScoringStrategy', () => {
+  it('uses rank_based when no scoring is configured', () => {
+    expect(getScoringStrategy().name).toBe('rank_based');
+    expect(getScoringStrategy({}).name).toBe('rank_based');
+  });
+
+  it('returns every registered strategy by name', () => {
+    for (const name of SCORING_STRATEGY_NAMES) {
+      expect(getScoringStrategy({ scoring: name }).name).toBe(name);
+    }
+  });
+});
+
+describe('rank_based', () => {
+  const strategy = getScoringStrategy({ scoring: 'rank_based' });
+
+  it('gives full points to the only correct answer', () => {
+    expect(strategy.score({ question, timeToAnswer: 5000, rank: 1, totalCorrect: 1 })).toBe(100);
+  });
+
+  it('decreases points by rank among correct answers', () => {
+    expect(strategy.score({ question, timeToAnswer: 0, rank: 1, totalCorrect: 4 })).toBe(100);
+    expect(strategy.score({ question, timeToAnswer: 0, rank: 2, totalCorrect: 4 })).toBe(88);
+    expect(strategy.score({ question, timeToAnswer: 0, rank: 4, totalCorrect: 4 })).toBe(63);
+  });
+
+  it('never drops below 30% of the question points', () => {
+    expect(strategy.score({ question, timeToAnswer: 0, rank: 100, totalCorrect: 10 })).toBe(30);
+  });
+});
+
+describe('time_decay', () => {
+  const strategy = getScoringStrategy({ scoring: 'time_decay' });
+
+  it('decays linearly from 100% to 50% over the time limit', () => {
+    expect(strategy.score({ question, timeToAnswer: 0, rank: 1, totalCorrect: 1 })).toBe(100);
+    expect(strategy.score({ question, timeToAnswer: 10000, rank: 1, totalCorrect: 1 })).toBe(75);
+    expect(strategy.score({ question, timeToAnswer: 20000, rank: 1, totalCorrect: 1 })).toBe(50);
+  });
+
+  it('clamps answers after the time limit to 50%', () => {
+    expect(strategy.score({ question, timeToAnswer: 60000, rank: 1, totalCorrect: 1 })).toBe(50);
+  });
+});
+
+describe('flat and accuracy_only', () => {
+  it('flat ignores speed and rank', () => {
+    const strategy = getScoringStrategy({ scoring: 'flat' });
+    expect(strategy.score({ question, timeToAnswer: 19000, rank: 7, totalCorrect: 7 })).toBe(100);
+  });
+
+  it('accuracy_only gives one point per correct answer', () => {
+    const strategy = getScoringStrategy({ scoring: 'accuracy_only' });
+    expect(strategy.score({ question, timeToAnswer: 0, rank: 1, totalCorrect: 1 })).toBe(1);
+  });
+});
@@ -0,0 +1,82 @@
+import { Question, ScoringStrategyName, SessionSettings } from '../types';
+import { DEFAULT_STREAK_BONUS } from './streaks';
+
+export interface ScoringContext {
+  question: Question;
+  timeToAnswer: number; // milliseconds, 서버 기준
+  rank: number; // 정답자 중 제출 순위 (1부터)
+  totalCorrect: number; // 현재까지 정답자 수 (본인 포함)
+}
+
+// 정답일 때만 호출됨 - 오답은 모든 전략에서 0점
+export interface ScoringStrategy {
+  name: ScoringStrategyName;
+  description: string;
+  score(context: ScoringContext): number;
+}
+
+// 기존 방식: 정답 순위에 따라 100% → 50%, 최소 30%
+const rankBased: ScoringStrategy = {
+  name: 'rank_based',
+  description: 'Earlier correct answers earn more (100% down to 50%, minimum 30%)',
+  score({ question, rank, totalCorrect }) {
+    const basePoints = question.points;
+
+    if (totalCorrect === 1) {
+      return basePoints;
+    }
+
+    // Formula: 100% - ((rank - 1) / totalCorrect) * 50%
+    const rankPercentage = 1.0 - ((rank - 1) / totalCorrect) * 0.5;
+    const points = Math.round(basePoints * rankPercentage);
+    const minPoints = Math.round(basePoints * 0.3);
+    return Math.max(points, minPoints);
+  }
+};
+
+// Kahoot 방식: 제한시간 대비 응답 시간에 따라 100% → 50% 선형 감소
+const timeDecay: ScoringStrategy = {
+  name: 'time_decay',
+  description: 'Points decay linearly with response time (100% at 0s down to 50% at the time limit)',
+  score({ question, timeToAnswer }) {
+    const limitMs = question.timeLimit * 1000;
+    const ratio = limitMs > 0 ? Math.min(Math.max(timeToAnswer / limitMs, 0), 1) : 0;
+    return Math.round(question.points * (1 - ratio / 2));
+  }
+};
+
+// 속도와 무관하게 정답이면 문제 배점 전체
+const flat: ScoringStrategy = {
+  name: 'flat',
+  description: 'Every correct answer earns the full question points',
+  score({ question }) {
+    return question.points;
+  }
+};
+
+// 배점 무시, 정답 1개당 1점 - 점수 = 맞힌 문제 수
+const accuracyOnly: ScoringStrategy = {
+  name: 'accuracy_only',
+  description: 'One point per correct answer, regardless of speed or question points',
+  score() {
+    return 1;
+  }
+};
+
+export const SCORING_STRATEGIES: Record<ScoringStrategyName, ScoringStrategy> = {
+  rank_based: rankBased,
+  time_decay: timeDecay,
+  flat,
+  accuracy_only: accuracyOnly
+};
+
+export const SCORING_STRATEGY_NAMES = Object.keys(SCORING_STRATEGIES) as ScoringStrategyName[];
+
+export const DEFAULT_SESSION_SETTINGS: SessionSettings = {
+  scoring: 'rank_based',
+  streakBonus: DEFAULT_STREAK_BONUS
+};
+
+export function getScoringStrategy(settings?: Partial<SessionSettings>): ScoringStrategy {
+  return SCORING_STRATEGIES[settings?.scoring ?? DEFAULT_SESSION_SETTINGS.scoring] ?? rankBased;
+}
@@ -0,0 +1,95 @@
+import { afterAll, afterEach, beforeAll, describe, expect, it, jest } from '@jest/globals';
+import { InProcessBroadcastBus } from './broadcastBus';
+import { RelayEvent, SessionRelayService } from './sessionRelay';
+
+// 같은 버스를 쓰는 두 인스턴스
+function createInstances() {
+  const bus = new InProcessBroadcastBus();
+  const a = new SessionRelayService(bus);
+  const b = new SessionRelayService(bus);
+  const deliveredToA: RelayEvent[] = [];
+  const deliveredToB: RelayEvent[] = [];
+  a.setDeliveryHandler(event => deliveredToA.push(event));
+  b.setDeliveryHandler(event => deliveredToB.push(event));
+  return { bus, a, b, deliveredToA, deliveredToB };
+}
+
+// 구독이 비동기로 끝날 때까지 대기
+const settle = () => new Promise(resolve => setImmediate(resolve));
+
+describe('SessionRelayService', () => {
+  beforeAll(() => {
+    jest.spyOn(console, 'error').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  afterAll(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('delivers events to other instances that joined the session but not back to the sender', async () => {
+    const { a, b, deliveredToA, deliveredToB } = createInstances();
+    a.join('s1');
+    b.join('s1');
+    await settle();
+
+    a.publish('s1', { kind: 'host' }, 'player_answered', { playerId: 'p1', playerName: '민수', hasAnswered: true });
+    await settle();
+
+    expect(deliveredToA).toEqual([]);
+    expect(deliveredToB).toEqual([expect.objectContaining({
+      origin: a.instanceId,
+      sessionId: 's1',
+      target: { kind: 'host' },
+      type: 'player_answered'
+    })]);
+  });
+
+  it('stops delivering after leaving and ignores other sessions', async () => {
+    const { a, b, deliveredToB } = createInstances();
+    b.join('s1');
+    await settle();
+
+    a.publish('s2', { kind: 'session' }, 'pong', undefined);
+    b.leave('s1');
+    await settle();
+    a.publish('s1', { kind: 'session' }, 'pong', undefined);
+    await settle();
+
+    expect(deliveredToB).toEqual([]);
+  });
+
+  it('retries a failed subscription while the session is still joined', async () => {
+    jest.useFakeTimers();
+    const { bus, a, b, deliveredToB } = createInstances();
+    const subscribe = bus.subscribe.bind(bus);
+    const spy = jest.spyOn(bus, 'subscribe').mockRejectedValueOnce(new Error('not connected'));
+
+    b.join('s1');
+    await jest.advanceTimersByTimeAsync(0);
+    expect(spy).toHaveBeenCalledTimes(1);
+
+    spy.mockImplementation(subscribe);
+    await jest.advanceTimersByTimeAsync(1000);
+    expect(spy).toHaveBeenCalledTimes(2);
+
+    a.publish('s1', { kind: 'session' }, 'pong', undefined);
+    await jest.advanceTimersByTimeAsync(0);
+    expect(deliveredToB).toHaveLength(1);
+  });
+
+  it('does not retry after the session was left', async () => {
+    jest.useFakeTimers();
+    const { bus, b } = createInstances();
+    const spy = jest.spyOn(bus, 'subscribe').mockRejectedValue(new Error('not connected'));
+
+    b.join('s1');
+    await jest.advanceTimersByTimeAsync(0);
+    b.leave('s1');
+    await jest.advanceTimersByTimeAsync(5000);
+    expect(spy).toHaveBeenCalledTimes(1);
+  });
+});
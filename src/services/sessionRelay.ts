@@ -0,0 +1,93 @@
+import { v4 as uuidv4 } from 'uuid';
+import broadcastBus, { BroadcastBus } from './broadcastBus';
+import { ServerMessageContentMap, ServerMessageType } from '../types';
+
+// 세션 이벤트 중계 - 로컬 소켓에 보낸 이벤트를 세션 채널에 발행하고, 다른 인스턴스가 발행한 이벤트를 받아 로컬 소켓에 전달
+// 인스턴스는 세션 소켓이 하나라도 붙어 있는 동안만 그 세션 채널을 구독
+
+// session: 세션 전체 (역할별 페이로드), host: 호스트만, spectators: 관전자만, player: 특정 플레이어만
+export type RelayTarget =
+  | { kind: 'session' }
+  | { kind: 'host' }
+  | { kind: 'spectators' }
+  | { kind: 'player'; playerId: string };
+
+export interface RelayEvent<T extends ServerMessageType = ServerMessageType> {
+  origin: string; // 발행한 인스턴스 - 자기 이벤트는 이미 로컬에 전달했으므로 무시
+  sessionId: string;
+  target: RelayTarget;
+  type: T;
+  content: ServerMessageContentMap[T];
+}
+
+const CHANNEL_PREFIX = process.env.BROADCAST_CHANNEL_PREFIX || 'amahoot';
+const SUBSCRIBE_RETRY_MS = 1000;
+
+export class SessionRelayService {
+  readonly instanceId = uuidv4();
+  private subscribedSessions = new Set<string>();
+  private deliver: (event: RelayEvent) => void = () => {};
+
+  constructor(private bus: BroadcastBus) {}
+
+  private channelFor(sessionId: string): string {
+    return `${CHANNEL_PREFIX}:session:${sessionId}`;
+  }
+
+  // 다른 인스턴스에서 온 이벤트를 로컬 소켓에 전달하는 함수 (server에서 등록)
+  setDeliveryHandler(deliver: (event: RelayEvent) => void): void {
+    this.deliver = deliver;
+  }
+
+  private handlePayload(payload: string): void {
+    try {
+      const event = JSON.parse(payload) as RelayEvent;
+      if (event.origin !== this.instanceId) {
+        this.deliver(event);
+      }
+    } catch (error) {
+      console.error('❌ SESSION_RELAY: Failed to handle relayed event:', error);
+    }
+  }
+
+  // 세션 소켓이 이 인스턴스에 붙으면 호출 - 이미 구독 중이면 무시
+  join(sessionId: string): void {
+    if (this.subscribedSessions.has(sessionId)) {
+      return;
+    }
+    this.subscribedSessions.add(sessionId);
+    this.subscribe(sessionId);
+  }
+
+  // 구독에 실패하면 (버스는 핸들러를 남기지 않음) 세션 소켓이 남아 있는 동안 다시 시도
+  private subscribe(sessionId: string): void {
+    this.bus.subscribe(this.channelFor(sessionId), payload => this.handlePayload(payload)).catch(error => {
+      console.error(`❌ SESSION_RELAY: Failed to subscribe to session ${sessionId}, retrying in ${SUBSCRIBE_RETRY_MS}ms:`, error.message);
+      setTimeout(() => {
+        if (this.subscribedSessions.has(sessionId)) {
+          this.subscribe(sessionId);
+        }
+      }, SUBSCRIBE_RETRY_MS).unref();
+    });
+  }
+
+  // 이 인스턴스에 세션 소켓이 더 없으면 호출
+  leave(sessionId: string): void {
+    if (!this.subscribedSessions.delete(sessionId)) {
+      return;
+    }
+    this.bus.unsubscribe(this.channelFor(sessionId)).catch(error => {
+      console.error(`❌ SESSION_RELAY: Failed to unsubscribe from session ${sessionId}:`, error.message);
+    });
+  }
+
+  // 다른 인스턴스로 발행 (실패해도 로컬 전달에는 영향 없음)
+  publish<T extends ServerMessageType>(sessionId: string, target: RelayTarget, type: T, content: ServerMessageContentMap[T]): void {
+    const event: RelayEvent<T> = { origin: this.instanceId, sessionId, target, type, content };
+    this.bus.publish(this.channelFor(sessionId), JSON.stringify(event)).catch(error => {
+      console.error(`❌ SESSION_RELAY: Failed to publish ${type} for session ${sessionId}:`, error.message);
+    });
+  }
+}
+
+export default new SessionRelayService(broadcastBus);
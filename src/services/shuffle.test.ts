@@ -0,0 +1,124 @@
+import { describe, expect, it } from '@jest/globals';
+import { getChoiceOrder, seededShuffle, toCanonicalAnswer, toPlayerAnswerRevealed, toPlayerQuestion } from './shuffle';
+import { AnswerRevealedContent, MultiSelectQuestion, OrderingQuestion, Question, SingleChoiceQuestion } from '../types';
+
+const single: SingleChoiceQuestion = {
+  id: 'q1',
+  text: '대한민국의 수도는?',
+  choices: ['서울', '부산', '대구', '인천'],
+  correctAnswer: 0,
+  timeLimit: 20,
+  points: 100
+};
+
+const multi: MultiSelectQuestion = {
+  id: 'q2',
+  type: 'multi_select',
+  text: '짝수를 모두 고르세요',
+  choices: ['1', '2', '3', '4', '5', '6'],
+  correctAnswers: [1, 3, 5],
+  timeLimit: 20,
+  points: 100
+};
+
+const ordering: OrderingQuestion = {
+  id: 'q3',
+  type: 'ordering',
+  text: '작은 수부터',
+  choices: ['3', '1', '2'],
+  correctOrder: [1, 2, 0],
+  timeLimit: 20,
+  points: 100
+};
+
+describe('seededShuffle', () => {
+  it('returns the same order for the same seed', () => {
+    const items = Array.from({ length: 20 }, (_, index) => index);
+    expect(seededShuffle(items, 'seed')).toEqual(seededShuffle(items, 'seed'));
+  });
+
+  it('is a permutation and leaves the input untouched', () => {
+    const items = Array.from({ length: 20 }, (_, index) => index);
+    const shuffled = seededShuffle(items, 'other-seed');
+    expect([...shuffled].sort((a, b) => a - b)).toEqual(items);
+    expect(items).toEqual(Array.from({ length: 20 }, (_, index) => index));
+  });
+
+  it('gives different orders for different seeds', () => {
+    const items = Array.from({ length: 20 }, (_, index) => index);
+    expect(seededShuffle(items, 'a')).not.toEqual(seededShuffle(items, 'b'));
+  });
+});
+
+describe('getChoiceOrder', () => {
+  it('is stable per player and question', () => {
+    expect(getChoiceOrder('seed', 'p1', single)).toEqual(getChoiceOrder('seed', 'p1', single));
+  });
+
+  it('does not shuffle true/false or numeric questions', () => {
+    const trueFalse: Question = { id: 'tf', type: 'true_false', text: '참?', choices: ['참', '거짓'], correctAnswer: true, timeLimit: 10, points: 100 };
+    const numeric: Question = { id: 'n', type: 'numeric', text: '몇?', choices: [], correctRange: { min: 1, max: 2 }, timeLimit: 10, points: 100 };
+    expect(getChoiceOrder('seed', 'p1', trueFalse)).toBeNull();
+    expect(getChoiceOrder('seed', 'p1', numeric)).toBeNull();
+  });
+});
+
+describe('display and canonical indices', () => {
+  it('keeps the correct single choice pointing at the same text', () => {
+    const order = getChoiceOrder('seed', 'p1', single)!;
+    const shown = toPlayerQuestion(single, order) as SingleChoiceQuestion;
+    expect(shown.choices[shown.correctAnswer]).toBe('서울');
+
+    const canonical = toCanonicalAnswer({ type: 'single_choice', selectedChoice: shown.correctAnswer }, order);
+    expect(canonical).toEqual({ type: 'single_choice', selectedChoice: 0 });
+  });
+
+  it('maps multi select answers back to sorted canonical indices', () => {
+    const order = getChoiceOrder('seed', 'p2', multi)!;
+    const shown = toPlayerQuestion(multi, order) as MultiSelectQuestion;
+    expect(shown.correctAnswers.map(index => shown.choices[index]).sort()).toEqual(['2', '4', '6']);
+
+    const canonical = toCanonicalAnswer({ type: 'multi_select', selectedChoices: shown.correctAnswers }, order);
+    expect(canonical).toEqual({ type: 'multi_select', selectedChoices: [1, 3, 5] });
+  });
+
+  it('maps ordering answers back to the canonical order', () => {
+    const order = getChoiceOrder('seed', 'p3', ordering)!;
+    const shown = toPlayerQuestion(ordering, order) as OrderingQuestion;
+    expect(shown.correctOrder.map(index => shown.choices[index])).toEqual(['1', '2', '3']);
+
+    const canonical = toCanonicalAnswer({ type: 'ordering', order: shown.correctOrder }, order);
+    expect(canonical).toEqual({ type: 'ordering', order: [1, 2, 0] });
+  });
+});
+
+describe('toPlayerAnswerRevealed', () => {
+  it('moves choice stats to the player display positions', () => {
+    const content: AnswerRevealedContent = {
+      question: single,
+      questionType: 'single_choice',
+      correctAnswer: 0,
+      correctAnswerText: '서울',
+      answerStats: single.choices.map((choiceText, choiceIndex) => ({
+        choiceIndex,
+        choiceText,
+        count: choiceIndex + 1,
+        isCorrect: choiceIndex === 0
+      })),
+      correctCount: 1,
+      totalAnswers: 10,
+      brokenStreaks: [],
+      leaderboard: []
+    };
+
+    const order = getChoiceOrder('seed', 'p1', single)!;
+    const revealed = toPlayerAnswerRevealed(content, 'seed', 'p1');
+    const shown = toPlayerQuestion(single, order);
+
+    expect(revealed.correctAnswer).toBe((shown as SingleChoiceQuestion).correctAnswer);
+    revealed.answerStats.forEach((stat, displayIndex) => {
+      expect(stat.choiceIndex).toBe(displayIndex);
+      expect(stat.choiceText).toBe(shown.choices[displayIndex]);
+    });
+  });
+});
@@ -0,0 +1,118 @@
+import { randomBytes } from 'crypto';
+import { AnswerRevealedContent, GameSession, Question, QuestionStartedContent, SubmittedAnswer } from '../types';
+import { getCorrectAnswer, getQuestionType } from './questionTypes';
+
+// 문제/보기 섞기 - 같은 세션 시드 + 플레이어 + 문제면 항상 같은 순서 (재접속해도 유지)
+// 보기 순서 order는 "화면 위치 → 원래 보기 인덱스" (order[displayIndex] = canonicalIndex)
+
+export function createShuffleSeed(): string {
+  return randomBytes(8).toString('hex');
+}
+
+// FNV-1a 해시 → mulberry32 난수
+function createRandom(seed: string): () => number {
+  let state = 0x811c9dc5;
+  for (let i = 0; i < seed.length; i++) {
+    state ^= seed.charCodeAt(i);
+    state = Math.imul(state, 0x01000193);
+  }
+
+  return () => {
+    state = (state + 0x6d2b79f5) | 0;
+    let t = Math.imul(state ^ (state >>> 15), 1 | state);
+    t = (t + Math.imul(t ^ (t >>> 7), 61 | t)) ^ t;
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+// Fisher-Yates
+export function seededShuffle<T>(items: readonly T[], seed: string): T[] {
+  const random = createRandom(seed);
+  const result = [...items];
+  for (let i = result.length - 1; i > 0; i--) {
+    const j = Math.floor(random() * (i + 1));
+    [result[i], result[j]] = [result[j], result[i]];
+  }
+  return result;
+}
+
+// 참/거짓과 숫자 문제는 보기 순서가 의미 있거나 보기가 없으므로 섞지 않음
+function hasShuffleableChoices(question: Question): boolean {
+  const type = getQuestionType(question);
+  return type === 'single_choice' || type === 'multi_select' || type === 'ordering';
+}
+
+// 세션 설정에서 보기 섞기 시드 - 보기 섞기를 쓰지 않으면 undefined
+export function getChoiceShuffleSeed(session: GameSession): string | undefined {
+  return session.settings?.shuffleChoices ? session.shuffleSeed : undefined;
+}
+
+// 플레이어별 보기 순서 - 섞지 않는 문제면 null
+export function getChoiceOrder(seed: string, playerId: string, question: Question): number[] | null {
+  if (!hasShuffleableChoices(question)) {
+    return null;
+  }
+  const canonical = question.choices.map((_, index) => index);
+  return seededShuffle(canonical, `${seed}:${playerId}:${question.id}`);
+}
+
+// 플레이어 화면용 문제 - 보기와 정답 필드를 화면 위치 기준으로 바꿈
+export function toPlayerQuestion(question: Question, order: number[]): Question {
+  const toDisplay = (canonicalIndex: number) => order.indexOf(canonicalIndex);
+  const choices = order.map(canonicalIndex => question.choices[canonicalIndex]);
+
+  switch (question.type) {
+    case undefined:
+    case 'single_choice':
+      return { ...question, choices, correctAnswer: toDisplay(question.correctAnswer) };
+    case 'multi_select':
+      return { ...question, choices, correctAnswers: question.correctAnswers.map(toDisplay).sort((a, b) => a - b) };
+    case 'ordering':
+      return { ...question, choices, correctOrder: question.correctOrder.map(toDisplay) };
+    default:
+      return question;
+  }
+}
+
+// 화면 위치 기준 답안을 원래 보기 인덱스로 변환 (parseAnswer로 검증한 뒤 호출)
+export function toCanonicalAnswer(answer: SubmittedAnswer, order: number[]): SubmittedAnswer {
+  switch (answer.type) {
+    case 'single_choice':
+      return { ...answer, selectedChoice: order[answer.selectedChoice] };
+    case 'multi_select':
+      return { ...answer, selectedChoices: answer.selectedChoices.map(index => order[index]).sort((a, b) => a - b) };
+    case 'ordering':
+      return { ...answer, order: answer.order.map(index => order[index]) };
+    default:
+      return answer;
+  }
+}
+
+export function toPlayerQuestionStarted(content: QuestionStartedContent, seed: string, playerId: string): QuestionStartedContent {
+  const order = getChoiceOrder(seed, playerId, content.question);
+  return order ? { ...content, question: toPlayerQuestion(content.question, order) } : content;
+}
+
+// 정답 공개도 플레이어 화면 순서로 - 보기별 통계와 순서 문제 통계의 인덱스를 화면 위치로 바꿈
+export function toPlayerAnswerRevealed(content: AnswerRevealedContent, seed: string, playerId: string): AnswerRevealedContent {
+  const order = getChoiceOrder(seed, playerId, content.question);
+  if (!order) {
+    return content;
+  }
+
+  const question = toPlayerQuestion(content.question, order);
+  const answerStats = order
+    .map((canonicalIndex, displayIndex) => {
+      const stat = content.answerStats.find(s => s.choiceIndex === canonicalIndex);
+      return stat ? { ...stat, choiceIndex: displayIndex } : undefined;
+    })
+    .filter((stat): stat is NonNullable<typeof stat> => stat !== undefined);
+
+  return {
+    ...content,
+    question,
+    correctAnswer: getCorrectAnswer(question),
+    answerStats,
+    orderingStats: content.orderingStats?.map(stat => ({ ...stat, choiceIndex: order.indexOf(stat.choiceIndex) }))
+  };
+}
@@ -0,0 +1,99 @@
+import { Quiz, GameSession, Player, SessionData, GameResult } from '../types';
+import DynamoDBService from './dynamodb';
+import MemoryStorageService from './memoryStorage';
+import { CachedStorage } from './cachedStorage';
+
+// 게임 데이터 저장소 인터페이스 - DynamoDB / 인메모리 구현을 STORAGE_BACKEND로 선택
+export interface GameStorage {
+  // Quiz operations
+  saveQuiz(quiz: Quiz): Promise<boolean>;
+  getQuiz(quizId: string): Promise<Quiz | null>;
+  getQuizzesByCreator(creatorId: string): Promise<Quiz[]>;
+  deleteQuiz(quizId: string): Promise<boolean>;
+
+  // Session operations
+  saveSession(session: GameSession): Promise<boolean>;
+  getSession(sessionId: string): Promise<GameSession | null>;
+  updateSession(sessionId: string, updates: Partial<GameSession>): Promise<boolean>;
+  deleteSession(sessionId: string): Promise<boolean>;
+  getSessionData(sessionId: string): Promise<SessionData | null>;
+
+  // Player operations
+  savePlayer(sessionId: string, player: Player): Promise<boolean>;
+  getSessionPlayers(sessionId: string): Promise<Player[]>;
+  updatePlayer(sessionId: string, playerId: string, updates: Partial<Player>): Promise<boolean>;
+  removePlayer(sessionId: string, playerId: string): Promise<boolean>;
+  // 답변/점수를 버전 조건부로 기록 - answersVersion이 expectedVersion일 때만 쓰고 1 올림
+  // 그 사이 다른 기록(다른 인스턴스 포함)이 있었거나 플레이어가 없으면 false, 저장소 오류면 null
+  updatePlayerAnswers(sessionId: string, playerId: string, expectedVersion: number, updates: Pick<Player, 'answers' | 'score'>): Promise<boolean | null>;
+  // 정원 확인과 증가를 원자적으로 수행 - 정원이 찼으면 false
+  reservePlayerSlot(sessionId: string, maxPlayers: number): Promise<boolean>;
+  releasePlayerSlot(sessionId: string): Promise<boolean>;
+
+  // Answer operations (여러 인스턴스에서 같은 세션 답변을 받아도 저장소 기준으로 판정)
+  // 문제를 연 회차(attemptId)마다 플레이어당 한 번만 true - 이미 기록 중/기록됨이면 false, 저장소 오류면 null
+  claimAnswer(sessionId: string, attemptId: string, playerId: string): Promise<boolean | null>;
+  // 기록에 실패한 답변의 점유를 풀어 재전송으로 다시 기록할 수 있게 함
+  releaseAnswer(sessionId: string, attemptId: string, playerId: string): Promise<boolean>;
+  // 회차별 정답자 수를 원자적으로 1 늘리고 늘어난 값(정답 순위)을 반환 - 저장소 오류면 null
+  incrementCorrectCount(sessionId: string, attemptId: string): Promise<number | null>;
+
+  // Join code operations
+  setJoinCode(joinCode: string, sessionId: string): Promise<boolean>;
+  getSessionByJoinCode(joinCode: string): Promise<string | null>;
+
+  // Socket management
+  setHostSocket(sessionId: string, socketId: string): Promise<boolean>;
+  getHostSocket(sessionId: string): Promise<string | null>;
+  setPlayerSocket(sessionId: string, playerId: string, socketId: string): Promise<boolean>;
+  getPlayerSocket(sessionId: string, playerId: string): Promise<string | null>;
+  getAllPlayerSockets(sessionId: string): Promise<{ [playerId: string]: string }>;
+  removeSocket(sessionId: string, socketId: string): Promise<boolean>;
+
+  // Game Results operations
+  saveGameResult(gameResult: GameResult): Promise<boolean>;
+  getGameResult(sessionId: string): Promise<GameResult | null>;
+  getRecentGameResults(limit?: number): Promise<GameResult[]>;
+  getPublicGameResults(quizTitle?: string, limit?: number): Promise<GameResult[]>;
+  getGameResultsByQuiz(quizId: string, limit?: number): Promise<GameResult[]>;
+
+  // 미기록 변경을 저장소에 기록 (write-behind 캐시만 구현) - 종료 전에 호출
+  flush?(): Promise<void>;
+}
+
+function createBackingStorage(): GameStorage {
+  const backend = (process.env.STORAGE_BACKEND || 'dynamodb').toLowerCase();
+
+  switch (backend) {
+    case 'memory':
+      console.log('🧠 STORAGE: Using in-memory storage backend (data is lost on restart)');
+      return new MemoryStorageService();
+    case 'dynamodb':
+      console.log('🗄️ STORAGE: Using DynamoDB storage backend');
+      return new DynamoDBService();
+    default:
+      console.warn(`⚠️ STORAGE: Unknown STORAGE_BACKEND "${backend}", falling back to DynamoDB`);
+      return new DynamoDBService();
+  }
+}
+
+// SESSION_CACHE=true면 이 인스턴스가 만든 진행 중 세션을 메모리에 두고 변경을 모아서 기록
+// 기본값은 끔 - 캐시는 세션을 만든 인스턴스만 그 세션을 쓴다고 가정하는데, 여러 인스턴스(BROADCAST_BACKEND=redis)에서는
+// 같은 세션의 플레이어/호스트가 다른 인스턴스에 붙어 저장소에 직접 쓰므로 캐시가 오래된 값을 덮어쓸 수 있음
+// 단일 인스턴스이거나 세션별로 만든 인스턴스에 붙도록 라우팅할 때만 켤 것
+function createStorage(): GameStorage {
+  const backing = createBackingStorage();
+  if (process.env.SESSION_CACHE !== 'true') {
+    return backing;
+  }
+
+  const flushIntervalMs = parseInt(process.env.SESSION_CACHE_FLUSH_MS || '1000', 10);
+  const idleTtlMs = parseInt(process.env.SESSION_CACHE_IDLE_MS || '1800000', 10);
+  console.log(`🔥 STORAGE: Session cache enabled (write-behind every ${flushIntervalMs}ms)`);
+  if ((process.env.BROADCAST_BACKEND || 'memory').toLowerCase() !== 'memory') {
+    console.warn('⚠️ STORAGE: Session cache only serves sessions created on this instance - route each session to the instance that created it');
+  }
+  return new CachedStorage(backing, { flushIntervalMs, idleTtlMs });
+}
+
+export default createStorage();
@@ -0,0 +1,64 @@
+import { describe, expect, it } from '@jest/globals';
+import { computeStreak, DEFAULT_STREAK_BONUS, findBrokenStreaks, getStreakMultiplier } from './streaks';
+import { Player, PlayerAnswer } from '../types';
+
+function answer(questionId: string, isCorrect: boolean): PlayerAnswer {
+  return { questionId, isCorrect, timeToAnswer: 1000, points: isCorrect ? 100 : 0, submittedAt: new Date(0).toISOString() };
+}
+
+function player(id: string, answers: PlayerAnswer[]): Player {
+  return { id, name: id, sessionId: 's1', score: 0, answers, isOnline: true, joinedAt: new Date(0).toISOString() };
+}
+
+describe('computeStreak', () => {
+  it('counts correct answers back from the latest asked question', () => {
+    const answers = [answer('q1', false), answer('q2', true), answer('q3', true)];
+    expect(computeStreak(answers, ['q1', 'q2', 'q3'])).toBe(2);
+  });
+
+  it('breaks on a wrong or missing answer', () => {
+    expect(computeStreak([answer('q1', true), answer('q2', false)], ['q1', 'q2'])).toBe(0);
+    expect(computeStreak([answer('q1', true), answer('q3', true)], ['q1', 'q2', 'q3'])).toBe(1);
+  });
+
+  it('follows the asked order rather than the answer order', () => {
+    const answers = [answer('q3', true), answer('q1', true), answer('q2', false)];
+    expect(computeStreak(answers, ['q2', 'q1', 'q3'])).toBe(2);
+  });
+});
+
+describe('getStreakMultiplier', () => {
+  it('uses the highest tier reached', () => {
+    expect(getStreakMultiplier(2)).toBe(1);
+    expect(getStreakMultiplier(3)).toBe(1.1);
+    expect(getStreakMultiplier(7)).toBe(1.2);
+    expect(getStreakMultiplier(12)).toBe(1.5);
+  });
+
+  it('accepts custom tiers in any order', () => {
+    const tiers = [{ minStreak: 4, multiplier: 2 }, { minStreak: 2, multiplier: 1.5 }];
+    expect(getStreakMultiplier(3, tiers)).toBe(1.5);
+    expect(getStreakMultiplier(4, tiers)).toBe(2);
+  });
+
+  it('is 1 without tiers', () => {
+    expect(getStreakMultiplier(10, [])).toBe(1);
+    expect(DEFAULT_STREAK_BONUS.length).toBeGreaterThan(0);
+  });
+});
+
+describe('findBrokenStreaks', () => {
+  it('reports players whose streak of two or more ended on the latest question', () => {
+    const players = [
+      player('broken', [answer('q1', true), answer('q2', true), answer('q3', false)]),
+      player('missed', [answer('q1', true), answer('q2', true)]),
+      player('kept', [answer('q1', true), answer('q2', true), answer('q3', true)]),
+      player('short', [answer('q1', false), answer('q2', true), answer('q3', false)])
+    ];
+
+    expect(findBrokenStreaks(players, ['q1', 'q2', 'q3'])).toEqual([
+      { playerId: 'broken', playerName: 'broken', previousStreak: 2 },
+      { playerId: 'missed', playerName: 'missed', previousStreak: 2 }
+    ]);
+  });
+});
@@ -0,0 +1,49 @@
+import { Player, PlayerAnswer, StreakBonusTier, StreakBreak } from '../types';
+
+// 기본 연속 정답 보너스 - 3연속 +10%, 5연속 +20%, 10연속 +50%
+export const DEFAULT_STREAK_BONUS: StreakBonusTier[] = [
+  { minStreak: 3, multiplier: 1.1 },
+  { minStreak: 5, multiplier: 1.2 },
+  { minStreak: 10, multiplier: 1.5 }
+];
+
+// 이 길이 이상의 연속 정답이 끊기면 정답 공개 시 알림
+const MIN_REPORTED_STREAK = 2;
+
+// 출제 순서를 거꾸로 따라가며 연속 정답 수 계산 - 오답이나 미응답에서 끊김
+export function computeStreak(answers: PlayerAnswer[], askedQuestionIds: string[]): number {
+  const answersByQuestion = new Map(answers.map(answer => [answer.questionId, answer]));
+  let streak = 0;
+
+  for (let i = askedQuestionIds.length - 1; i >= 0; i--) {
+    if (!answersByQuestion.get(askedQuestionIds[i])?.isCorrect) {
+      break;
+    }
+    streak++;
+  }
+
+  return streak;
+}
+
+// 연속 정답 수에 해당하는 가장 높은 보너스 배율 (없으면 1)
+export function getStreakMultiplier(streak: number, tiers: StreakBonusTier[] = DEFAULT_STREAK_BONUS): number {
+  return tiers.reduce(
+    (multiplier, tier) => (streak >= tier.minStreak && tier.multiplier > multiplier ? tier.multiplier : multiplier),
+    1
+  );
+}
+
+// 방금 닫힌 문제에서 연속 정답이 끊긴 플레이어 목록
+export function findBrokenStreaks(players: Player[], askedQuestionIds: string[]): StreakBreak[] {
+  const questionId = askedQuestionIds[askedQuestionIds.length - 1];
+  const previousQuestionIds = askedQuestionIds.slice(0, -1);
+
+  return players
+    .filter(player => !player.answers.find(answer => answer.questionId === questionId)?.isCorrect)
+    .map(player => ({
+      playerId: player.id,
+      playerName: player.name,
+      previousStreak: computeStreak(player.answers, previousQuestionIds)
+    }))
+    .filter(entry => entry.previousStreak >= MIN_REPORTED_STREAK);
+}
@@ -0,0 +1,76 @@
+import { GameError } from './errors';
+import { Player, Team, TeamLeaderboardEntry, TeamModeOptions, TeamModeSettings } from '../types';
+
+export const MIN_TEAMS = 2;
+export const MAX_TEAMS = 20;
+const DEFAULT_TEAM_COUNT = 2;
+
+// host_join 옵션을 세션에 저장할 팀 설정으로 변환 - 팀 이름이 없으면 "Team 1", "Team 2", ...
+export function resolveTeamMode(options: TeamModeOptions): TeamModeSettings {
+  const names = options.teamNames && options.teamNames.length > 0
+    ? options.teamNames.map(name => name.trim())
+    : Array.from({ length: options.teamCount ?? DEFAULT_TEAM_COUNT }, (_, index) => `Team ${index + 1}`);
+
+  if (names.length < MIN_TEAMS || names.length > MAX_TEAMS) {
+    throw new GameError('INVALID_TEAMS', `Team mode needs between ${MIN_TEAMS} and ${MAX_TEAMS} teams`);
+  }
+  if (names.some(name => name.length === 0)) {
+    throw new GameError('INVALID_TEAMS', 'Team names must not be empty');
+  }
+  if (new Set(names.map(name => name.toLowerCase())).size !== names.length) {
+    throw new GameError('INVALID_TEAMS', 'Team names must be unique');
+  }
+
+  const teams: Team[] = names.map((name, index) => ({ id: `team-${index + 1}`, name }));
+
+  return {
+    teams,
+    assignment: options.assignment ?? 'player_choice',
+    aggregation: options.aggregation ?? 'sum'
+  };
+}
+
+// 인원이 가장 적은 팀 (동률이면 먼저 정의된 팀)
+function smallestTeam(teamMode: TeamModeSettings, players: Player[]): Team {
+  return teamMode.teams.reduce((smallest, team) => {
+    const count = players.filter(p => p.teamId === team.id).length;
+    const smallestCount = players.filter(p => p.teamId === smallest.id).length;
+    return count < smallestCount ? team : smallest;
+  });
+}
+
+// 참가 시 팀 배정 - player_choice는 요청한 팀, 요청이 없거나 auto_balance면 인원이 적은 팀
+export function assignTeam(teamMode: TeamModeSettings, players: Player[], requestedTeamId?: string): Team {
+  if (teamMode.assignment === 'player_choice' && requestedTeamId) {
+    const team = teamMode.teams.find(t => t.id === requestedTeamId);
+    if (!team) {
+      throw new GameError('INVALID_TEAM', `Unknown team: ${requestedTeamId}`, {
+        teams: teamMode.teams
+      });
+    }
+    return team;
+  }
+
+  return smallestTeam(teamMode, players);
+}
+
+// 팀 순위 - 팀원 점수의 합 또는 평균
+export function buildTeamLeaderboard(teamMode: TeamModeSettings, players: Player[]): TeamLeaderboardEntry[] {
+  const entries = teamMode.teams.map(team => {
+    const members = players.filter(player => player.teamId === team.id);
+    const total = members.reduce((sum, player) => sum + player.score, 0);
+    const score = teamMode.aggregation === 'average'
+      ? (members.length > 0 ? Math.round(total / members.length) : 0)
+      : total;
+
+    return {
+      teamId: team.id,
+      teamName: team.name,
+      score,
+      memberCount: members.length
+    };
+  });
+
+  entries.sort((a, b) => b.score - a.score);
+  return entries.map((entry, index) => ({ ...entry, rank: index + 1 }));
+}
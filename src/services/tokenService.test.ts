@@ -0,0 +1,53 @@
+import { afterEach, describe, expect, it, jest } from '@jest/globals';
+import tokenService from './tokenService';
+
+// 서명은 그대로 두고 payload만 바꾼 토큰
+function withPayload(token: string, changes: Record<string, unknown>): string {
+  const [data, signature] = token.split('.');
+  const payload = JSON.parse(Buffer.from(data, 'base64url').toString());
+  return `${Buffer.from(JSON.stringify({ ...payload, ...changes })).toString('base64url')}.${signature}`;
+}
+
+describe('tokenService', () => {
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  it('verifies the tokens it issued', () => {
+    const resumeToken = tokenService.issueResumeToken('s1', 'p1');
+    expect(tokenService.verifyResumeToken(resumeToken)).toMatchObject({ kind: 'resume', sessionId: 's1', playerId: 'p1' });
+
+    const { token, expiresAt } = tokenService.issueHostToken('host-1');
+    expect(tokenService.verifyHostToken(token)).toMatchObject({ kind: 'host', hostId: 'host-1' });
+    expect(Date.parse(expiresAt)).toBeGreaterThan(Date.now());
+  });
+
+  it('rejects tokens of the other kind', () => {
+    const { token } = tokenService.issueHostToken('host-1');
+    expect(tokenService.verifyResumeToken(token)).toBeNull();
+    expect(tokenService.verifyHostToken(tokenService.issueResumeToken('s1', 'p1'))).toBeNull();
+  });
+
+  it('rejects tampered and malformed tokens', () => {
+    const { token } = tokenService.issueHostToken('host-1');
+    const [data, signature] = token.split('.');
+
+    expect(tokenService.verifyHostToken(withPayload(token, { hostId: 'someone-else' }))).toBeNull();
+    expect(tokenService.verifyHostToken(`${data}.${signature.slice(0, -2)}xx`)).toBeNull();
+    expect(tokenService.verifyHostToken(data)).toBeNull();
+    expect(tokenService.verifyHostToken('')).toBeNull();
+    expect(tokenService.verifyHostToken(undefined as unknown as string)).toBeNull();
+  });
+
+  it('rejects expired tokens', () => {
+    const resumeToken = tokenService.issueResumeToken('s1', 'p1');
+    const { token: hostToken } = tokenService.issueHostToken('host-1');
+
+    jest.useFakeTimers({ now: Date.now() + 13 * 60 * 60 * 1000 });
+    expect(tokenService.verifyResumeToken(resumeToken)).toBeNull();
+    expect(tokenService.verifyHostToken(hostToken)).not.toBeNull();
+
+    jest.setSystemTime(Date.now() + 12 * 60 * 60 * 1000);
+    expect(tokenService.verifyHostToken(hostToken)).toBeNull();
+  });
+});
@@ -0,0 +1,112 @@
+import { createHmac, randomBytes, timingSafeEqual } from 'crypto';
+
+export interface ResumeTokenPayload {
+  kind: 'resume';
+  sessionId: string;
+  playerId: string;
+  iat: number;
+  exp: number;
+}
+
+export interface HostTokenPayload {
+  kind: 'host';
+  hostId: string; // Quiz.creatorId와 대응
+  iat: number;
+  exp: number;
+}
+
+type TokenPayload = ResumeTokenPayload | HostTokenPayload;
+
+const RESUME_TOKEN_TTL_SECONDS = 12 * 60 * 60; // 세션 TTL과 동일
+const HOST_TOKEN_TTL_SECONDS = 24 * 60 * 60;
+
+class TokenService {
+  private secret: string;
+
+  constructor() {
+    const configuredSecret = process.env.TOKEN_SECRET;
+
+    if (configuredSecret) {
+      this.secret = configuredSecret;
+    } else {
+      // 시크릿이 없으면 프로세스마다 임의 생성 - 서버 재시작 시 기존 토큰은 무효화됨
+      console.warn('⚠️ TOKEN_SERVICE: TOKEN_SECRET is not set, using a random per-process secret');
+      this.secret = randomBytes(32).toString('hex');
+    }
+  }
+
+  private sign(data: string): string {
+    return createHmac('sha256', this.secret).update(data).digest('base64url');
+  }
+
+  // <base64url(payload)>.<base64url(hmac)> 형태의 토큰 생성
+  private encode(payload: TokenPayload): string {
+    const data = Buffer.from(JSON.stringify(payload)).toString('base64url');
+    return `${data}.${this.sign(data)}`;
+  }
+
+  private decode(token: string): TokenPayload | null {
+    if (typeof token !== 'string') {
+      return null;
+    }
+
+    const [data, signature] = token.split('.');
+    if (!data || !signature) {
+      return null;
+    }
+
+    const expected = Buffer.from(this.sign(data));
+    const actual = Buffer.from(signature);
+    if (expected.length !== actual.length || !timingSafeEqual(expected, actual)) {
+      return null;
+    }
+
+    try {
+      const payload = JSON.parse(Buffer.from(data, 'base64url').toString()) as TokenPayload;
+      if (typeof payload.exp !== 'number' || payload.exp < Math.floor(Date.now() / 1000)) {
+        return null;
+      }
+      return payload;
+    } catch {
+      return null;
+    }
+  }
+
+  issueResumeToken(sessionId: string, playerId: string): string {
+    const now = Math.floor(Date.now() / 1000);
+    return this.encode({
+      kind: 'resume',
+      sessionId,
+      playerId,
+      iat: now,
+      exp: now + RESUME_TOKEN_TTL_SECONDS
+    });
+  }
+
+  verifyResumeToken(token: string): ResumeTokenPayload | null {
+    const payload = this.decode(token);
+    if (!payload || payload.kind !== 'resume') {
+      return null;
+    }
+    return payload;
+  }
+
+  issueHostToken(hostId: string): { token: string; expiresAt: string } {
+    const now = Math.floor(Date.now() / 1000);
+    const exp = now + HOST_TOKEN_TTL_SECONDS;
+    return {
+      token: this.encode({ kind: 'host', hostId, iat: now, exp }),
+      expiresAt: new Date(exp * 1000).toISOString()
+    };
+  }
+
+  verifyHostToken(token: string): HostTokenPayload | null {
+    const payload = this.decode(token);
+    if (!payload || payload.kind !== 'host') {
+      return null;
+    }
+    return payload;
+  }
+}
+
+export default new TokenService();
@@ -8,27 +8,142 @@ export interface Quiz {
   updatedAt: string;
 }
 
-export interface Question {
+export type QuestionType = 'single_choice' | 'true_false' | 'multi_select' | 'ordering' | 'numeric';
+
+interface QuestionBase {
   id: string;
   text: string;
   choices: string[];
-  correctAnswer: number;
   timeLimit: number; // seconds
   points: number;
 }
 
+// type이 없으면 기존 단일 선택 문제로 취급
+export interface SingleChoiceQuestion extends QuestionBase {
+  type?: 'single_choice';
+  correctAnswer: number;
+}
+
+export interface TrueFalseQuestion extends QuestionBase {
+  type: 'true_false';
+  correctAnswer: boolean; // choices는 [참, 거짓] 표시용
+}
+
+export interface MultiSelectQuestion extends QuestionBase {
+  type: 'multi_select';
+  correctAnswers: number[]; // 정답 choice 인덱스 집합
+}
+
+export interface OrderingQuestion extends QuestionBase {
+  type: 'ordering';
+  correctOrder: number[]; // choice 인덱스를 올바른 순서대로 나열
+}
+
+export interface NumericQuestion extends QuestionBase {
+  type: 'numeric';
+  correctRange: { min: number; max: number }; // 양 끝 포함
+  unit?: string;
+}
+
+export type Question =
+  | SingleChoiceQuestion
+  | TrueFalseQuestion
+  | MultiSelectQuestion
+  | OrderingQuestion
+  | NumericQuestion;
+
+export type CorrectAnswer = number | boolean | number[] | { min: number; max: number };
+
+// 문제 유형별로 정규화된 제출 답안
+export type SubmittedAnswer =
+  | { type: 'single_choice'; selectedChoice: number }
+  | { type: 'true_false'; value: boolean }
+  | { type: 'multi_select'; selectedChoices: number[] }
+  | { type: 'ordering'; order: number[] }
+  | { type: 'numeric'; value: number };
+
+export type ScoringStrategyName = 'rank_based' | 'time_decay' | 'flat' | 'accuracy_only';
+
+// 호스트가 세션 생성 시 선택하는 옵션
+// 연속 정답이 minStreak 이상이면 획득 점수에 multiplier 적용
+export interface StreakBonusTier {
+  minStreak: number;
+  multiplier: number;
+}
+
+export interface Team {
+  id: string;
+  name: string;
+}
+
+export type TeamAssignment = 'player_choice' | 'auto_balance';
+export type TeamScoreAggregation = 'sum' | 'average';
+
+export interface TeamModeSettings {
+  teams: Team[];
+  assignment: TeamAssignment;
+  aggregation: TeamScoreAggregation;
+}
+
+// host_join에서 받는 팀 옵션 - teamNames가 없으면 teamCount개 팀 자동 생성
+export interface TeamModeOptions {
+  teamNames?: string[];
+  teamCount?: number;
+  assignment?: TeamAssignment;
+  aggregation?: TeamScoreAggregation;
+}
+
+// custom: 플레이어가 입력한 닉네임 (정책 검사), generated: 서버가 친근한 이름 배정
+export type NicknameMode = 'custom' | 'generated';
+
+export interface SessionSettings {
+  scoring: ScoringStrategyName;
+  streakBonus: StreakBonusTier[]; // 빈 배열이면 보너스 없음
+  teamMode?: TeamModeSettings; // 없으면 개인전
+  maxPlayers?: number; // 세션 정원 (서버 상한 MAX_PLAYERS_PER_SESSION 이하)
+  nicknameMode?: NicknameMode; // 없으면 custom
+  shuffleQuestions?: boolean; // 세션 생성 시 문제 순서를 한 번 섞음
+  shuffleChoices?: boolean; // 플레이어마다 보기 순서를 다르게 보여줌 (참/거짓, 숫자 문제 제외)
+}
+
+export type SessionSettingsInput = Partial<Omit<SessionSettings, 'teamMode'>> & {
+  teamMode?: TeamModeOptions;
+};
+
 export interface GameSession {
   id: string;
   quizId: string;
   hostId: string;
   joinCode: string;
-  status: "waiting" | "active" | "finished";
-  currentQuestionIndex: number;
+  status: "waiting" | "active" | "paused" | "finished";
+  currentQuestionIndex: number; // next_question에서 낼 문제 (0부터)
+  activeQuestionIndex?: number; // 화면에 나와 있는 문제 (0부터) - 아직 문제를 내지 않았으면 없음
+  askedQuestionIds?: string[]; // 출제 순서 (다시 낸 문제는 마지막 출제 위치, 건너뛴 문제 제외)
+  skippedQuestionIds?: string[]; // 점수 없이 닫은 문제
+  questionStartedAt?: string; // 현재 문제가 열린 서버 시각
+  questionDeadline?: string; // 현재 문제 마감 서버 시각
+  questionAttemptId?: string; // 문제를 (다시) 열 때마다 새로 발급 - 저장소의 답변 중복/정답 순위 기록 단위
+  pausedAt?: string; // 일시정지 시각 (paused 상태에서만)
+  pausedRemainingMs?: number; // 일시정지 시점에 열려 있던 문제의 남은 시간 - 재개 시 마감 시각 재계산
   players: Player[];
   createdAt: string;
   startedAt?: string;
   finishedAt?: string;
   quiz?: Quiz;
+  settings?: SessionSettings; // 없으면 기본값 (rank_based)
+  bans?: SessionBan[];
+  lobbyLocked?: boolean; // 잠금 시 새 플레이어 참가 불가 (재접속은 허용)
+  playerCount?: number; // 예약된 참가 슬롯 수 - storage.reservePlayerSlot으로만 변경
+  shuffleSeed?: string; // 문제/보기 섞기 시드 - 플레이어별 보기 순서를 재접속해도 같게 유지
+}
+
+// 호스트가 추방하면서 재참가를 막은 플레이어
+export interface SessionBan {
+  playerId: string;
+  playerName: string;
+  nameKey: string; // 비교용 정규화된 이름 (nicknameKey)
+  deviceId?: string;
+  bannedAt: string;
 }
 
 export interface Player {
@@ -37,86 +152,157 @@ export interface Player {
   sessionId: string;
   score: number;
   answers: PlayerAnswer[];
+  answersVersion?: number; // 답변/점수 기록 횟수 - 여러 인스턴스의 동시 기록을 조건부 쓰기로 구분 (없으면 0)
   isOnline: boolean;
+  teamId?: string; // 팀전일 때 소속 팀
+  deviceId?: string; // 클라이언트가 보관하는 기기 식별자 (추방/차단용)
   socketId?: string;
   joinedAt: string;
 }
 
 export interface PlayerAnswer {
   questionId: string;
-  selectedChoice: number;
+  selectedChoice?: number; // 단일 선택 문제 (하위 호환)
+  answer?: SubmittedAnswer;
   timeToAnswer: number; // milliseconds
   isCorrect: boolean;
-  points: number;
-  submittedAt?: string; // ISO string timestamp when answer was submitted
+  points: number; // 연속 정답 보너스 포함
+  streakBonus?: number; // points 중 연속 정답 보너스 몫
+  streak?: number; // 이 답변 반영 후 연속 정답 수
+  rank?: number; // 정답자 중 서버 수신 순위 (정답일 때만)
+  submittedAt?: string; // ISO string timestamp when answer was submitted (서버 수신 시각)
 }
 
-export interface WebSocketMessage {
-  type: MessageType;
-  payload: any;
-  sessionId: string;
-  playerId?: string;
-  timestamp: number;
-}
-
-export type MessageType =
-  // Host messages
-  | "host_join"
-  | "start_game"
-  | "next_question"
-  | "reveal_answer"
-  | "end_game"
-  // Player messages
-  | "player_join"
-  | "submit_answer"
-  // Broadcast messages
-  | "player_joined"
-  | "player_left"
-  | "game_started"
-  | "question_started"
-  | "answer_revealed"
-  | "game_ended"
-  | "leaderboard_update"
-  | "error"
-  | "heartbeat";
-
-export interface JoinPayload {
+export interface ActiveQuestion {
+  question: Question;
+  questionIndex: number; // 1부터 시작
+  startedAt: string;
+  deadline: string;
+  reopened?: boolean; // 이미 낸 문제를 다시 연 경우 (이전 답변 초기화됨)
+}
+
+export interface LeaderboardEntry {
+  playerId: string;
   playerName: string;
+  score: number;
+  rank: number;
+  streak: number; // 현재 연속 정답 수
+  teamId?: string;
 }
 
-export interface HostJoinPayload {
-  hostId: string;
-  quizId: string;
+export interface TeamLeaderboardEntry {
+  teamId: string;
+  teamName: string;
+  score: number; // 팀원 점수 합 또는 평균 (aggregation 설정)
+  memberCount: number;
+  rank: number;
 }
 
-export interface AnswerPayload {
+// submitAnswer 결과
+export interface AnswerResult {
+  playerName: string; // 답변한 플레이어 (호스트/큰 화면의 답변 알림용)
+  isCorrect: boolean;
+  points: number;
   questionId: string;
-  selectedChoice: number;
-  timeToAnswer: number;
+  timeToAnswer: number; // milliseconds, 서버 기준
+  rank?: number;
+  totalCorrect?: number;
+  streak: number; // 이번 답변 반영 후 연속 정답 수
+  streakMultiplier: number;
+  streakBonus: number;
+  duplicate?: boolean; // 이미 답한 문제에 다시 제출 - 처음 기록된 결과
 }
 
-export interface NextQuestionPayload {
-  question: Question;
-  questionIndex: number;
-  timeLimit: number;
+// 정답 공개 시 연속 정답이 끊긴 플레이어
+export interface StreakBreak {
+  playerId: string;
+  playerName: string;
+  previousStreak: number;
 }
 
-export interface RevealAnswerPayload {
-  correctAnswer: number;
+// 세션 결과 조회 응답
+export interface SessionResults {
   leaderboard: LeaderboardEntry[];
-  question: Question;
+  sessionData: GameSession | null;
 }
 
-export interface LeaderboardEntry {
+// 게임 종료 후 저장되는 결과
+export interface GameResult {
+  sessionId: string;
+  quizId: string;
+  quizTitle: string;
+  hostId: string;
+  completedAt: string;
+  totalParticipants: number;
+  totalQuestions: number;
+  averageScore: number;
+  leaderboard: Array<{
+    rank: number;
+    playerId: string;
+    playerName: string;
+    score: number;
+    streak?: number; // 게임 종료 시점의 연속 정답 수
+  }>;
+  teamLeaderboard?: TeamLeaderboardEntry[];
+  questionStats: Array<{
+    questionId: string;
+    questionText: string;
+    questionType?: QuestionType;
+    choices?: string[];
+    points?: number;
+    correctAnswer: CorrectAnswer;
+    correctAnswerText?: string;
+    correctCount: number;
+    totalAnswers: number;
+    skipped?: boolean; // 호스트가 점수 없이 건너뛴 문제
+  }>;
+  isPublic?: boolean;
+  duration?: number;
+  scoring?: ScoringStrategyName; // 점수 방식별 결과 비교용
+  players?: GameResultPlayer[]; // 플레이어별 답변 기록 (예전 결과에는 없음)
+}
+
+export interface GameResultPlayer {
   playerId: string;
   playerName: string;
+  teamId?: string;
   score: number;
-  rank: number;
+  answers: PlayerAnswer[];
+}
+
+// 플레이어 리캡 - 문제별 내 답변과 정답 비교
+export interface PlayerRecapQuestion {
+  questionIndex: number; // 1부터 시작
+  questionId: string;
+  questionText: string;
+  questionType: QuestionType;
+  choices: string[];
+  correctAnswer: CorrectAnswer;
+  correctAnswerText: string;
+  answered: boolean;
+  answer?: SubmittedAnswer;
+  answerText?: string;
+  isCorrect: boolean;
+  points: number;
+  maxPoints?: number;
+  streakBonus?: number;
+  timeToAnswer?: number; // milliseconds
 }
 
-export interface ErrorPayload {
-  message: string;
-  code: string;
+export interface PlayerRecap {
+  sessionId: string;
+  quizId: string;
+  quizTitle: string;
+  playerId: string;
+  playerName: string;
+  teamId?: string;
+  score: number;
+  rank?: number;
+  totalPlayers: number;
+  correctCount: number;
+  totalQuestions: number;
+  completedAt?: string; // 진행 중인 게임이면 없음
+  questions: PlayerRecapQuestion[];
 }
 
 // Session data structure for backward compatibility
@@ -124,4 +310,6 @@ export interface SessionData {
   session: GameSession;
   hostSocketId?: string;
   playerSocketIds: { [playerId: string]: string };
-} 
\ No newline at end of file
+} 
+
+export * from './protocol';
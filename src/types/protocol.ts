@@ -0,0 +1,351 @@
+import type {
+  GameSession,
+  Player,
+  Question,
+  QuestionType,
+  SessionSettingsInput,
+  StreakBreak,
+  TeamLeaderboardEntry,
+  PlayerRecap,
+  Team,
+  CorrectAnswer,
+  LeaderboardEntry,
+  AnswerResult,
+  SessionResults,
+  GameResult
+} from './index';
+
+// WebSocket 프로토콜 정의 - 모든 프레임은 { type, content, timestamp } 형태
+
+interface MessageEnvelope<T extends string, C> {
+  type: T;
+  content: C;
+  metadata?: any;
+  timestamp: number;
+  sessionId?: string;
+  playerId?: string;
+}
+
+type EmptyContent = Record<string, never>;
+
+// ===== Client → Server =====
+
+export interface HostJoinContent {
+  hostToken: string; // POST /api/auth/host-token 으로 발급
+  quizId: string;
+  settings?: SessionSettingsInput; // 생략한 항목은 기본값
+}
+
+export interface PlayerJoinContent {
+  playerName: string; // nicknameMode가 generated면 무시됨
+  teamId?: string; // 팀전(player_choice)에서 선택한 팀
+  deviceId?: string; // 클라이언트가 localStorage 등에 보관하는 기기 식별자
+}
+
+export interface ResumeSessionContent {
+  resumeToken: string;
+}
+
+// 문제 유형별로 해당 필드 하나만 사용
+export interface SubmitAnswerContent {
+  questionId: string;
+  selectedChoice?: number; // single_choice
+  selectedChoices?: number[]; // multi_select
+  order?: number[]; // ordering
+  value?: number | boolean; // numeric / true_false
+  timeToAnswer?: number; // 하위 호환용, 서버는 사용하지 않음
+}
+
+export interface KickPlayerContent {
+  playerId: string;
+  ban?: boolean; // 같은 기기/이름/resume 토큰으로 재참가 차단
+  reason?: string; // 추방되는 플레이어에게 표시
+}
+
+export interface GotoQuestionContent {
+  questionIndex: number; // 1부터 (question_started의 questionIndex와 같음)
+}
+
+export interface ExtendTimeContent {
+  seconds: number; // 현재 문제에 추가할 시간
+}
+
+export interface SessionLookupContent {
+  sessionId: string;
+}
+
+export interface PublicGameResultsQuery {
+  quizTitle?: string;
+  limit?: number;
+}
+
+// 생략 시 요청 소켓(또는 resume 토큰)의 세션/플레이어 기준
+export interface PlayerRecapRequest {
+  sessionId?: string;
+  playerId?: string; // 호스트가 특정 플레이어를 조회할 때
+  resumeToken?: string; // 게임 종료 후 새 연결에서 본인 리캡 조회
+}
+
+export interface ClientMessageContentMap {
+  host_join: HostJoinContent;
+  player_join: PlayerJoinContent;
+  resume_session: ResumeSessionContent;
+  start_game: EmptyContent;
+  next_question: EmptyContent;
+  submit_answer: SubmitAnswerContent;
+  spectator_join: EmptyContent;
+  kick_player: KickPlayerContent;
+  lock_lobby: EmptyContent;
+  unlock_lobby: EmptyContent;
+  pause_game: EmptyContent;
+  resume_game: EmptyContent;
+  extend_time: ExtendTimeContent;
+  skip_question: EmptyContent;
+  repeat_question: EmptyContent;
+  goto_question: GotoQuestionContent;
+  reveal_answer: EmptyContent;
+  finish_game: EmptyContent;
+  get_session_results: SessionLookupContent;
+  get_public_game_results: PublicGameResultsQuery;
+  get_game_result: SessionLookupContent;
+  get_player_recap: PlayerRecapRequest;
+  ping: EmptyContent;
+}
+
+export type ClientMessageType = keyof ClientMessageContentMap;
+
+export type ClientMessage<T extends ClientMessageType = ClientMessageType> = {
+  [K in T]: MessageEnvelope<K, ClientMessageContentMap[K]>;
+}[T];
+
+// ===== Server → Client =====
+
+export interface NameChangeNotice {
+  original: string;
+  final: string;
+  reason: string;
+  code: 'duplicate' | 'normalized' | 'generated';
+}
+
+export interface PlayerJoinedSuccessContent {
+  session: GameSession;
+  player: Player;
+  resumeToken: string;
+  nameChanged?: NameChangeNotice;
+}
+
+export interface SessionResumedContent {
+  session: GameSession;
+  player: Player;
+  currentQuestion?: QuestionStartedContent; // 진행 중인 문제 - 보기 순서는 이 플레이어 화면 기준 (session.quiz는 원래 순서)
+}
+
+export interface PlayerLeftContent {
+  playerId: string;
+  playerName: string;
+  reason: 'disconnected' | 'kicked';
+}
+
+export interface KickedContent {
+  reason: string;
+  banned: boolean;
+}
+
+export interface LobbyStatusContent {
+  locked: boolean;
+  playerCount: number;
+  maxPlayers: number;
+}
+
+export interface QuestionStartedContent {
+  question: Question;
+  questionIndex: number;
+  timeLimit: number;
+  startedAt: string;
+  deadline: string;
+  reopened?: boolean; // 다시 연 문제면 true - 이전 답변은 초기화됨
+}
+
+// 호스트가 점수 없이 닫은 문제 - 이미 받은 답변의 점수는 취소됨
+export interface QuestionSkippedContent {
+  questionId: string;
+  questionIndex: number;
+  leaderboard: LeaderboardEntry[];
+}
+
+// 일시정지/재개/시간 연장 시 남은 시간 - 열린 문제가 없으면 questionId 없이 remainingMs 0
+export interface GameClockContent {
+  questionId?: string;
+  questionIndex: number;
+  remainingMs: number;
+  deadline?: string; // 일시정지 중에는 없음
+  paused: boolean;
+}
+
+export interface GamePausedContent extends GameClockContent {
+  pausedAt: string;
+}
+
+export interface TimeExtendedContent extends GameClockContent {
+  addedSeconds: number;
+}
+
+export interface QuestionClosedContent {
+  questionId: string;
+  questionIndex: number;
+}
+
+export interface PlayerAnsweredContent {
+  playerId: string;
+  playerName: string;
+  hasAnswered: boolean;
+}
+
+export interface AnswerStat {
+  choiceIndex: number;
+  choiceText: string;
+  count: number;
+  isCorrect: boolean;
+}
+
+// ordering 문제: 위치별로 정답 보기를 맞힌 플레이어 수
+export interface OrderingPositionStat {
+  position: number;
+  choiceIndex: number;
+  choiceText: string;
+  correctCount: number;
+}
+
+// numeric 문제: 제출된 값 분포
+export interface NumericAnswerStats {
+  count: number;
+  inRangeCount: number;
+  average: number | null;
+  median: number | null;
+  lowest: number | null;
+  highest: number | null;
+}
+
+export interface AnswerRevealedContent {
+  question: Question;
+  questionType: QuestionType;
+  correctAnswer: CorrectAnswer;
+  correctAnswerText: string;
+  answerStats: AnswerStat[]; // 보기 기반 문제 (single_choice / true_false / multi_select)
+  orderingStats?: OrderingPositionStat[];
+  numericStats?: NumericAnswerStats;
+  correctCount: number;
+  totalAnswers: number;
+  brokenStreaks: StreakBreak[];
+  leaderboard: LeaderboardEntry[];
+  teamLeaderboard?: TeamLeaderboardEntry[]; // 팀전일 때만
+}
+
+export interface GameEndedContent {
+  leaderboard: LeaderboardEntry[];
+  teamLeaderboard?: TeamLeaderboardEntry[]; // 팀전일 때만
+}
+
+// ===== 관전자(큰 화면/방송 오버레이)용 표시 데이터 =====
+
+// 정답 필드를 뺀 문제 - 공개 화면에 미리 정답이 보이지 않도록
+export interface DisplayQuestion {
+  id: string;
+  type: QuestionType;
+  text: string;
+  choices: string[];
+  timeLimit: number;
+  points: number;
+  unit?: string;
+}
+
+export interface SpectatorPlayer {
+  id: string;
+  name: string;
+  teamId?: string;
+  isOnline: boolean;
+}
+
+export interface SpectatorQuestionContent extends Omit<QuestionStartedContent, 'question'> {
+  question: DisplayQuestion;
+}
+
+export interface SpectatorJoinedContent {
+  sessionId: string;
+  joinCode: string;
+  status: GameSession['status'];
+  quizTitle: string;
+  totalQuestions: number;
+  teams?: Team[];
+  players: SpectatorPlayer[];
+  lobby: LobbyStatusContent;
+  currentQuestion?: SpectatorQuestionContent; // 진행 중에 들어온 경우 현재 문제
+}
+
+// 관전자가 받는 메시지 - 나머지(answer_submitted, kicked 등)는 전달하지 않음
+export interface SpectatorMessageContentMap {
+  spectator_joined: SpectatorJoinedContent;
+  player_joined: SpectatorPlayer;
+  player_online: SpectatorPlayer;
+  player_left: PlayerLeftContent;
+  lobby_status: LobbyStatusContent;
+  game_started: SpectatorQuestionContent;
+  question_started: SpectatorQuestionContent;
+  question_closed: QuestionClosedContent;
+  question_skipped: QuestionSkippedContent;
+  game_paused: GamePausedContent;
+  game_resumed: GameClockContent;
+  time_extended: TimeExtendedContent;
+  player_answered: PlayerAnsweredContent;
+  answer_revealed: AnswerRevealedContent;
+  game_ended: GameEndedContent;
+  error: ErrorPayload;
+}
+
+export type SpectatorMessageType = keyof SpectatorMessageContentMap;
+
+export interface ValidationIssue {
+  field: string;
+  message: string;
+}
+
+export interface ErrorPayload {
+  message: string;
+  code: string;
+  details?: any;
+}
+
+export interface ServerMessageContentMap {
+  session_created: GameSession;
+  player_joined_success: PlayerJoinedSuccessContent;
+  session_resumed: SessionResumedContent;
+  player_joined: Player;
+  player_online: Player;
+  player_left: PlayerLeftContent;
+  spectator_joined: SpectatorJoinedContent;
+  kicked: KickedContent;
+  lobby_status: LobbyStatusContent;
+  game_started: QuestionStartedContent;
+  question_started: QuestionStartedContent;
+  question_closed: QuestionClosedContent;
+  question_skipped: QuestionSkippedContent;
+  game_paused: GamePausedContent;
+  game_resumed: GameClockContent;
+  time_extended: TimeExtendedContent;
+  answer_submitted: AnswerResult;
+  player_answered: PlayerAnsweredContent;
+  answer_revealed: AnswerRevealedContent;
+  game_ended: GameEndedContent;
+  session_results: SessionResults | null;
+  public_game_results: GameResult[];
+  game_result: GameResult;
+  player_recap: PlayerRecap;
+  pong: undefined;
+  error: ErrorPayload;
+}
+
+export type ServerMessageType = keyof ServerMessageContentMap;
+
+export type ServerMessage<T extends ServerMessageType = ServerMessageType> = {
+  [K in T]: MessageEnvelope<K, ServerMessageContentMap[K]>;
+}[T];
@@ -0,0 +1,193 @@
+import { ClientMessage, ClientMessageType, ValidationIssue } from '../types';
+import { SCORING_STRATEGY_NAMES } from '../services/scoring';
+import { MAX_TEAMS, MIN_TEAMS } from '../services/teams';
+import { NICKNAME_MODES } from '../services/nicknamePolicy';
+import { ObjectSchema, isPlainObject, validateObject } from './schema';
+
+interface MessageSchema {
+  content: ObjectSchema;
+  envelope?: ObjectSchema; // sessionId / playerId 등 content 밖의 필드
+}
+
+const MAX_TIME_EXTENSION_SECONDS = 300;
+
+const sessionIdSchema = { type: 'string', required: true, minLength: 1, maxLength: 64 } as const;
+
+// 클라이언트 → 서버 메시지별 스키마
+export const clientMessageSchemas: { [K in ClientMessageType]: MessageSchema } = {
+  host_join: {
+    content: {
+      hostToken: { type: 'string', required: true, minLength: 1, maxLength: 2048 },
+      quizId: { type: 'string', required: true, minLength: 1, maxLength: 128 },
+      settings: {
+        type: 'object',
+        additionalProperties: false,
+        properties: {
+          scoring: { type: 'string', enum: SCORING_STRATEGY_NAMES },
+          streakBonus: {
+            type: 'array',
+            maxItems: 10,
+            items: {
+              type: 'object',
+              additionalProperties: false,
+              properties: {
+                minStreak: { type: 'integer', required: true, min: 2, max: 100 },
+                multiplier: { type: 'number', required: true, min: 1, max: 5 }
+              }
+            }
+          },
+          teamMode: {
+            type: 'object',
+            additionalProperties: false,
+            properties: {
+              teamNames: { type: 'array', maxItems: MAX_TEAMS, items: { type: 'string', minLength: 1, maxLength: 50 } },
+              teamCount: { type: 'integer', min: MIN_TEAMS, max: MAX_TEAMS },
+              assignment: { type: 'string', enum: ['player_choice', 'auto_balance'] },
+              aggregation: { type: 'string', enum: ['sum', 'average'] }
+            }
+          },
+          maxPlayers: { type: 'integer', min: 1, max: 10000 },
+          nicknameMode: { type: 'string', enum: NICKNAME_MODES },
+          shuffleQuestions: { type: 'boolean' },
+          shuffleChoices: { type: 'boolean' }
+        }
+      }
+    }
+  },
+  player_join: {
+    content: {
+      playerName: { type: 'string', required: true, maxLength: 200 },
+      teamId: { type: 'string', minLength: 1, maxLength: 64 },
+      deviceId: { type: 'string', minLength: 1, maxLength: 128 }
+    },
+    // player_join은 envelope의 sessionId 자리에 참가 코드를 담아 보냄
+    envelope: {
+      sessionId: { type: 'string', required: true, minLength: 1, maxLength: 16 }
+    }
+  },
+  resume_session: {
+    content: {
+      resumeToken: { type: 'string', required: true, minLength: 1, maxLength: 2048 }
+    }
+  },
+  start_game: { content: {} },
+  next_question: { content: {} },
+  submit_answer: {
+    content: {
+      questionId: { type: 'string', required: true, minLength: 1, maxLength: 128 },
+      selectedChoice: { type: 'integer', min: 0 },
+      selectedChoices: { type: 'array', maxItems: 50, items: { type: 'integer', min: 0 } },
+      order: { type: 'array', maxItems: 50, items: { type: 'integer', min: 0 } },
+      // number(numeric) 또는 boolean(true_false) - 문제 유형에 따른 검증은 GameService에서
+      value: { type: 'any' },
+      timeToAnswer: { type: 'number', min: 0 }
+    }
+  },
+  spectator_join: {
+    content: {},
+    // player_join과 같이 참가 코드를 envelope의 sessionId로 보냄
+    envelope: {
+      sessionId: { type: 'string', required: true, minLength: 1, maxLength: 16 }
+    }
+  },
+  kick_player: {
+    content: {
+      playerId: { type: 'string', required: true, minLength: 1, maxLength: 64 },
+      ban: { type: 'boolean' },
+      reason: { type: 'string', maxLength: 200 }
+    }
+  },
+  lock_lobby: { content: {} },
+  unlock_lobby: { content: {} },
+  pause_game: { content: {} },
+  resume_game: { content: {} },
+  extend_time: {
+    content: {
+      seconds: { type: 'integer', required: true, min: 1, max: MAX_TIME_EXTENSION_SECONDS }
+    }
+  },
+  skip_question: { content: {} },
+  repeat_question: { content: {} },
+  goto_question: {
+    content: {
+      questionIndex: { type: 'integer', required: true, min: 1 }
+    }
+  },
+  reveal_answer: { content: {} },
+  finish_game: { content: {} },
+  get_session_results: {
+    content: { sessionId: sessionIdSchema }
+  },
+  get_public_game_results: {
+    content: {
+      quizTitle: { type: 'string', maxLength: 200 },
+      limit: { type: 'integer', min: 1, max: 100 }
+    }
+  },
+  get_game_result: {
+    content: { sessionId: sessionIdSchema }
+  },
+  get_player_recap: {
+    content: {
+      sessionId: { type: 'string', minLength: 1, maxLength: 64 },
+      playerId: { type: 'string', minLength: 1, maxLength: 64 },
+      resumeToken: { type: 'string', minLength: 1, maxLength: 2048 }
+    }
+  },
+  ping: { content: {} }
+};
+
+export type MessageValidationResult =
+  | { ok: true; message: ClientMessage }
+  | { ok: false; code: 'INVALID_MESSAGE_FORMAT' | 'UNKNOWN_MESSAGE_TYPE' | 'VALIDATION_ERROR'; type?: string; errors: ValidationIssue[] };
+
+function isClientMessageType(type: string): type is ClientMessageType {
+  return Object.prototype.hasOwnProperty.call(clientMessageSchemas, type);
+}
+
+// 파싱된 프레임을 검증해서 타입이 지정된 ClientMessage로 변환
+export function validateClientMessage(raw: unknown): MessageValidationResult {
+  if (!isPlainObject(raw)) {
+    return { ok: false, code: 'INVALID_MESSAGE_FORMAT', errors: [{ field: '', message: 'message must be a JSON object' }] };
+  }
+
+  if (typeof raw.type !== 'string') {
+    return { ok: false, code: 'INVALID_MESSAGE_FORMAT', errors: [{ field: 'type', message: 'is required' }] };
+  }
+
+  const type = raw.type;
+  if (!isClientMessageType(type)) {
+    return { ok: false, code: 'UNKNOWN_MESSAGE_TYPE', type, errors: [{ field: 'type', message: `unknown message type: ${type}` }] };
+  }
+
+  const schema = clientMessageSchemas[type];
+  const issues: ValidationIssue[] = [];
+
+  // content가 없는 메시지는 빈 객체로 취급
+  const content = raw.content === undefined || raw.content === null ? {} : raw.content;
+  if (!isPlainObject(content)) {
+    issues.push({ field: 'content', message: 'must be an object' });
+  } else {
+    validateObject(content, schema.content, 'content', issues);
+  }
+
+  validateObject(raw, {
+    sessionId: { type: 'string' },
+    playerId: { type: 'string' },
+    ...schema.envelope
+  }, '', issues);
+
+  if (issues.length > 0) {
+    return { ok: false, code: 'VALIDATION_ERROR', type, errors: issues };
+  }
+
+  return {
+    ok: true,
+    message: {
+      ...raw,
+      type,
+      content,
+      timestamp: typeof raw.timestamp === 'number' ? raw.timestamp : Date.now()
+    } as ClientMessage
+  };
+}
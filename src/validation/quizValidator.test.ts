@@ -0,0 +1,67 @@
+import { describe, expect, it } from '@jest/globals';
+import { MAX_QUESTIONS, validateQuiz } from './quizValidator';
+
+function quizWith(questions: any[]): any {
+  return { title: '퀴즈', questions };
+}
+
+const singleChoice = { text: '1 + 1 = ?', choices: ['1', '2'], correctAnswer: 1, timeLimit: 20, points: 100 };
+
+function fieldsOf(quiz: any, options = {}): string[] {
+  return validateQuiz(quiz, options).errors.map(error => error.field);
+}
+
+describe('validateQuiz', () => {
+  it('accepts a valid quiz of every question type', () => {
+    const result = validateQuiz(quizWith([
+      singleChoice,
+      { type: 'true_false', text: '참?', correctAnswer: true, timeLimit: 10, points: 100 },
+      { type: 'multi_select', text: '짝수?', choices: ['1', '2', '4'], correctAnswers: [1, 2], timeLimit: 10, points: 100 },
+      { type: 'ordering', text: '순서', choices: ['b', 'a'], correctOrder: [1, 0], timeLimit: 10, points: 100 },
+      { type: 'numeric', text: '몇?', correctRange: { min: 1, max: 3 }, unit: '개', timeLimit: 10, points: 100 }
+    ]));
+
+    expect(result).toEqual({ valid: true, errors: [], warnings: [] });
+  });
+
+  it('rejects non-object bodies and empty question lists', () => {
+    expect(fieldsOf(null)).toEqual(['body']);
+    expect(fieldsOf({ title: '퀴즈', questions: [] })).toEqual(['questions']);
+    expect(fieldsOf({ questions: [singleChoice] })).toEqual(['title']);
+  });
+
+  it('limits the number of questions', () => {
+    const questions = Array.from({ length: MAX_QUESTIONS + 1 }, (_, index) => ({ ...singleChoice, text: `문제 ${index}` }));
+    expect(fieldsOf(quizWith(questions))).toEqual(['questions']);
+  });
+
+  it('checks answers against the question type', () => {
+    expect(fieldsOf(quizWith([{ ...singleChoice, correctAnswer: 2 }]))).toEqual(['questions[0].correctAnswer']);
+    expect(fieldsOf(quizWith([{ ...singleChoice, type: 'multi_select', correctAnswers: [0, 0] }]))).toEqual(['questions[0].correctAnswers']);
+    expect(fieldsOf(quizWith([{ ...singleChoice, type: 'ordering', correctOrder: [0] }]))).toEqual(['questions[0].correctOrder']);
+    expect(fieldsOf(quizWith([{ ...singleChoice, type: 'true_false', choices: ['O'], correctAnswer: 'yes' }]))).toEqual(['questions[0].choices']);
+    expect(fieldsOf(quizWith([{ ...singleChoice, type: 'unknown' }]))).toEqual(['questions[0].type']);
+  });
+
+  it('rejects choices and bad ranges on numeric questions', () => {
+    const numeric = { type: 'numeric', text: '몇?', correctRange: { min: 5, max: 1 }, choices: ['1'], timeLimit: 10, points: 100 };
+    expect(fieldsOf(quizWith([numeric]))).toEqual(['questions[0].choices', 'questions[0].correctRange']);
+    expect(fieldsOf(quizWith([{ ...numeric, choices: [], correctRange: { min: 1, max: 5 } }]))).toEqual([]);
+  });
+
+  it('validates time limits, points and question ids', () => {
+    expect(fieldsOf(quizWith([{ ...singleChoice, timeLimit: 0, points: -1 }]))).toEqual(['questions[0].timeLimit', 'questions[0].points']);
+    expect(fieldsOf(quizWith([singleChoice]), { requireIds: true })).toEqual(['questions[0].id']);
+    expect(fieldsOf(quizWith([{ ...singleChoice, id: 'a' }, { ...singleChoice, id: 'a', text: '다른 문제' }]))).toEqual(['questions[1].id']);
+  });
+
+  it('warns about likely mistakes without failing', () => {
+    const result = validateQuiz(quizWith([
+      { ...singleChoice, timeLimit: 3, choices: ['같음', '같음 '] },
+      singleChoice
+    ]));
+
+    expect(result.valid).toBe(true);
+    expect(result.warnings.map(warning => warning.field)).toEqual(['questions[0].timeLimit', 'questions[0].choices', 'questions[1].text']);
+  });
+});
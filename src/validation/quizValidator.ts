@@ -0,0 +1,208 @@
+import { ValidationIssue } from '../types';
+import { QUESTION_TYPES } from '../services/questionTypes';
+
+// 퀴즈 검증 - 저장 시(REST)와 세션 생성 시(GameService.createSession)에 같은 규칙 사용
+
+export interface QuizValidationResult {
+  valid: boolean; // errors가 없으면 true (warnings는 진행 가능)
+  errors: ValidationIssue[];
+  warnings: ValidationIssue[];
+}
+
+export interface QuizValidationOptions {
+  requireIds?: boolean; // 저장된 퀴즈는 모든 문제에 id가 있어야 함
+}
+
+export const MAX_QUESTIONS = 200;
+export const MAX_CHOICES = 10;
+export const MAX_TIME_LIMIT_SECONDS = 600;
+const SHORT_TIME_LIMIT_SECONDS = 5;
+
+function isNonEmptyString(value: any): value is string {
+  return typeof value === 'string' && value.trim().length > 0;
+}
+
+function isPositiveNumber(value: any): value is number {
+  return typeof value === 'number' && Number.isFinite(value) && value > 0;
+}
+
+function isValidChoices(choices: any, minLength: number): choices is string[] {
+  return Array.isArray(choices) && choices.length >= minLength && choices.length <= MAX_CHOICES &&
+    choices.every((choice: any) => isNonEmptyString(choice));
+}
+
+function isChoiceIndex(value: any, choices: string[]): boolean {
+  return Number.isInteger(value) && value >= 0 && value < choices.length;
+}
+
+function choicesMessage(minLength: number): string {
+  return `choices must be an array of ${minLength} to ${MAX_CHOICES} non-empty strings`;
+}
+
+// 문제 유형별 보기/정답 필드 검증
+function validateQuestionAnswer(question: any, prefix: string): ValidationIssue[] {
+  const type = question.type ?? 'single_choice';
+  const choicesError = { field: `${prefix}.choices`, message: choicesMessage(2) };
+
+  if (!QUESTION_TYPES.includes(type)) {
+    return [{ field: `${prefix}.type`, message: `type must be one of ${QUESTION_TYPES.join(', ')}` }];
+  }
+
+  switch (type) {
+    case 'single_choice':
+      if (!isValidChoices(question.choices, 2)) return [choicesError];
+      if (!isChoiceIndex(question.correctAnswer, question.choices)) {
+        return [{ field: `${prefix}.correctAnswer`, message: 'correctAnswer must be a valid choice index' }];
+      }
+      return [];
+
+    case 'true_false':
+      // choices 생략 시 기본 라벨 사용
+      if (question.choices !== undefined && !(isValidChoices(question.choices, 2) && question.choices.length === 2)) {
+        return [{ field: `${prefix}.choices`, message: 'choices must be exactly 2 non-empty strings (true label, false label)' }];
+      }
+      if (typeof question.correctAnswer !== 'boolean') {
+        return [{ field: `${prefix}.correctAnswer`, message: 'correctAnswer must be a boolean' }];
+      }
+      return [];
+
+    case 'multi_select': {
+      if (!isValidChoices(question.choices, 2)) return [choicesError];
+      const correctAnswers = question.correctAnswers;
+      if (!Array.isArray(correctAnswers) || correctAnswers.length === 0 ||
+          !correctAnswers.every((index: any) => isChoiceIndex(index, question.choices)) ||
+          new Set(correctAnswers).size !== correctAnswers.length) {
+        return [{ field: `${prefix}.correctAnswers`, message: 'correctAnswers must be a non-empty array of unique choice indices' }];
+      }
+      return [];
+    }
+
+    case 'ordering': {
+      if (!isValidChoices(question.choices, 2)) return [choicesError];
+      const correctOrder = question.correctOrder;
+      if (!Array.isArray(correctOrder) || correctOrder.length !== question.choices.length ||
+          !correctOrder.every((index: any) => isChoiceIndex(index, question.choices)) ||
+          new Set(correctOrder).size !== correctOrder.length) {
+        return [{ field: `${prefix}.correctOrder`, message: 'correctOrder must list every choice index exactly once' }];
+      }
+      return [];
+    }
+
+    case 'numeric': {
+      const errors: ValidationIssue[] = [];
+      // 숫자 입력 문제는 보기가 없음 (생략하거나 빈 배열)
+      if (question.choices !== undefined && !(Array.isArray(question.choices) && question.choices.length === 0)) {
+        errors.push({ field: `${prefix}.choices`, message: 'choices must be omitted or empty for numeric questions' });
+      }
+      const range = question.correctRange;
+      if (!range || typeof range !== 'object' ||
+          !Number.isFinite(range.min) || !Number.isFinite(range.max) || range.min > range.max) {
+        errors.push({ field: `${prefix}.correctRange`, message: 'correctRange must be { min, max } numbers with min <= max' });
+      }
+      if (question.unit !== undefined && typeof question.unit !== 'string') {
+        errors.push({ field: `${prefix}.unit`, message: 'unit must be a string' });
+      }
+      return errors;
+    }
+  }
+
+  return [];
+}
+
+// 진행은 가능하지만 실수일 가능성이 높은 항목
+function collectQuestionWarnings(question: any, prefix: string): ValidationIssue[] {
+  const warnings: ValidationIssue[] = [];
+
+  if (isPositiveNumber(question.timeLimit) && question.timeLimit < SHORT_TIME_LIMIT_SECONDS) {
+    warnings.push({ field: `${prefix}.timeLimit`, message: `timeLimit under ${SHORT_TIME_LIMIT_SECONDS} seconds leaves little time to answer` });
+  }
+
+  if (Array.isArray(question.choices)) {
+    const normalized = question.choices
+      .filter((choice: any) => typeof choice === 'string')
+      .map((choice: string) => choice.trim().toLowerCase());
+    if (new Set(normalized).size !== normalized.length) {
+      warnings.push({ field: `${prefix}.choices`, message: 'choices contain duplicates' });
+    }
+  }
+
+  return warnings;
+}
+
+// 퀴즈(또는 REST 요청 바디) 검증 - 오류/경고 목록 반환
+export function validateQuiz(quiz: any, options: QuizValidationOptions = {}): QuizValidationResult {
+  const errors: ValidationIssue[] = [];
+  const warnings: ValidationIssue[] = [];
+  const result = () => ({ valid: errors.length === 0, errors, warnings });
+
+  if (!quiz || typeof quiz !== 'object' || Array.isArray(quiz)) {
+    errors.push({ field: 'body', message: 'Quiz must be a JSON object' });
+    return result();
+  }
+
+  if (!isNonEmptyString(quiz.title)) {
+    errors.push({ field: 'title', message: 'title is required' });
+  }
+  if (quiz.description !== undefined && typeof quiz.description !== 'string') {
+    errors.push({ field: 'description', message: 'description must be a string' });
+  }
+  if (!Array.isArray(quiz.questions) || quiz.questions.length === 0) {
+    errors.push({ field: 'questions', message: 'questions must be a non-empty array' });
+    return result();
+  }
+  if (quiz.questions.length > MAX_QUESTIONS) {
+    errors.push({ field: 'questions', message: `questions must have at most ${MAX_QUESTIONS} items` });
+    return result();
+  }
+
+  const seenIds = new Map<string, number>();
+  const seenTexts = new Map<string, number>();
+
+  quiz.questions.forEach((question: any, index: number) => {
+    const prefix = `questions[${index}]`;
+
+    if (!question || typeof question !== 'object') {
+      errors.push({ field: prefix, message: 'question must be an object' });
+      return;
+    }
+
+    if (question.id === undefined && options.requireIds) {
+      errors.push({ field: `${prefix}.id`, message: 'id is required' });
+    } else if (question.id !== undefined && !isNonEmptyString(question.id)) {
+      errors.push({ field: `${prefix}.id`, message: 'id must be a non-empty string' });
+    } else if (question.id !== undefined) {
+      // 중복 id가 있으면 답변이 다른 문제로 기록됨
+      const firstIndex = seenIds.get(question.id);
+      if (firstIndex !== undefined) {
+        errors.push({ field: `${prefix}.id`, message: `id "${question.id}" is already used by questions[${firstIndex}]` });
+      } else {
+        seenIds.set(question.id, index);
+      }
+    }
+
+    if (!isNonEmptyString(question.text)) {
+      errors.push({ field: `${prefix}.text`, message: 'text is required' });
+    } else {
+      const key = question.text.trim().toLowerCase();
+      const firstIndex = seenTexts.get(key);
+      if (firstIndex !== undefined) {
+        warnings.push({ field: `${prefix}.text`, message: `same text as questions[${firstIndex}]` });
+      } else {
+        seenTexts.set(key, index);
+      }
+    }
+
+    errors.push(...validateQuestionAnswer(question, prefix));
+
+    if (!isPositiveNumber(question.timeLimit) || question.timeLimit > MAX_TIME_LIMIT_SECONDS) {
+      errors.push({ field: `${prefix}.timeLimit`, message: `timeLimit must be a positive number of seconds (at most ${MAX_TIME_LIMIT_SECONDS})` });
+    }
+    if (!isPositiveNumber(question.points)) {
+      errors.push({ field: `${prefix}.points`, message: 'points must be a positive number' });
+    }
+
+    warnings.push(...collectQuestionWarnings(question, prefix));
+  });
+
+  return result();
+}
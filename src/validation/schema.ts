@@ -0,0 +1,123 @@
+import { ValidationIssue } from '../types';
+
+// 최소한의 런타임 스키마 - 외부 입력(WebSocket 프레임 등) 검증용
+export type FieldSchema =
+  | { type: 'string'; required?: boolean; minLength?: number; maxLength?: number; enum?: readonly string[] }
+  | { type: 'number' | 'integer'; required?: boolean; min?: number; max?: number }
+  | { type: 'boolean'; required?: boolean }
+  | { type: 'array'; required?: boolean; minItems?: number; maxItems?: number; items?: FieldSchema }
+  | { type: 'object'; required?: boolean; properties?: ObjectSchema; additionalProperties?: boolean }
+  | { type: 'any'; required?: boolean };
+
+export type ObjectSchema = Record<string, FieldSchema>;
+
+function describeType(value: unknown): string {
+  if (value === null) return 'null';
+  if (Array.isArray(value)) return 'array';
+  return typeof value;
+}
+
+export function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function validateField(value: unknown, schema: FieldSchema, field: string, issues: ValidationIssue[]): void {
+  if (value === undefined || value === null) {
+    if (schema.required) {
+      issues.push({ field, message: 'is required' });
+    }
+    return;
+  }
+
+  switch (schema.type) {
+    case 'string':
+      if (typeof value !== 'string') {
+        issues.push({ field, message: `must be a string, got ${describeType(value)}` });
+        return;
+      }
+      if (schema.minLength !== undefined && value.length < schema.minLength) {
+        issues.push({ field, message: `must be at least ${schema.minLength} characters` });
+      }
+      if (schema.maxLength !== undefined && value.length > schema.maxLength) {
+        issues.push({ field, message: `must be at most ${schema.maxLength} characters` });
+      }
+      if (schema.enum && !schema.enum.includes(value)) {
+        issues.push({ field, message: `must be one of: ${schema.enum.join(', ')}` });
+      }
+      return;
+
+    case 'number':
+    case 'integer':
+      if (typeof value !== 'number' || !Number.isFinite(value)) {
+        issues.push({ field, message: `must be a number, got ${describeType(value)}` });
+        return;
+      }
+      if (schema.type === 'integer' && !Number.isInteger(value)) {
+        issues.push({ field, message: 'must be an integer' });
+      }
+      if (schema.min !== undefined && value < schema.min) {
+        issues.push({ field, message: `must be >= ${schema.min}` });
+      }
+      if (schema.max !== undefined && value > schema.max) {
+        issues.push({ field, message: `must be <= ${schema.max}` });
+      }
+      return;
+
+    case 'boolean':
+      if (typeof value !== 'boolean') {
+        issues.push({ field, message: `must be a boolean, got ${describeType(value)}` });
+      }
+      return;
+
+    case 'array':
+      if (!Array.isArray(value)) {
+        issues.push({ field, message: `must be an array, got ${describeType(value)}` });
+        return;
+      }
+      if (schema.minItems !== undefined && value.length < schema.minItems) {
+        issues.push({ field, message: `must have at least ${schema.minItems} items` });
+      }
+      if (schema.maxItems !== undefined && value.length > schema.maxItems) {
+        issues.push({ field, message: `must have at most ${schema.maxItems} items` });
+      }
+      if (schema.items) {
+        const itemSchema = schema.items;
+        value.forEach((item, index) => validateField(item, { ...itemSchema, required: true }, `${field}[${index}]`, issues));
+      }
+      return;
+
+    case 'object':
+      if (!isPlainObject(value)) {
+        issues.push({ field, message: `must be an object, got ${describeType(value)}` });
+        return;
+      }
+      if (schema.properties) {
+        validateObject(value, schema.properties, field, issues, schema.additionalProperties ?? true);
+      }
+      return;
+
+    case 'any':
+      return;
+  }
+}
+
+// 객체의 각 필드를 검증하고 문제 목록을 issues에 추가
+export function validateObject(
+  value: Record<string, unknown>,
+  schema: ObjectSchema,
+  prefix: string,
+  issues: ValidationIssue[],
+  allowUnknown: boolean = true
+): void {
+  for (const [key, fieldSchema] of Object.entries(schema)) {
+    validateField(value[key], fieldSchema, prefix ? `${prefix}.${key}` : key, issues);
+  }
+
+  if (!allowUnknown) {
+    for (const key of Object.keys(value)) {
+      if (!(key in schema)) {
+        issues.push({ field: prefix ? `${prefix}.${key}` : key, message: 'is not allowed' });
+      }
+    }
+  }
+}